@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+// End-to-end: run buzz against a fake gh binary while recording, then replay
+// the fixtures with gh unavailable and expect byte-identical output.
+
+vi.mock("child_process", () => {
+  const { promisify } = require("util");
+  const mockFn = vi.fn();
+  mockFn[promisify.custom] = vi.fn();
+  return { execFile: mockFn };
+});
+
+import { execFile } from "child_process";
+import { promisify } from "util";
+
+const execFilePromisified = promisify(execFile) as unknown as ReturnType<typeof vi.fn>;
+
+const config = `team:
+  roles:
+    engineer:
+      description: "Engineer role"
+      instructions: "Build things."
+`;
+
+const votingComment = {
+  id: "c1",
+  body: '<!-- hivemoot-metadata: {"type":"voting"} -->',
+  createdAt: "2025-01-01T00:00:00Z",
+  author: { login: "queen" },
+  reactions: { nodes: [{ content: "THUMBS_UP", createdAt: "2025-01-01T01:00:00Z", user: { login: "worker" } }] },
+};
+
+function fakeGh(args: string[]): string {
+  const [command, subcommand] = args;
+  if (command === "api" && subcommand === "user") return JSON.stringify({ login: "worker" });
+  if (command === "api" && subcommand === "/repos/hivemoot/e2e/notifications") return "[]";
+  if (command === "api" && subcommand === "repos/hivemoot/e2e/contents/.github/hivemoot.yml") {
+    return JSON.stringify({ content: Buffer.from(config).toString("base64") });
+  }
+  if (command === "api" && subcommand === "graphql") {
+    return JSON.stringify({
+      data: {
+        repository: {
+          issues: {
+            pageInfo: { hasNextPage: false, endCursor: null },
+            nodes: [{
+              number: 1,
+              title: "Vote on the roadmap",
+              url: "https://github.com/hivemoot/e2e/issues/1",
+              createdAt: "2025-01-01T00:00:00Z",
+              updatedAt: "2025-01-02T00:00:00Z",
+              author: { login: "queen" },
+              labels: { nodes: [{ name: "hivemoot:voting" }] },
+              assignees: { nodes: [] },
+              comments: { pageInfo: { hasPreviousPage: false, startCursor: null }, nodes: [votingComment] },
+            }],
+          },
+          pullRequests: { pageInfo: { hasNextPage: false, endCursor: null }, nodes: [] },
+        },
+      },
+    });
+  }
+  if (command === "api" && subcommand === "repos/hivemoot/.github/contents/.github/hivemoot.yml") {
+    throw new Error("gh: Not Found (HTTP 404)");
+  }
+  throw new Error(`unexpected gh call: ${args.join(" ")}`);
+}
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "hivemoot-buzz-replay-"));
+  vi.resetModules();
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2025-01-03T00:00:00Z"));
+});
+
+afterEach(async () => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function runBuzz(setup: (client: typeof import("../github/client.js")) => void): Promise<string> {
+  const client = await import("../github/client.js");
+  setup(client);
+  const { buzzCommand } = await import("./buzz.js");
+  const log = vi.spyOn(console, "log").mockImplementation(() => {});
+  await buzzCommand({ role: "engineer", json: true, repo: "hivemoot/e2e" });
+  const output = log.mock.calls.map((c) => String(c[0])).join("\n");
+  log.mockRestore();
+  return output;
+}
+
+describe("buzz record/replay", () => {
+  it("reproduces the recorded view offline", async () => {
+    execFilePromisified.mockImplementation(async (_bin: string, args: string[]) => ({ stdout: fakeGh(args), stderr: "" }));
+    const recorded = await runBuzz((client) => client.recordGhTraffic(dir));
+
+    vi.resetModules();
+    execFilePromisified.mockReset();
+    execFilePromisified.mockRejectedValue(Object.assign(new Error("spawn gh ENOENT"), { code: "ENOENT" }));
+    const replayed = await runBuzz((client) => client.replayGhTraffic(dir));
+
+    expect(execFilePromisified).not.toHaveBeenCalled();
+    expect(replayed).toBe(recorded);
+    const parsed = JSON.parse(replayed);
+    expect(parsed.summary.currentUser).toBe("worker");
+    expect(parsed.summary.voteOn[0]).toMatchObject({ number: 1, yourVote: "👍" });
+  });
+});
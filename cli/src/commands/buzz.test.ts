@@ -1,8 +1,14 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { CliError } from "../config/types.js";
+import { CliError, DEFAULT_GOVERNANCE_LABELS } from "../config/types.js";
 
 vi.mock("../config/loader.js", () => ({
-  loadTeamConfig: vi.fn(),
+  loadRepoConfig: vi.fn(),
+}));
+
+vi.mock("../github/client.js", () => ({
+  getResponseCacheStats: vi.fn(),
+  getRetryStats: vi.fn(() => ({ retries: 0, budgetExhausted: false })),
+  getSnapshotStore: vi.fn(),
 }));
 
 vi.mock("../github/repo.js", () => ({
@@ -17,6 +23,11 @@ vi.mock("../github/pulls.js", () => ({
   fetchPulls: vi.fn(),
 }));
 
+vi.mock("../github/snapshot.js", () => ({
+  fetchRepoSnapshot: vi.fn(),
+  syncRepoSnapshot: vi.fn(),
+}));
+
 vi.mock("../github/user.js", () => ({
   fetchCurrentUser: vi.fn(),
 }));
@@ -43,10 +54,13 @@ vi.mock("../output/json.js", () => ({
   jsonStatus: vi.fn(),
 }));
 
-import { loadTeamConfig } from "../config/loader.js";
+import { loadRepoConfig } from "../config/loader.js";
+import { DEFAULT_GOVERNANCE } from "../config/defaults.js";
+import { getResponseCacheStats, getRetryStats, getSnapshotStore } from "../github/client.js";
 import { resolveRepo } from "../github/repo.js";
 import { fetchIssues } from "../github/issues.js";
 import { fetchPulls } from "../github/pulls.js";
+import { fetchRepoSnapshot, syncRepoSnapshot } from "../github/snapshot.js";
 import { fetchCurrentUser } from "../github/user.js";
 import { fetchVotes } from "../github/votes.js";
 import { fetchNotifications } from "../github/notifications.js";
@@ -55,10 +69,15 @@ import { formatBuzz, formatStatus } from "../output/formatter.js";
 import { jsonBuzz, jsonStatus } from "../output/json.js";
 import { buzzCommand } from "./buzz.js";
 
+const mockedGetResponseCacheStats = vi.mocked(getResponseCacheStats);
 const mockedResolveRepo = vi.mocked(resolveRepo);
-const mockedLoadTeamConfig = vi.mocked(loadTeamConfig);
+const mockedLoadRepoConfig = vi.mocked(loadRepoConfig);
 const mockedFetchIssues = vi.mocked(fetchIssues);
 const mockedFetchPulls = vi.mocked(fetchPulls);
+const mockedFetchRepoSnapshot = vi.mocked(fetchRepoSnapshot);
+const mockedSyncRepoSnapshot = vi.mocked(syncRepoSnapshot);
+const mockedGetSnapshotStore = vi.mocked(getSnapshotStore);
+const mockedGetRetryStats = vi.mocked(getRetryStats);
 const mockedFetchCurrentUser = vi.mocked(fetchCurrentUser);
 const mockedFetchVotes = vi.mocked(fetchVotes);
 const mockedFetchNotifications = vi.mocked(fetchNotifications);
@@ -93,11 +112,24 @@ const testTeamConfig = {
   },
 };
 
+function repoConfig(team?: typeof testTeamConfig) {
+  return { governance: DEFAULT_GOVERNANCE, team } as any;
+}
+
+function snapshot(issues: unknown[] = [], prs: unknown[] = []) {
+  return { issues, prs, voteComments: new Map() } as any;
+}
+
+// Rejection that makes buzz fall back to separate issue/PR listings
+const snapshotUnsupported = new CliError("GraphQL: Field 'reviewRequests' doesn't exist", "GH_ERROR");
+
 beforeEach(() => {
   vi.clearAllMocks();
   vi.spyOn(console, "log").mockImplementation(() => {});
   mockedResolveRepo.mockResolvedValue(testRepo);
-  mockedLoadTeamConfig.mockResolvedValue(testTeamConfig);
+  mockedLoadRepoConfig.mockResolvedValue(repoConfig(testTeamConfig));
+  mockedGetSnapshotStore.mockReturnValue(undefined);
+  mockedFetchRepoSnapshot.mockResolvedValue(snapshot());
   mockedFetchIssues.mockResolvedValue([]);
   mockedFetchPulls.mockResolvedValue([]);
   mockedFetchCurrentUser.mockResolvedValue("testuser");
@@ -113,15 +145,16 @@ describe("buzzCommand", () => {
     await buzzCommand({ role: "engineer" });
 
     expect(mockedResolveRepo).toHaveBeenCalledWith(undefined);
-    expect(mockedLoadTeamConfig).toHaveBeenCalledWith(testRepo);
-    expect(mockedFetchIssues).toHaveBeenCalledWith(testRepo, 200);
-    expect(mockedFetchPulls).toHaveBeenCalledWith(testRepo, 200);
+    expect(mockedLoadRepoConfig).toHaveBeenCalledWith(testRepo, { role: "engineer" });
+    expect(mockedFetchRepoSnapshot).toHaveBeenCalledWith(testRepo, 200);
+    expect(mockedFetchIssues).not.toHaveBeenCalled();
     expect(mockedFormatBuzz).toHaveBeenCalledWith(
       "engineer",
       testTeamConfig.roles.engineer,
       testSummary,
       undefined,
       undefined,
+      expect.any(Object),
     );
     expect(console.log).toHaveBeenCalledWith("ROLE: engineer — Engineer role\n...");
   });
@@ -136,6 +169,7 @@ describe("buzzCommand", () => {
       testTeamConfig.roles.engineer,
       testSummary,
       undefined,
+      expect.any(Object),
     );
     expect(console.log).toHaveBeenCalledWith('{"role":{"name":"engineer"}}');
     expect(mockedFormatBuzz).not.toHaveBeenCalled();
@@ -148,7 +182,6 @@ describe("buzzCommand", () => {
 
     expect(mockedFormatStatus).toHaveBeenCalledWith(testSummary, undefined);
     expect(mockedFormatBuzz).not.toHaveBeenCalled();
-    expect(mockedLoadTeamConfig).not.toHaveBeenCalled();
     expect(console.log).toHaveBeenCalledWith("REPO SUMMARY — hivemoot/test\n...");
   });
 
@@ -160,7 +193,6 @@ describe("buzzCommand", () => {
     expect(mockedJsonStatus).toHaveBeenCalledWith(testSummary);
     expect(console.log).toHaveBeenCalledWith('{"repo":"hivemoot/test"}');
     expect(mockedJsonBuzz).not.toHaveBeenCalled();
-    expect(mockedLoadTeamConfig).not.toHaveBeenCalled();
   });
 
   it("passes --limit to formatter", async () => {
@@ -174,6 +206,7 @@ describe("buzzCommand", () => {
       testSummary,
       5,
       undefined,
+      expect.any(Object),
     );
   });
 
@@ -190,7 +223,7 @@ describe("buzzCommand", () => {
       ...testTeamConfig,
       onboarding: "Read CONTRIBUTING.md first.",
     };
-    mockedLoadTeamConfig.mockResolvedValue(teamWithOnboarding);
+    mockedLoadRepoConfig.mockResolvedValue(repoConfig(teamWithOnboarding));
     mockedFormatBuzz.mockReturnValue("output");
 
     await buzzCommand({ role: "engineer" });
@@ -201,6 +234,7 @@ describe("buzzCommand", () => {
       testSummary,
       undefined,
       "Read CONTRIBUTING.md first.",
+      expect.any(Object),
     );
   });
 
@@ -209,7 +243,7 @@ describe("buzzCommand", () => {
       ...testTeamConfig,
       onboarding: "Read CONTRIBUTING.md first.",
     };
-    mockedLoadTeamConfig.mockResolvedValue(teamWithOnboarding);
+    mockedLoadRepoConfig.mockResolvedValue(repoConfig(teamWithOnboarding));
     mockedJsonBuzz.mockReturnValue('{}');
 
     await buzzCommand({ role: "engineer", json: true });
@@ -219,9 +253,26 @@ describe("buzzCommand", () => {
       teamWithOnboarding.roles.engineer,
       testSummary,
       "Read CONTRIBUTING.md first.",
+      expect.any(Object),
     );
   });
 
+  it("passes template variables for the role text to the formatter", async () => {
+    const governance = { ...DEFAULT_GOVERNANCE, pr: { staleDays: 7, maxPRsPerIssue: 2 } };
+    mockedLoadRepoConfig.mockResolvedValue({ governance, team: { ...testTeamConfig, name: "colony" } } as any);
+
+    await buzzCommand({ role: "engineer" });
+
+    expect(mockedFormatBuzz.mock.calls[0][5]).toEqual({
+      repo: "hivemoot/test",
+      user: "testuser",
+      role: "engineer",
+      "team.name": "colony",
+      "governance.pr.staleDays": 7,
+      "governance.pr.maxPRsPerIssue": 2,
+    });
+  });
+
   it("throws ROLE_NOT_FOUND for unknown role", async () => {
     await expect(buzzCommand({ role: "nonexistent" })).rejects.toThrow(CliError);
     await expect(buzzCommand({ role: "nonexistent" })).rejects.toMatchObject({
@@ -236,13 +287,12 @@ describe("buzzCommand", () => {
     });
   });
 
-  it("passes fetchLimit to fetch functions", async () => {
+  it("passes fetchLimit to the snapshot fetch", async () => {
     mockedFormatStatus.mockReturnValue("output");
 
     await buzzCommand({ fetchLimit: 500 });
 
-    expect(mockedFetchIssues).toHaveBeenCalledWith(testRepo, 500);
-    expect(mockedFetchPulls).toHaveBeenCalledWith(testRepo, 500);
+    expect(mockedFetchRepoSnapshot).toHaveBeenCalledWith(testRepo, 500);
   });
 
   it("defaults fetchLimit to 200", async () => {
@@ -250,14 +300,22 @@ describe("buzzCommand", () => {
 
     await buzzCommand({});
 
-    expect(mockedFetchIssues).toHaveBeenCalledWith(testRepo, 200);
-    expect(mockedFetchPulls).toHaveBeenCalledWith(testRepo, 200);
+    expect(mockedFetchRepoSnapshot).toHaveBeenCalledWith(testRepo, 200);
+  });
+
+  it("passes fetchLimit to the fallback listings", async () => {
+    mockedFetchRepoSnapshot.mockRejectedValue(snapshotUnsupported);
+    mockedFormatStatus.mockReturnValue("output");
+
+    await buzzCommand({ fetchLimit: 500 });
+
+    expect(mockedFetchIssues).toHaveBeenCalledWith(testRepo, 500);
+    expect(mockedFetchPulls).toHaveBeenCalledWith(testRepo, 500);
   });
 
   it("adds truncation note when issues hit fetchLimit", async () => {
     const manyIssues = Array.from({ length: 200 }, (_, i) => ({ number: i, labels: [] }));
-    mockedFetchIssues.mockResolvedValue(manyIssues as any);
-    mockedFetchPulls.mockResolvedValue([]);
+    mockedFetchRepoSnapshot.mockResolvedValue(snapshot(manyIssues));
     mockedBuildSummary.mockReturnValue({ ...testSummary, notes: [] });
     mockedFormatStatus.mockReturnValue("output");
 
@@ -269,8 +327,7 @@ describe("buzzCommand", () => {
 
   it("adds truncation note when PRs hit fetchLimit", async () => {
     const manyPRs = Array.from({ length: 200 }, (_, i) => ({ number: i }));
-    mockedFetchIssues.mockResolvedValue([]);
-    mockedFetchPulls.mockResolvedValue(manyPRs as any);
+    mockedFetchRepoSnapshot.mockResolvedValue(snapshot([], manyPRs));
     mockedBuildSummary.mockReturnValue({ ...testSummary, notes: [] });
     mockedFormatStatus.mockReturnValue("output");
 
@@ -280,9 +337,46 @@ describe("buzzCommand", () => {
     expect(summaryArg.notes).toContain("Only the first 200 PRs were fetched. Use --fetch-limit to increase.");
   });
 
+  it("syncs the local snapshot store when one is configured", async () => {
+    const store = { load: vi.fn(), save: vi.fn() };
+    mockedGetSnapshotStore.mockReturnValue(store);
+    mockedSyncRepoSnapshot.mockResolvedValue({ ...snapshot([{ number: 1, labels: [] }]), complete: true });
+    mockedFormatStatus.mockReturnValue("output");
+
+    await buzzCommand({});
+
+    expect(mockedSyncRepoSnapshot).toHaveBeenCalledWith(testRepo, store);
+    expect(mockedFetchRepoSnapshot).not.toHaveBeenCalled();
+    expect(mockedBuildSummary.mock.calls[0][1]).toEqual([{ number: 1, labels: [] }]);
+  });
+
+  it("no truncation note when the synced snapshot is complete", async () => {
+    const manyIssues = Array.from({ length: 300 }, (_, i) => ({ number: i, labels: [] }));
+    mockedGetSnapshotStore.mockReturnValue({ load: vi.fn(), save: vi.fn() });
+    mockedSyncRepoSnapshot.mockResolvedValue({ ...snapshot(manyIssues), complete: true });
+    mockedBuildSummary.mockReturnValue({ ...testSummary, notes: [] });
+    mockedFormatStatus.mockReturnValue("output");
+
+    await buzzCommand({});
+
+    const summaryArg = mockedFormatStatus.mock.calls[0][0];
+    expect(summaryArg.notes).toHaveLength(0);
+  });
+
+  it("notes retried transient failures", async () => {
+    mockedGetRetryStats.mockReturnValueOnce({ retries: 2, budgetExhausted: true });
+    mockedBuildSummary.mockReturnValue({ ...testSummary, notes: [] });
+    mockedFormatStatus.mockReturnValue("output");
+
+    await buzzCommand({});
+
+    const summaryArg = mockedFormatStatus.mock.calls[0][0];
+    expect(summaryArg.notes).toContain(
+      "Retried 2 transient GitHub failures — retry budget exhausted, later failures were not retried.",
+    );
+  });
+
   it("no truncation note when results are under the limit", async () => {
-    mockedFetchIssues.mockResolvedValue([]);
-    mockedFetchPulls.mockResolvedValue([]);
     mockedBuildSummary.mockReturnValue({ ...testSummary, notes: [] });
     mockedFormatStatus.mockReturnValue("output");
 
@@ -293,8 +387,11 @@ describe("buzzCommand", () => {
   });
 
   // ── Graceful degradation on partial fetch failure ──────────────
+  // These run the fallback path: the snapshot query is rejected, so issues
+  // and PRs are listed separately and can fail independently.
 
   it("shows PRs with warning when issues fetch fails", async () => {
+    mockedFetchRepoSnapshot.mockRejectedValue(snapshotUnsupported);
     mockedFetchIssues.mockRejectedValue(new CliError("issues boom", "GH_ERROR"));
     mockedFetchPulls.mockResolvedValue([]);
     mockedFetchCurrentUser.mockResolvedValue("testuser");
@@ -303,12 +400,13 @@ describe("buzzCommand", () => {
 
     await buzzCommand({});
 
-    expect(mockedBuildSummary).toHaveBeenCalledWith(testRepo, [], [], "testuser", expect.any(Date), expect.any(Map), expect.any(Map));
+    expect(mockedBuildSummary).toHaveBeenCalledWith(testRepo, [], [], "testuser", expect.any(Date), expect.any(Map), expect.any(Map), DEFAULT_GOVERNANCE, DEFAULT_GOVERNANCE_LABELS);
     const summaryArg = mockedFormatStatus.mock.calls[0][0];
     expect(summaryArg.notes).toContain("Could not fetch issues (issues boom) — showing PRs only.");
   });
 
   it("shows issues with warning when PRs fetch fails", async () => {
+    mockedFetchRepoSnapshot.mockRejectedValue(snapshotUnsupported);
     mockedFetchIssues.mockResolvedValue([]);
     mockedFetchPulls.mockRejectedValue(new CliError("prs boom", "GH_ERROR"));
     mockedFetchCurrentUser.mockResolvedValue("testuser");
@@ -317,12 +415,13 @@ describe("buzzCommand", () => {
 
     await buzzCommand({});
 
-    expect(mockedBuildSummary).toHaveBeenCalledWith(testRepo, [], [], "testuser", expect.any(Date), expect.any(Map), expect.any(Map));
+    expect(mockedBuildSummary).toHaveBeenCalledWith(testRepo, [], [], "testuser", expect.any(Date), expect.any(Map), expect.any(Map), DEFAULT_GOVERNANCE, DEFAULT_GOVERNANCE_LABELS);
     const summaryArg = mockedFormatStatus.mock.calls[0][0];
     expect(summaryArg.notes).toContain("Could not fetch pull requests (prs boom) — showing issues only.");
   });
 
   it("works with empty currentUser when user fetch fails", async () => {
+    mockedFetchRepoSnapshot.mockRejectedValue(snapshotUnsupported);
     mockedFetchIssues.mockResolvedValue([]);
     mockedFetchPulls.mockResolvedValue([]);
     mockedFetchCurrentUser.mockRejectedValue(new Error("auth failed"));
@@ -331,7 +430,7 @@ describe("buzzCommand", () => {
 
     await buzzCommand({});
 
-    expect(mockedBuildSummary).toHaveBeenCalledWith(testRepo, [], [], "", expect.any(Date), expect.any(Map), expect.any(Map));
+    expect(mockedBuildSummary).toHaveBeenCalledWith(testRepo, [], [], "", expect.any(Date), expect.any(Map), expect.any(Map), DEFAULT_GOVERNANCE, DEFAULT_GOVERNANCE_LABELS);
     const summaryArg = mockedFormatStatus.mock.calls[0][0];
     expect(summaryArg.notes).toContain(
       "Could not determine GitHub user (auth failed) — drive sections, competition counts, and author highlighting are unavailable.",
@@ -339,6 +438,7 @@ describe("buzzCommand", () => {
   });
 
   it("throws first CliError when all three fetches fail", async () => {
+    mockedFetchRepoSnapshot.mockRejectedValue(snapshotUnsupported);
     const cliErr = new CliError("not authenticated", "GH_NOT_AUTHENTICATED");
     mockedFetchIssues.mockRejectedValue(new Error("network"));
     mockedFetchPulls.mockRejectedValue(cliErr);
@@ -348,6 +448,7 @@ describe("buzzCommand", () => {
   });
 
   it("throws first rejection reason when all fail and none are CliError", async () => {
+    mockedFetchRepoSnapshot.mockRejectedValue(snapshotUnsupported);
     const firstErr = new Error("network");
     mockedFetchIssues.mockRejectedValue(firstErr);
     mockedFetchPulls.mockRejectedValue(new Error("also network"));
@@ -357,6 +458,7 @@ describe("buzzCommand", () => {
   });
 
   it("produces single combined warning when both data fetches fail", async () => {
+    mockedFetchRepoSnapshot.mockRejectedValue(snapshotUnsupported);
     mockedFetchIssues.mockRejectedValue(new CliError("boom", "GH_ERROR"));
     mockedFetchPulls.mockRejectedValue(new CliError("boom2", "GH_ERROR"));
     mockedFetchCurrentUser.mockResolvedValue("testuser");
@@ -365,7 +467,7 @@ describe("buzzCommand", () => {
 
     await buzzCommand({});
 
-    expect(mockedBuildSummary).toHaveBeenCalledWith(testRepo, [], [], "testuser", expect.any(Date), expect.any(Map), expect.any(Map));
+    expect(mockedBuildSummary).toHaveBeenCalledWith(testRepo, [], [], "testuser", expect.any(Date), expect.any(Map), expect.any(Map), DEFAULT_GOVERNANCE, DEFAULT_GOVERNANCE_LABELS);
     const summaryArg = mockedFormatStatus.mock.calls[0][0];
     expect(summaryArg.notes).toContain(
       "Could not fetch issues (boom) or pull requests (boom2) — showing limited summary.",
@@ -374,6 +476,7 @@ describe("buzzCommand", () => {
   });
 
   it("throws most actionable CliError when all fail with multiple CliErrors", async () => {
+    mockedFetchRepoSnapshot.mockRejectedValue(snapshotUnsupported);
     const genericErr = new CliError("generic failure", "GH_ERROR");
     const authErr = new CliError("not authenticated", "GH_NOT_AUTHENTICATED");
     mockedFetchIssues.mockRejectedValue(genericErr);
@@ -384,6 +487,7 @@ describe("buzzCommand", () => {
   });
 
   it("includes error detail from non-CliError rejections", async () => {
+    mockedFetchRepoSnapshot.mockRejectedValue(snapshotUnsupported);
     mockedFetchIssues.mockRejectedValue(new Error("ETIMEDOUT"));
     mockedFetchPulls.mockResolvedValue([]);
     mockedFetchCurrentUser.mockResolvedValue("testuser");
@@ -397,6 +501,7 @@ describe("buzzCommand", () => {
   });
 
   it("includes error detail in both data and user failure notes", async () => {
+    mockedFetchRepoSnapshot.mockRejectedValue(snapshotUnsupported);
     mockedFetchIssues.mockRejectedValue(new CliError("rate limited", "RATE_LIMITED"));
     mockedFetchPulls.mockResolvedValue([]);
     mockedFetchCurrentUser.mockRejectedValue(new Error("token expired"));
@@ -415,36 +520,81 @@ describe("buzzCommand", () => {
     expect(summaryArg.notes).toHaveLength(2);
   });
 
+  it("falls back to separate listings when the snapshot exceeds the node limit", async () => {
+    mockedFetchRepoSnapshot.mockRejectedValue(new CliError("exceeds the maximum limit of 500,000", "GRAPHQL_NODE_LIMIT"));
+    mockedFetchIssues.mockResolvedValue([{ number: 1, labels: [] }] as any);
+    mockedFormatStatus.mockReturnValue("output");
+
+    await buzzCommand({});
+
+    expect(mockedFetchIssues).toHaveBeenCalledWith(testRepo, 200);
+    expect(mockedBuildSummary.mock.calls[0][1]).toEqual([{ number: 1, labels: [] }]);
+  });
+
+  it("does not fall back when the snapshot fails on auth", async () => {
+    const authErr = new CliError("not authenticated", "GH_NOT_AUTHENTICATED");
+    mockedFetchRepoSnapshot.mockRejectedValue(authErr);
+    mockedFetchCurrentUser.mockRejectedValue(authErr);
+
+    await expect(buzzCommand({})).rejects.toBe(authErr);
+    expect(mockedFetchIssues).not.toHaveBeenCalled();
+    expect(mockedFetchPulls).not.toHaveBeenCalled();
+  });
+
+  it("produces a single warning when the snapshot fails without fallback", async () => {
+    mockedFetchRepoSnapshot.mockRejectedValue(new CliError("rate limited", "RATE_LIMITED"));
+    mockedBuildSummary.mockReturnValue({ ...testSummary, notes: [] });
+    mockedFormatStatus.mockReturnValue("output");
+
+    await buzzCommand({});
+
+    const summaryArg = mockedFormatStatus.mock.calls[0][0];
+    expect(summaryArg.notes).toEqual([
+      "Could not fetch issues or pull requests (rate limited) — showing limited summary.",
+    ]);
+  });
+
   // ── Vote fetching ───────────────────────────────────────────────
 
   it("calls fetchVotes with voting issue numbers", async () => {
     const votingIssue = { number: 42, labels: [{ name: "phase:voting" }] };
     const normalIssue = { number: 43, labels: [{ name: "bug" }] };
-    mockedFetchIssues.mockResolvedValue([votingIssue, normalIssue] as any);
-    mockedFetchPulls.mockResolvedValue([]);
+    mockedFetchRepoSnapshot.mockResolvedValue(snapshot([votingIssue, normalIssue]));
     mockedBuildSummary.mockReturnValue({ ...testSummary, notes: [] });
     mockedFormatStatus.mockReturnValue("output");
 
     await buzzCommand({});
 
-    expect(mockedFetchVotes).toHaveBeenCalledWith(testRepo, [42], "testuser");
+    expect(mockedFetchVotes).toHaveBeenCalledWith(testRepo, [42], "testuser", expect.any(Map));
   });
 
   it("calls fetchVotes for hivemoot:voting issues too", async () => {
     const votingIssue = { number: 142, labels: [{ name: "hivemoot:voting" }] };
-    mockedFetchIssues.mockResolvedValue([votingIssue] as any);
-    mockedFetchPulls.mockResolvedValue([]);
+    mockedFetchRepoSnapshot.mockResolvedValue(snapshot([votingIssue]));
     mockedBuildSummary.mockReturnValue({ ...testSummary, notes: [] });
     mockedFormatStatus.mockReturnValue("output");
 
     await buzzCommand({});
 
-    expect(mockedFetchVotes).toHaveBeenCalledWith(testRepo, [142], "testuser");
+    expect(mockedFetchVotes).toHaveBeenCalledWith(testRepo, [142], "testuser", expect.any(Map));
+  });
+
+  it("calls fetchVotes for issues with the repo's mapped voting label", async () => {
+    const labels = { ...DEFAULT_GOVERNANCE_LABELS, VOTING: ["status/voting"] };
+    mockedLoadRepoConfig.mockResolvedValue({ governance: DEFAULT_GOVERNANCE, labels } as any);
+    mockedFetchRepoSnapshot.mockResolvedValue(snapshot([{ number: 7, labels: [{ name: "status/voting" }] }]));
+    mockedBuildSummary.mockReturnValue({ ...testSummary, notes: [] });
+    mockedFormatStatus.mockReturnValue("output");
+
+    await buzzCommand({});
+
+    expect(mockedFetchVotes).toHaveBeenCalledWith(testRepo, [7], "testuser", expect.any(Map));
+    expect(mockedBuildSummary.mock.calls[0][8]).toBe(labels);
   });
 
   it("passes votes map to buildSummary", async () => {
     const votingIssue = { number: 42, labels: [{ name: "vote" }] };
-    mockedFetchIssues.mockResolvedValue([votingIssue] as any);
+    mockedFetchRepoSnapshot.mockResolvedValue(snapshot([votingIssue]));
     const voteMap = new Map([[42, { reaction: "👍", createdAt: "2025-01-01T00:00:00Z" }]]);
     mockedFetchVotes.mockResolvedValue(voteMap);
     mockedBuildSummary.mockReturnValue({ ...testSummary, notes: [] });
@@ -454,24 +604,23 @@ describe("buzzCommand", () => {
 
     // buildSummary should be called with the votes map and notification map
     expect(mockedBuildSummary).toHaveBeenCalledWith(
-      testRepo, [votingIssue], [], "testuser", expect.any(Date), voteMap, expect.any(Map),
+      testRepo, [votingIssue], [], "testuser", expect.any(Date), voteMap, expect.any(Map), DEFAULT_GOVERNANCE, DEFAULT_GOVERNANCE_LABELS,
     );
   });
 
   it("does not call fetchVotes when no voting issues exist", async () => {
-    mockedFetchIssues.mockResolvedValue([{ number: 1, labels: [{ name: "bug" }] }] as any);
-    mockedFetchPulls.mockResolvedValue([]);
+    mockedFetchRepoSnapshot.mockResolvedValue(snapshot([{ number: 1, labels: [{ name: "bug" }] }]));
     mockedBuildSummary.mockReturnValue({ ...testSummary, notes: [] });
     mockedFormatStatus.mockReturnValue("output");
 
     await buzzCommand({});
 
-    expect(mockedFetchVotes).toHaveBeenCalledWith(testRepo, [], "testuser");
+    expect(mockedFetchVotes).toHaveBeenCalledWith(testRepo, [], "testuser", expect.any(Map));
   });
 
   it("adds note when fetchVotes fails", async () => {
     const votingIssue = { number: 42, labels: [{ name: "phase:voting" }] };
-    mockedFetchIssues.mockResolvedValue([votingIssue] as any);
+    mockedFetchRepoSnapshot.mockResolvedValue(snapshot([votingIssue]));
     mockedFetchVotes.mockRejectedValue(new Error("GraphQL error"));
     mockedBuildSummary.mockReturnValue({ ...testSummary, notes: [] });
     mockedFormatStatus.mockReturnValue("output");
@@ -483,8 +632,6 @@ describe("buzzCommand", () => {
   });
 
   it("does not add vote failure note when fetchVotes succeeds", async () => {
-    mockedFetchIssues.mockResolvedValue([]);
-    mockedFetchPulls.mockResolvedValue([]);
     mockedBuildSummary.mockReturnValue({ ...testSummary, notes: [] });
     mockedFormatStatus.mockReturnValue("output");
 
@@ -494,6 +641,18 @@ describe("buzzCommand", () => {
     expect(summaryArg.notes).not.toContain("Could not fetch vote data — vote status unavailable.");
   });
 
+  it("passes the snapshot's voting comments to fetchVotes", async () => {
+    const votingIssue = { number: 42, labels: [{ name: "phase:voting" }] };
+    const voteComments = new Map([[42, { nodes: [] }]]);
+    mockedFetchRepoSnapshot.mockResolvedValue({ issues: [votingIssue], prs: [], voteComments } as any);
+    mockedBuildSummary.mockReturnValue({ ...testSummary, notes: [] });
+    mockedFormatStatus.mockReturnValue("output");
+
+    await buzzCommand({});
+
+    expect(mockedFetchVotes).toHaveBeenCalledWith(testRepo, [42], "testuser", voteComments);
+  });
+
   // ── Notification fetching ─────────────────────────────────────────
 
   it("calls fetchNotifications in parallel with issues/PRs/user", async () => {
@@ -521,7 +680,7 @@ describe("buzzCommand", () => {
     await buzzCommand({});
 
     expect(mockedBuildSummary).toHaveBeenCalledWith(
-      testRepo, [], [], "testuser", expect.any(Date), expect.any(Map), notificationMap,
+      testRepo, [], [], "testuser", expect.any(Date), expect.any(Map), notificationMap, DEFAULT_GOVERNANCE, DEFAULT_GOVERNANCE_LABELS,
     );
   });
 
@@ -556,4 +715,158 @@ describe("buzzCommand", () => {
     const summaryArg = mockedFormatStatus.mock.calls[0][0];
     expect(summaryArg.notes).not.toContain("Could not fetch notifications — unread indicators unavailable.");
   });
+
+  it("adds cache hit/miss note when the response cache was used", async () => {
+    mockedGetResponseCacheStats.mockReturnValue({ hits: 3, misses: 1 });
+    mockedBuildSummary.mockReturnValue({ ...testSummary, notes: [] });
+
+    await buzzCommand({ json: true });
+
+    const summary = mockedJsonStatus.mock.calls[0][0];
+    expect(summary.notes).toContain("Response cache: 3 hits, 1 misses.");
+  });
+
+  it("omits cache note when caching is disabled", async () => {
+    mockedGetResponseCacheStats.mockReturnValue(undefined);
+    mockedBuildSummary.mockReturnValue({ ...testSummary, notes: [] });
+
+    await buzzCommand({ json: true });
+
+    const summary = mockedJsonStatus.mock.calls[0][0];
+    expect(summary.notes.some((n: string) => n.startsWith("Response cache"))).toBe(false);
+  });
+
+  it("passes governance from the repo config to buildSummary", async () => {
+    const governance = { proposals: {}, pr: { staleDays: 7, maxPRsPerIssue: 1 } };
+    mockedLoadRepoConfig.mockResolvedValue({ governance } as any);
+
+    await buzzCommand({ json: true });
+
+    expect(mockedBuildSummary.mock.calls[0][7]).toBe(governance);
+  });
+
+  it("falls back to default governance with a note when the config is invalid", async () => {
+    mockedLoadRepoConfig.mockRejectedValue(
+      new CliError("Config error: governance.pr.staleDays must be a positive integer", "INVALID_CONFIG", 1),
+    );
+    mockedBuildSummary.mockReturnValue({ ...testSummary, notes: [] });
+
+    await buzzCommand({ json: true });
+
+    expect(mockedBuildSummary.mock.calls[0][7]).toBe(DEFAULT_GOVERNANCE);
+    const summary = mockedJsonStatus.mock.calls[0][0];
+    expect(summary.notes).toContain(
+      "Could not load .github/hivemoot.yml (Config error: governance.pr.staleDays must be a positive integer) — using default governance settings.",
+    );
+  });
+
+  it("adds the config's warnings to the notes", async () => {
+    const warning = ".github/hivemoot.yml sets no version (current: 1) — run: hivemoot config migrate";
+    mockedLoadRepoConfig.mockResolvedValue({ governance: DEFAULT_GOVERNANCE, warnings: [warning] } as any);
+    mockedBuildSummary.mockReturnValue({ ...testSummary, notes: [] });
+
+    await buzzCommand({ json: true });
+
+    expect(mockedJsonStatus.mock.calls[0][0].notes).toEqual([warning]);
+  });
+
+  it("adds no config note when the repo has no hivemoot.yml", async () => {
+    mockedLoadRepoConfig.mockRejectedValue(new CliError("not found", "CONFIG_NOT_FOUND", 1));
+    mockedBuildSummary.mockReturnValue({ ...testSummary, notes: [] });
+
+    await buzzCommand({ json: true });
+
+    const summary = mockedJsonStatus.mock.calls[0][0];
+    expect(summary.notes).toEqual([]);
+  });
+
+  it("rethrows config errors when a role is requested", async () => {
+    mockedLoadRepoConfig.mockRejectedValue(new CliError("Config error: bad", "INVALID_CONFIG", 1));
+
+    await expect(buzzCommand({ role: "engineer" })).rejects.toMatchObject({ code: "INVALID_CONFIG" });
+  });
+
+  it("throws NO_TEAM_CONFIG when a role is requested but the config has no team", async () => {
+    mockedLoadRepoConfig.mockResolvedValue(repoConfig(undefined));
+
+    await expect(buzzCommand({ role: "engineer" })).rejects.toMatchObject({ code: "NO_TEAM_CONFIG" });
+  });
+
+  describe("role from team.members", () => {
+    const teamWithMembers = {
+      roles: {
+        ...testTeamConfig.roles,
+        reviewer: { description: "Reviewer role", instructions: "Review things." },
+      },
+      members: { TestUser: ["engineer"], other: ["reviewer"] },
+    };
+
+    beforeEach(() => {
+      mockedLoadRepoConfig.mockResolvedValue(repoConfig(teamWithMembers as any));
+    });
+
+    it("assumes the current user's role when --role is omitted", async () => {
+      await buzzCommand({ json: true });
+
+      expect(mockedJsonBuzz).toHaveBeenCalledWith(
+        "engineer",
+        teamWithMembers.roles.engineer,
+        testSummary,
+        undefined,
+        expect.objectContaining({ role: "engineer", user: "testuser" }),
+      );
+      expect(mockedJsonStatus).not.toHaveBeenCalled();
+    });
+
+    it("prefers an explicit --role", async () => {
+      await buzzCommand({ role: "reviewer", json: true });
+
+      expect(mockedJsonBuzz).toHaveBeenCalledWith(
+        "reviewer",
+        teamWithMembers.roles.reviewer,
+        testSummary,
+        undefined,
+        expect.objectContaining({ role: "reviewer" }),
+      );
+    });
+
+    it("takes the first of several roles and says so in a note", async () => {
+      mockedLoadRepoConfig.mockResolvedValue(
+        repoConfig({ ...teamWithMembers, members: { testuser: ["reviewer", "engineer"] } } as any),
+      );
+      mockedBuildSummary.mockReturnValue({ ...testSummary, notes: [] });
+
+      await buzzCommand({ json: true });
+
+      const [role, , summary] = mockedJsonBuzz.mock.calls[0];
+      expect(role).toBe("reviewer");
+      expect(summary.notes).toContain(
+        "testuser holds roles reviewer, engineer in team.members — showing reviewer. Pass --role to choose another.",
+      );
+    });
+
+    it("shows the plain summary for users who are not members", async () => {
+      mockedFetchCurrentUser.mockResolvedValue("stranger");
+
+      await buzzCommand({ json: true });
+
+      expect(mockedJsonStatus).toHaveBeenCalled();
+      expect(mockedJsonBuzz).not.toHaveBeenCalled();
+    });
+
+    it("shows the plain summary when the current user is unknown", async () => {
+      mockedFetchCurrentUser.mockRejectedValue(new Error("no auth"));
+
+      await buzzCommand({ json: true });
+
+      expect(mockedJsonStatus).toHaveBeenCalled();
+      expect(mockedJsonBuzz).not.toHaveBeenCalled();
+    });
+  });
+
+  it("passes --config and --config-ref options to loadRepoConfig", async () => {
+    await buzzCommand({ role: "engineer", configRef: "feature/roles" });
+
+    expect(mockedLoadRepoConfig).toHaveBeenCalledWith(testRepo, expect.objectContaining({ configRef: "feature/roles" }));
+  });
 });
@@ -1,10 +1,15 @@
-import { CliError, type BuzzOptions, type GitHubIssue } from "../config/types.js";
-import { loadTeamConfig } from "../config/loader.js";
+import { CliError, DEFAULT_GOVERNANCE_LABELS, type BuzzOptions, type GitHubIssue, type GitHubPR, type RepoRef, type TeamConfig } from "../config/types.js";
+import { loadRepoConfig } from "../config/loader.js";
+import { DEFAULT_GOVERNANCE } from "../config/defaults.js";
+import { memberRoles } from "../config/team.js";
+import { templateVars } from "../config/template.js";
+import { getResponseCacheStats, getRetryStats, getSnapshotStore } from "../github/client.js";
 import { resolveRepo } from "../github/repo.js";
 import { fetchIssues } from "../github/issues.js";
 import { fetchPulls } from "../github/pulls.js";
+import { fetchRepoSnapshot, syncRepoSnapshot, type RepoSnapshot } from "../github/snapshot.js";
 import { fetchCurrentUser } from "../github/user.js";
-import { fetchVotes } from "../github/votes.js";
+import { fetchVotes, type IssueCommentsConnection } from "../github/votes.js";
 import { fetchNotifications } from "../github/notifications.js";
 import type { NotificationMap } from "../github/notifications.js";
 import { buildSummary } from "../summary/builder.js";
@@ -16,16 +21,61 @@ function errorDetail(reason: unknown): string {
   return reason instanceof Error ? reason.message : String(reason);
 }
 
+interface RepoData {
+  issuesResult: PromiseSettledResult<GitHubIssue[]>;
+  prsResult: PromiseSettledResult<GitHubPR[]>;
+  voteComments?: Map<number, IssueCommentsConnection>;
+  complete?: boolean;
+}
+
+// Snapshot failures that smaller, separate listings may get past
+const FALLBACK_CODES = ["GH_ERROR", "GH_TIMEOUT", "GRAPHQL_NODE_LIMIT", "MALFORMED_RESPONSE"];
+
+/**
+ * Unpack the snapshot, falling back to separate issue and PR listings when
+ * the snapshot query itself is rejected (e.g. a GHES schema lacking a field,
+ * or a query too heavy for the server). Auth, access and rate-limit failures
+ * would only repeat, so those are passed on.
+ */
+async function settleRepoData(
+  repo: RepoRef,
+  fetchLimit: number,
+  snapshotResult: PromiseSettledResult<RepoSnapshot>,
+): Promise<RepoData> {
+  if (snapshotResult.status === "fulfilled") {
+    const { issues, prs, voteComments, complete } = snapshotResult.value;
+    return {
+      issuesResult: { status: "fulfilled", value: issues },
+      prsResult: { status: "fulfilled", value: prs },
+      voteComments,
+      complete,
+    };
+  }
+  const reason: unknown = snapshotResult.reason;
+  if (reason instanceof CliError && FALLBACK_CODES.includes(reason.code)) {
+    const [issuesResult, prsResult] = await Promise.allSettled([
+      fetchIssues(repo, fetchLimit),
+      fetchPulls(repo, fetchLimit),
+    ]);
+    return { issuesResult, prsResult };
+  }
+  return { issuesResult: snapshotResult, prsResult: snapshotResult };
+}
+
 export async function buzzCommand(options: BuzzOptions): Promise<void> {
   const repo = await resolveRepo(options.repo);
   const fetchLimit = options.fetchLimit ?? 200;
 
-  const [issuesResult, prsResult, userResult, notificationsResult] = await Promise.allSettled([
-    fetchIssues(repo, fetchLimit),
-    fetchPulls(repo, fetchLimit),
+  // With a local store, only changes since the last run are fetched and
+  // every open item is seen, so --fetch-limit doesn't apply
+  const store = getSnapshotStore();
+  const [snapshotResult, userResult, notificationsResult, configResult] = await Promise.allSettled([
+    store ? syncRepoSnapshot(repo, store) : fetchRepoSnapshot(repo, fetchLimit),
     fetchCurrentUser(),
     fetchNotifications(repo),
+    loadRepoConfig(repo, options),
   ]);
+  const { issuesResult, prsResult, voteComments, complete } = await settleRepoData(repo, fetchLimit, snapshotResult);
 
   // If the primary fetches all failed, surface the most actionable CliError.
   if (
@@ -46,22 +96,30 @@ export async function buzzCommand(options: BuzzOptions): Promise<void> {
   const currentUser = userResult.status === "fulfilled" ? userResult.value : "";
   const notifications: NotificationMap = notificationsResult.status === "fulfilled" ? notificationsResult.value : new Map();
 
+  const config = configResult.status === "fulfilled" ? configResult.value : undefined;
+  const labels = config?.labels ?? DEFAULT_GOVERNANCE_LABELS;
+
   // Fetch vote reactions for voting-phase issues
   const votingIssueNumbers = issues
-    .filter((issue: GitHubIssue) => isVotingIssue(issue.labels))
+    .filter((issue: GitHubIssue) => isVotingIssue(issue.labels, labels))
     .map((issue: GitHubIssue) => issue.number);
 
   let votes = new Map<number, { reaction: string; createdAt: string }>();
   let voteFetchFailed = false;
   try {
-    votes = await fetchVotes(repo, votingIssueNumbers, currentUser);
+    votes = await fetchVotes(repo, votingIssueNumbers, currentUser, voteComments);
   } catch {
     voteFetchFailed = true;
   }
 
-  const summary = buildSummary(repo, issues, prs, currentUser, new Date(), votes, notifications);
+  const governance = config?.governance ?? DEFAULT_GOVERNANCE;
+  const summary = buildSummary(repo, issues, prs, currentUser, new Date(), votes, notifications, governance, labels);
 
-  if (issuesResult.status === "rejected" && prsResult.status === "rejected") {
+  if (issuesResult.status === "rejected" && issuesResult === prsResult) {
+    summary.notes.push(
+      `Could not fetch issues or pull requests (${errorDetail(issuesResult.reason)}) — showing limited summary.`,
+    );
+  } else if (issuesResult.status === "rejected" && prsResult.status === "rejected") {
     summary.notes.push(
       `Could not fetch issues (${errorDetail(issuesResult.reason)}) or pull requests (${errorDetail(prsResult.reason)}) — showing limited summary.`,
     );
@@ -85,15 +143,22 @@ export async function buzzCommand(options: BuzzOptions): Promise<void> {
     summary.notes.push("Could not fetch notifications — unread indicators unavailable.");
   }
 
-  if (issues.length >= fetchLimit) {
+  if (!complete && issues.length >= fetchLimit) {
     summary.notes.push(`Only the first ${fetchLimit} issues were fetched. Use --fetch-limit to increase.`);
   }
-  if (prs.length >= fetchLimit) {
+  if (!complete && prs.length >= fetchLimit) {
     summary.notes.push(`Only the first ${fetchLimit} PRs were fetched. Use --fetch-limit to increase.`);
   }
 
+  // A role needs the team config; a plain summary only loses governance settings
+  let teamConfig: TeamConfig | undefined;
+  let role = options.role;
   if (options.role) {
-    const teamConfig = await loadTeamConfig(repo);
+    if (configResult.status === "rejected") throw configResult.reason;
+    teamConfig = configResult.value.team;
+    if (!teamConfig) {
+      throw new CliError("No team config in .github/hivemoot.yml. Run: hivemoot init", "NO_TEAM_CONFIG", 1);
+    }
     if (!Object.hasOwn(teamConfig.roles, options.role)) {
       const available = Object.keys(teamConfig.roles).join(", ");
       throw new CliError(
@@ -102,12 +167,50 @@ export async function buzzCommand(options: BuzzOptions): Promise<void> {
         1,
       );
     }
-    const roleConfig = teamConfig.roles[options.role];
+  } else if (config?.team && currentUser) {
+    // Without --role, team.members can name the current user's role
+    const roles = memberRoles(config.team, currentUser);
+    if (roles.length > 0) {
+      teamConfig = config.team;
+      role = roles[0];
+    }
+    if (roles.length > 1) {
+      summary.notes.push(
+        `${currentUser} holds roles ${roles.join(", ")} in team.members — showing ${role}. Pass --role to choose another.`,
+      );
+    }
+  } else if (
+    configResult.status === "rejected" &&
+    !(configResult.reason instanceof CliError && configResult.reason.code === "CONFIG_NOT_FOUND")
+  ) {
+    summary.notes.push(
+      `Could not load .github/hivemoot.yml (${errorDetail(configResult.reason)}) — using default governance settings.`,
+    );
+  }
+
+  if (config?.warnings) summary.notes.push(...config.warnings);
+
+  const retryStats = getRetryStats();
+  if (retryStats.retries > 0) {
+    summary.notes.push(
+      `Retried ${retryStats.retries} transient GitHub failure${retryStats.retries === 1 ? "" : "s"}` +
+        (retryStats.budgetExhausted ? " — retry budget exhausted, later failures were not retried." : "."),
+    );
+  }
+
+  const cacheStats = getResponseCacheStats();
+  if (cacheStats && cacheStats.hits + cacheStats.misses > 0) {
+    summary.notes.push(`Response cache: ${cacheStats.hits} hits, ${cacheStats.misses} misses.`);
+  }
+
+  if (role && teamConfig) {
+    const roleConfig = teamConfig.roles[role];
+    const vars = templateVars({ repo, user: currentUser, role, teamName: teamConfig.name, governance });
 
     if (options.json) {
-      console.log(jsonBuzz(options.role, roleConfig, summary, teamConfig.onboarding));
+      console.log(jsonBuzz(role, roleConfig, summary, teamConfig.onboarding, vars));
     } else {
-      console.log(formatBuzz(options.role, roleConfig, summary, options.limit, teamConfig.onboarding));
+      console.log(formatBuzz(role, roleConfig, summary, options.limit, teamConfig.onboarding, vars));
     }
   } else {
     if (options.json) {
@@ -0,0 +1,202 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { configMigrateCommand, configValidateCommand, migrateConfigFile, validateConfigFile } from "./config.js";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "hivemoot-config-"));
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  process.exitCode = undefined;
+});
+
+afterEach(async () => {
+  process.exitCode = undefined;
+  await rm(dir, { recursive: true, force: true });
+});
+
+async function write(content: string): Promise<string> {
+  const path = join(dir, "hivemoot.yml");
+  await writeFile(path, content);
+  return path;
+}
+
+const invalid = `governance:
+  pr:
+    staleDays: 0
+team:
+  roles:
+    engineer:
+      description: ""
+      instructions: Build.
+    Bad-Slug:
+      description: Broken
+      instructions: Broken.
+`;
+
+describe("validateConfigFile", () => {
+  it("reports a valid file", async () => {
+    const path = await write("team:\n  roles:\n    engineer:\n      description: Builds\n      instructions: Build.\n");
+
+    expect(await validateConfigFile(path)).toEqual({ path, valid: true, issues: [] });
+  });
+
+  it("reports every problem with its line and column", async () => {
+    const path = await write(invalid);
+
+    const report = await validateConfigFile(path);
+
+    expect(report.valid).toBe(false);
+    expect(report.issues).toEqual([
+      {
+        path: "governance.pr.staleDays",
+        message: "governance.pr.staleDays must be a positive integer (got 0)",
+        line: 3,
+        column: 5,
+      },
+      {
+        path: "team.roles.engineer.description",
+        message: 'role "engineer" is missing a description',
+        line: 7,
+        column: 7,
+      },
+      {
+        path: "team.roles.Bad-Slug",
+        message: 'invalid role slug "Bad-Slug" — must match /^[a-z][a-z0-9_]{0,49}$/',
+        line: 9,
+        column: 5,
+      },
+    ]);
+  });
+
+  it("reports YAML syntax errors at their position", async () => {
+    const path = await write("team:\n  roles: [engineer\n");
+
+    const report = await validateConfigFile(path);
+
+    expect(report.issues).toHaveLength(1);
+    expect(report.issues[0].message).toMatch(/^invalid YAML: /);
+    expect(report.issues[0].line).toBe(3);
+  });
+
+  it("checks files the config references, relative to the config's directory", async () => {
+    const path = await write(
+      "team:\n  roles:\n    reviewer:\n      description: Reviews\n      instructionsFile: reviewer.md\n",
+    );
+
+    const report = await validateConfigFile(path);
+
+    expect(report.issues).toEqual([{
+      path: "team.roles.reviewer.instructionsFile",
+      message: 'role "reviewer" instructionsFile "reviewer.md" does not exist',
+      line: 5,
+      column: 7,
+    }]);
+
+    await writeFile(join(dir, "reviewer.md"), "Be picky.");
+    expect((await validateConfigFile(path)).valid).toBe(true);
+  });
+
+  it("throws CONFIG_NOT_FOUND for a missing file", async () => {
+    await expect(validateConfigFile(join(dir, "missing.yml"))).rejects.toMatchObject({ code: "CONFIG_NOT_FOUND" });
+  });
+});
+
+describe("configValidateCommand", () => {
+  it("prints problems and sets a non-zero exit code", async () => {
+    const path = await write(invalid);
+
+    await configValidateCommand(path, {});
+
+    const output = vi.mocked(console.log).mock.calls[0][0] as string;
+    expect(output).toContain('7:7  role "engineer" is missing a description');
+    expect(output).toContain("3 problems found.");
+    expect(process.exitCode).toBe(1);
+  });
+
+  it("prints JSON with --json", async () => {
+    const path = await write(invalid);
+
+    await configValidateCommand(path, { json: true });
+
+    const output = JSON.parse(vi.mocked(console.log).mock.calls[0][0] as string);
+    expect(output.valid).toBe(false);
+    expect(output.issues).toHaveLength(3);
+  });
+
+  it("leaves the exit code alone for a valid file", async () => {
+    const path = await write("governance:\n  pr:\n    staleDays: 5\n");
+
+    await configValidateCommand(path, {});
+
+    expect(vi.mocked(console.log).mock.calls[0][0]).toContain("is valid.");
+    expect(process.exitCode).toBeUndefined();
+  });
+});
+
+const legacy = `# Team config
+governance:
+  pr:
+    staleAfterDays: 5   # a working week
+`;
+
+describe("migrateConfigFile", () => {
+  it("rewrites the file and reports the changes", async () => {
+    const path = await write(legacy);
+
+    const report = await migrateConfigFile(path);
+
+    expect(report.written).toBe(true);
+    expect(report.changes).toEqual(["governance.pr.staleAfterDays → governance.pr.staleDays", "version: 1 added"]);
+    expect(await readFile(path, "utf-8")).toBe(
+      "# Team config\nversion: 1\ngovernance:\n  pr:\n    staleDays: 5   # a working week\n",
+    );
+  });
+
+  it("leaves the file untouched with --dry-run", async () => {
+    const path = await write(legacy);
+
+    const report = await migrateConfigFile(path, { dryRun: true });
+
+    expect(report.written).toBe(false);
+    expect(report.after).toContain("staleDays: 5");
+    expect(await readFile(path, "utf-8")).toBe(legacy);
+  });
+
+  it("refuses to write a migrated config that does not validate", async () => {
+    const invalid = "team:\n  roles:\n    engineer:\n      description: Ships code\n";
+    const path = await write(invalid);
+
+    await expect(migrateConfigFile(path)).rejects.toMatchObject({
+      code: "INVALID_CONFIG",
+      message: expect.stringContaining(`migrated config is invalid at ${path}:4:`),
+    });
+    expect(await readFile(path, "utf-8")).toBe(invalid);
+  });
+
+  it("does not write a file that is already current", async () => {
+    const path = await write("version: 1\n");
+
+    expect((await migrateConfigFile(path)).written).toBe(false);
+  });
+
+  it("fails with CONFIG_NOT_FOUND for a missing file", async () => {
+    await expect(migrateConfigFile(join(dir, "missing.yml"))).rejects.toMatchObject({ code: "CONFIG_NOT_FOUND" });
+  });
+});
+
+describe("configMigrateCommand", () => {
+  it("prints a diff of the migration", async () => {
+    const path = await write(legacy);
+
+    await configMigrateCommand(path, {});
+
+    const output = vi.mocked(console.log).mock.calls[0][0] as string;
+    expect(output).toContain("-    staleAfterDays: 5   # a working week");
+    expect(output).toContain("+    staleDays: 5   # a working week");
+    expect(output).toContain("+version: 1");
+    expect(output).toContain(`Updated ${path}.`);
+  });
+});
@@ -0,0 +1,58 @@
+import { writeFile } from "node:fs/promises";
+import {
+  CliError,
+  type ConfigMigrateOptions,
+  type ConfigMigrationReport,
+  type ConfigValidateOptions,
+  type ConfigValidationReport,
+} from "../config/types.js";
+import { localFileReader, readConfigFile, validateConfigSource } from "../config/loader.js";
+import { migrateConfigSource } from "../config/migrate.js";
+import { formatConfigMigration, formatConfigValidation } from "../output/formatter.js";
+import { jsonConfigValidation } from "../output/json.js";
+
+export const DEFAULT_CONFIG_PATH = ".github/hivemoot.yml";
+
+export async function validateConfigFile(path: string): Promise<ConfigValidationReport> {
+  const issues = await validateConfigSource(await readConfigFile(path), localFileReader(path));
+  return { path, valid: issues.length === 0, issues };
+}
+
+export async function configValidateCommand(
+  path: string | undefined,
+  options: ConfigValidateOptions,
+): Promise<void> {
+  const report = await validateConfigFile(path ?? DEFAULT_CONFIG_PATH);
+
+  if (options.json) {
+    console.log(jsonConfigValidation(report));
+  } else {
+    console.log(formatConfigValidation(report));
+  }
+  if (!report.valid) process.exitCode = 1;
+}
+
+export async function migrateConfigFile(path: string, options: ConfigMigrateOptions = {}): Promise<ConfigMigrationReport> {
+  const before = await readConfigFile(path);
+  const { content: after, changes, skipped } = migrateConfigSource(before);
+  if (changes.length > 0) {
+    // Never replace a config with one the loader would reject
+    const [issue] = await validateConfigSource(after, localFileReader(path));
+    if (issue) {
+      const at = issue.line !== undefined ? `${path}:${issue.line}:${issue.column}` : path;
+      const field = issue.path ? `${issue.path}: ` : "";
+      throw new CliError(`Config error: migrated config is invalid at ${at}: ${field}${issue.message}`, "INVALID_CONFIG", 1);
+    }
+  }
+  const write = changes.length > 0 && !options.dryRun;
+  if (write) await writeFile(path, after);
+  return { path, before, after, changes, skipped, written: write };
+}
+
+export async function configMigrateCommand(
+  path: string | undefined,
+  options: ConfigMigrateOptions,
+): Promise<void> {
+  const report = await migrateConfigFile(path ?? DEFAULT_CONFIG_PATH, options);
+  console.log(formatConfigMigration(report));
+}
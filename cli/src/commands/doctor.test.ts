@@ -0,0 +1,292 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { CliError } from "../config/types.js";
+
+vi.mock("child_process", () => {
+  const { promisify } = require("util");
+  const mockFn = vi.fn();
+  mockFn[promisify.custom] = vi.fn();
+  return { execFile: mockFn };
+});
+
+vi.mock("../github/client.js", () => ({
+  gh: vi.fn(),
+  getGhLogin: vi.fn(),
+  getGhTransportName: vi.fn(),
+}));
+
+vi.mock("../github/repo.js", () => ({
+  resolveRepo: vi.fn(),
+}));
+
+vi.mock("../config/loader.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../config/loader.js")>()),
+  loadRepoConfig: vi.fn(),
+}));
+
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { gh, getGhLogin, getGhTransportName } from "../github/client.js";
+import { resolveRepo } from "../github/repo.js";
+import { loadRepoConfig } from "../config/loader.js";
+import { DEFAULT_GOVERNANCE } from "../config/defaults.js";
+import { DEFAULT_GOVERNANCE_LABELS, GOVERNANCE_LABEL_ALIASES } from "../config/types.js";
+import { doctorCommand, runDoctor } from "./doctor.js";
+
+const execFilePromisified = promisify(execFile) as unknown as ReturnType<typeof vi.fn>;
+const mockedGh = vi.mocked(gh);
+const mockedGetGhLogin = vi.mocked(getGhLogin);
+const mockedGetGhTransportName = vi.mocked(getGhTransportName);
+const mockedResolveRepo = vi.mocked(resolveRepo);
+const mockedLoadRepoConfig = vi.mocked(loadRepoConfig);
+
+const allLabels = Object.values(GOVERNANCE_LABEL_ALIASES).map((aliases) => ({ name: aliases[0] }));
+
+function userResponse(scopes: string | undefined): string {
+  const scopeHeader = scopes === undefined ? "" : `X-Oauth-Scopes: ${scopes}\r\n`;
+  return `HTTP/2.0 200 OK\r\nContent-Type: application/json\r\n${scopeHeader}\r\n{"login":"worker"}`;
+}
+
+/** Route gh calls to canned responses, overridable per test. */
+function fakeGh(overrides: Record<string, string | Error> = {}) {
+  const responses: Record<string, string | Error> = {
+    "api -i user": userResponse("repo, read:org"),
+    "api repos/hivemoot/colony": JSON.stringify({ full_name: "hivemoot/colony", permissions: { push: true } }),
+    "api repos/hivemoot/colony/notifications?per_page=1": "[]",
+    "api --paginate repos/hivemoot/colony/labels?per_page=100": JSON.stringify(allLabels),
+    "api rate_limit": JSON.stringify({
+      resources: {
+        core: { limit: 5000, remaining: 4990, reset: 1_700_000_000 },
+        graphql: { limit: 5000, remaining: 4900, reset: 1_700_000_000 },
+      },
+    }),
+    ...overrides,
+  };
+  mockedGh.mockImplementation(async (args) => {
+    const response = responses[args.join(" ")];
+    if (response === undefined) throw new Error(`unexpected gh call: ${args.join(" ")}`);
+    if (response instanceof Error) throw response;
+    return response;
+  });
+}
+
+function check(report: Awaited<ReturnType<typeof runDoctor>>, name: string) {
+  return report.checks.find((c) => c.name === name);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockedGetGhTransportName.mockReturnValue("gh");
+  mockedGetGhLogin.mockResolvedValue(undefined);
+  mockedResolveRepo.mockResolvedValue({ owner: "hivemoot", repo: "colony" });
+  mockedLoadRepoConfig.mockResolvedValue({
+    governance: DEFAULT_GOVERNANCE,
+    labels: { ...DEFAULT_GOVERNANCE_LABELS },
+    team: { roles: { engineer: { description: "d", instructions: "i" } } },
+  });
+  execFilePromisified.mockResolvedValue({
+    stdout: "gh version 2.60.0 (2024-10-01)\nhttps://github.com/cli/cli/releases/tag/v2.60.0\n",
+    stderr: "",
+  });
+  fakeGh();
+});
+
+describe("runDoctor()", () => {
+  it("passes every check on a healthy setup", async () => {
+    const report = await runDoctor({});
+
+    expect(report.ok).toBe(true);
+    expect(report.repo).toBe("hivemoot/colony");
+    expect(report.checks.map((c) => [c.name, c.status])).toEqual([
+      ["gh", "pass"],
+      ["token", "pass"],
+      ["repo", "pass"],
+      ["notifications", "pass"],
+      ["config", "pass"],
+      ["labels", "pass"],
+      ["rateLimit", "pass"],
+    ]);
+    expect(check(report, "gh")?.detail).toBe("gh version 2.60.0 (2024-10-01)");
+    expect(execFilePromisified).toHaveBeenCalledWith("gh", ["--version"], expect.any(Object));
+    expect(mockedGh).not.toHaveBeenCalledWith(["--version"]);
+    expect(check(report, "token")?.detail).toBe("authenticated as worker; scopes: repo, read:org");
+    expect(check(report, "repo")?.detail).toBe("hivemoot/colony (write access)");
+  });
+
+  it("does not require gh on the http transport", async () => {
+    mockedGetGhTransportName.mockReturnValue("http");
+
+    const report = await runDoctor({});
+
+    expect(check(report, "gh")).toEqual({ name: "gh", status: "pass", detail: "not required (http transport)" });
+    expect(execFilePromisified).not.toHaveBeenCalled();
+  });
+
+  it("fails with the remediation hint when gh is missing", async () => {
+    execFilePromisified.mockRejectedValue(Object.assign(new Error("spawn gh ENOENT"), { code: "ENOENT" }));
+
+    const report = await runDoctor({});
+
+    expect(report.ok).toBe(false);
+    expect(check(report, "gh")).toMatchObject({
+      status: "fail",
+      detail: expect.stringContaining("gh CLI not found"),
+      hint: expect.stringContaining("gh CLI"),
+    });
+  });
+
+  it("warns about missing token scopes", async () => {
+    fakeGh({ "api -i user": userResponse("read:org") });
+
+    const report = await runDoctor({});
+
+    expect(check(report, "token")).toMatchObject({
+      status: "warn",
+      hint: "Add the missing scopes: gh auth refresh -s repo,notifications",
+    });
+    expect(report.ok).toBe(true);
+  });
+
+  it("accepts tokens that don't report scopes", async () => {
+    fakeGh({ "api -i user": userResponse(undefined) });
+
+    const report = await runDoctor({});
+
+    expect(check(report, "token")).toMatchObject({ status: "pass", detail: expect.stringContaining("fine-grained") });
+  });
+
+  it("falls back to the known login for app installation tokens", async () => {
+    fakeGh({ "api -i user": new CliError("Resource not accessible by integration", "REPO_ACCESS_DENIED") });
+    mockedGetGhLogin.mockResolvedValue("hivemoot-bot[bot]");
+
+    const report = await runDoctor({});
+
+    expect(check(report, "token")).toMatchObject({ status: "pass", detail: expect.stringContaining("hivemoot-bot[bot]") });
+  });
+
+  it("fails on an invalid token", async () => {
+    fakeGh({ "api -i user": new CliError("Not authenticated.", "GH_NOT_AUTHENTICATED", 2) });
+
+    const report = await runDoctor({});
+
+    expect(check(report, "token")).toMatchObject({ status: "fail", detail: "Not authenticated." });
+  });
+
+  it("only warns when notifications are unreadable", async () => {
+    fakeGh({ "api repos/hivemoot/colony/notifications?per_page=1": new CliError("Forbidden", "GH_ERROR") });
+
+    const report = await runDoctor({});
+
+    expect(check(report, "notifications")?.status).toBe("warn");
+    expect(report.ok).toBe(true);
+  });
+
+  it("fails when the config does not load", async () => {
+    mockedLoadRepoConfig.mockRejectedValue(new CliError("No .github/hivemoot.yml found", "CONFIG_NOT_FOUND"));
+
+    const report = await runDoctor({});
+
+    expect(check(report, "config")).toMatchObject({
+      status: "fail",
+      detail: "No .github/hivemoot.yml found",
+      hint: expect.stringContaining("hivemoot init"),
+    });
+  });
+
+  it("accepts either alias of each governance label and lists the missing ones", async () => {
+    const labels = allLabels.filter((l) => l.name !== "hivemoot:voting" && l.name !== "hivemoot:stale");
+    labels.push({ name: "Stale" });
+    fakeGh({ "api --paginate repos/hivemoot/colony/labels?per_page=100": JSON.stringify(labels) });
+
+    const report = await runDoctor({});
+
+    expect(check(report, "labels")).toMatchObject({
+      status: "warn",
+      detail: "missing 1 of 11 governance labels: hivemoot:voting",
+    });
+  });
+
+  it("expects the labels mapped in the repo's config", async () => {
+    const labels = allLabels.filter((l) => l.name !== "hivemoot:voting");
+    labels.push({ name: "status/voting" });
+    fakeGh({ "api --paginate repos/hivemoot/colony/labels?per_page=100": JSON.stringify(labels) });
+    mockedLoadRepoConfig.mockResolvedValue({
+      governance: DEFAULT_GOVERNANCE,
+      labels: { ...DEFAULT_GOVERNANCE_LABELS, VOTING: ["status/voting"], MERGE_READY: ["state/approved"] },
+      team: { roles: { engineer: { description: "d", instructions: "i" } } },
+    });
+
+    const report = await runDoctor({});
+
+    expect(check(report, "labels")).toMatchObject({
+      status: "warn",
+      detail: "missing 1 of 11 governance labels: state/approved",
+      hint: expect.stringContaining("labels: section"),
+    });
+  });
+
+  it("warns on low and fails on exhausted rate limits", async () => {
+    const rateLimit = (remaining: number) => JSON.stringify({
+      resources: {
+        core: { limit: 5000, remaining, reset: 1_700_000_000 },
+        graphql: { limit: 5000, remaining: 5000, reset: 1_700_000_000 },
+      },
+    });
+    fakeGh({ "api rate_limit": rateLimit(100) });
+    expect(check(await runDoctor({}), "rateLimit")).toMatchObject({ status: "warn", detail: "core 100/5000, graphql 5000/5000" });
+
+    fakeGh({ "api rate_limit": rateLimit(0) });
+    expect(check(await runDoctor({}), "rateLimit")).toMatchObject({
+      status: "fail",
+      hint: "The core limit resets at 2023-11-14T22:13:20.000Z.",
+    });
+  });
+
+  it("skips repo checks when no repository resolves", async () => {
+    mockedResolveRepo.mockRejectedValue(new CliError("Not in a git repository", "NOT_GIT_REPO"));
+
+    const report = await runDoctor({});
+
+    expect(report.repo).toBeUndefined();
+    expect(report.ok).toBe(false);
+    expect(report.checks.map((c) => [c.name, c.status])).toEqual([
+      ["gh", "pass"],
+      ["token", "pass"],
+      ["repo", "fail"],
+      ["notifications", "skip"],
+      ["config", "skip"],
+      ["labels", "skip"],
+      ["rateLimit", "pass"],
+    ]);
+  });
+});
+
+describe("doctorCommand", () => {
+  afterEach(() => {
+    process.exitCode = undefined;
+  });
+
+  it("prints the report as JSON", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await doctorCommand({ json: true, repo: "hivemoot/colony" });
+
+    expect(mockedResolveRepo).toHaveBeenCalledWith("hivemoot/colony");
+    const output = JSON.parse(log.mock.calls[0][0] as string);
+    expect(output).toMatchObject({ repo: "hivemoot/colony", ok: true });
+    expect(output.checks).toHaveLength(7);
+    expect(process.exitCode).toBeUndefined();
+  });
+
+  it("prints a text report and exits non-zero on failure", async () => {
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    mockedLoadRepoConfig.mockRejectedValue(new CliError("No .github/hivemoot.yml found", "CONFIG_NOT_FOUND"));
+
+    await doctorCommand({});
+
+    const output = log.mock.calls[0][0] as string;
+    expect(output).toContain("DOCTOR — hivemoot/colony");
+    expect(output).toContain("No .github/hivemoot.yml found");
+    expect(output).toContain("1 check failed.");
+    expect(process.exitCode).toBe(1);
+  });
+});
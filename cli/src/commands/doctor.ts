@@ -0,0 +1,233 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import {
+  CliError,
+  DEFAULT_GOVERNANCE_LABELS,
+  ERROR_REMEDIATION,
+  type DoctorCheck,
+  type DoctorOptions,
+  type DoctorReport,
+  type GovernanceLabelKey,
+  type GovernanceLabels,
+  type RepoRef,
+} from "../config/types.js";
+import { loadRepoConfig, requireTeamConfig } from "../config/loader.js";
+import { getGhLogin, getGhTransportName, gh } from "../github/client.js";
+import { resolveRepo } from "../github/repo.js";
+import { parseIncludedResponse } from "../github/transport.js";
+import { formatDoctor } from "../output/formatter.js";
+import { jsonDoctor } from "../output/json.js";
+
+const execFileAsync = promisify(execFile);
+
+// Warn when less than this share of a rate-limit window is left
+const RATE_LIMIT_HEADROOM = 0.1;
+
+function errorDetail(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/** A failed check carrying the error's remediation hint when there is one. */
+function failed(name: string, err: unknown): DoctorCheck {
+  const check: DoctorCheck = { name, status: "fail", detail: errorDetail(err) };
+  if (err instanceof CliError) check.hint = err.details.hint ?? ERROR_REMEDIATION[err.code].hint;
+  return check;
+}
+
+async function checkGh(): Promise<DoctorCheck> {
+  const transport = getGhTransportName();
+  if (transport !== "gh") {
+    return { name: "gh", status: "pass", detail: `not required (${transport} transport)` };
+  }
+  // A local binary check, not a GitHub request: run it directly so it is
+  // never retried, rate-limited or recorded as a fixture
+  try {
+    const { stdout } = await execFileAsync("gh", ["--version"], { timeout: 10_000 });
+    return { name: "gh", status: "pass", detail: stdout.split("\n")[0] };
+  } catch (err) {
+    if ((err as { code?: unknown }).code === "ENOENT") {
+      return failed("gh", new CliError("gh CLI not found. Install: https://cli.github.com", "GH_NOT_FOUND", 2));
+    }
+    return failed("gh", err);
+  }
+}
+
+async function checkToken(): Promise<DoctorCheck> {
+  let output: string;
+  try {
+    output = await gh(["api", "-i", "user"]);
+  } catch (err) {
+    // App installation tokens can't read /user but still have a known login
+    const login = await getGhLogin().catch(() => undefined);
+    if (login) return { name: "token", status: "pass", detail: `authenticated as ${login} (scopes not reported)` };
+    return failed("token", err);
+  }
+
+  const response = parseIncludedResponse(output);
+  let login = "unknown";
+  try {
+    login = (JSON.parse(response?.body ?? output) as { login?: string }).login ?? login;
+  } catch {
+    // Keep "unknown" — the token itself worked
+  }
+  const header = response?.headers.get("x-oauth-scopes");
+  // Fine-grained and app tokens don't report scopes
+  if (header === undefined) {
+    return { name: "token", status: "pass", detail: `authenticated as ${login} (fine-grained token; scopes not reported)` };
+  }
+
+  const scopes = header.split(",").map((s) => s.trim()).filter(Boolean);
+  const detail = `authenticated as ${login}; scopes: ${scopes.join(", ") || "none"}`;
+  // public_repo is enough for public repositories; repo implies notifications
+  const missing = [
+    ...(scopes.includes("repo") || scopes.includes("public_repo") ? [] : ["repo"]),
+    ...(scopes.includes("notifications") || scopes.includes("repo") ? [] : ["notifications"]),
+  ];
+  if (missing.length > 0) {
+    return {
+      name: "token",
+      status: "warn",
+      detail,
+      hint: `Add the missing scope${missing.length === 1 ? "" : "s"}: gh auth refresh -s ${missing.join(",")}`,
+    };
+  }
+  return { name: "token", status: "pass", detail };
+}
+
+async function checkRepoAccess(repo: RepoRef): Promise<DoctorCheck> {
+  try {
+    const data = JSON.parse(await gh(["api", `repos/${repo.owner}/${repo.repo}`])) as {
+      full_name?: string;
+      permissions?: { push?: boolean };
+    };
+    const access = data.permissions === undefined ? "access" : data.permissions.push ? "write access" : "read-only access";
+    return { name: "repo", status: "pass", detail: `${data.full_name ?? `${repo.owner}/${repo.repo}`} (${access})` };
+  } catch (err) {
+    return failed("repo", err);
+  }
+}
+
+async function checkNotifications(repo: RepoRef): Promise<DoctorCheck> {
+  try {
+    await gh(["api", `repos/${repo.owner}/${repo.repo}/notifications?per_page=1`]);
+    return { name: "notifications", status: "pass", detail: "notifications readable" };
+  } catch (err) {
+    // buzz still works without notifications, just without unread markers
+    return { ...failed("notifications", err), status: "warn" };
+  }
+}
+
+/** The config check, plus the config's label mapping when the file loaded. */
+async function checkConfig(repo: RepoRef): Promise<{ check: DoctorCheck; labels?: GovernanceLabels }> {
+  let config;
+  try {
+    config = await loadRepoConfig(repo);
+  } catch (err) {
+    return { check: failed("config", err) };
+  }
+  try {
+    const count = Object.keys(requireTeamConfig(config).roles).length;
+    return {
+      check: { name: "config", status: "pass", detail: `.github/hivemoot.yml defines ${count} role${count === 1 ? "" : "s"}` },
+      labels: config.labels,
+    };
+  } catch (err) {
+    return { check: failed("config", err), labels: config.labels };
+  }
+}
+
+async function checkLabels(repo: RepoRef, mapping: GovernanceLabels): Promise<DoctorCheck> {
+  let names: Set<string>;
+  try {
+    const labels = JSON.parse(
+      await gh(["api", "--paginate", `repos/${repo.owner}/${repo.repo}/labels?per_page=100`]),
+    ) as Array<{ name: string }>;
+    names = new Set(labels.map((label) => label.name.toLowerCase()));
+  } catch (err) {
+    return failed("labels", err);
+  }
+
+  const missingKeys = (Object.keys(mapping) as GovernanceLabelKey[])
+    .filter((key) => !mapping[key].some((alias) => names.has(alias.toLowerCase())));
+  const missing = missingKeys.map((key) => mapping[key][0]);
+  // The bot only creates its default labels, not names mapped in hivemoot.yml
+  const remapped = missingKeys.some((key) => mapping[key].join() !== DEFAULT_GOVERNANCE_LABELS[key].join());
+  const total = Object.keys(mapping).length;
+  if (missing.length > 0) {
+    return {
+      name: "labels",
+      status: "warn",
+      detail: `missing ${missing.length} of ${total} governance labels: ${missing.join(", ")}`,
+      hint: remapped
+        ? "Create the missing labels, or map existing ones in the labels: section of .github/hivemoot.yml."
+        : "Install the Hivemoot governance bot, which creates these labels: https://github.com/hivemoot/hivemoot-bot",
+    };
+  }
+  return { name: "labels", status: "pass", detail: `all ${total} governance labels present` };
+}
+
+async function checkRateLimit(): Promise<DoctorCheck> {
+  let resources: Record<string, { limit: number; remaining: number; reset: number }>;
+  try {
+    resources = (JSON.parse(await gh(["api", "rate_limit"])) as { resources: typeof resources }).resources;
+  } catch (err) {
+    return failed("rateLimit", err);
+  }
+
+  const buckets = (["core", "graphql"] as const).filter((name) => resources[name]);
+  const detail = buckets.map((name) => `${name} ${resources[name].remaining}/${resources[name].limit}`).join(", ");
+  const exhausted = buckets.find((name) => resources[name].remaining === 0);
+  if (exhausted) {
+    return {
+      name: "rateLimit",
+      status: "fail",
+      detail,
+      hint: `The ${exhausted} limit resets at ${new Date(resources[exhausted].reset * 1000).toISOString()}.`,
+    };
+  }
+  const low = buckets.some((name) => resources[name].remaining < resources[name].limit * RATE_LIMIT_HEADROOM);
+  return low
+    ? { name: "rateLimit", status: "warn", detail, hint: "Less than 10% of the hourly budget is left; runs may be rate limited." }
+    : { name: "rateLimit", status: "pass", detail };
+}
+
+/** Run every preflight check; the repo-specific ones are skipped when no repo resolves. */
+export async function runDoctor(options: DoctorOptions): Promise<DoctorReport> {
+  const checks: DoctorCheck[] = [await checkGh(), await checkToken()];
+
+  let repo: RepoRef | undefined;
+  try {
+    repo = await resolveRepo(options.repo);
+  } catch (err) {
+    checks.push(failed("repo", err));
+  }
+
+  if (repo) {
+    checks.push(await checkRepoAccess(repo), await checkNotifications(repo));
+    // Expect the labels the repo's config maps, or the defaults without one
+    const { check, labels } = await checkConfig(repo);
+    checks.push(check, await checkLabels(repo, labels ?? DEFAULT_GOVERNANCE_LABELS));
+  } else {
+    for (const name of ["notifications", "config", "labels"]) {
+      checks.push({ name, status: "skip", detail: "no repository" });
+    }
+  }
+  checks.push(await checkRateLimit());
+
+  return {
+    ...(repo && { repo: `${repo.owner}/${repo.repo}` }),
+    ok: checks.every((check) => check.status !== "fail"),
+    checks,
+  };
+}
+
+export async function doctorCommand(options: DoctorOptions): Promise<void> {
+  const report = await runDoctor(options);
+
+  if (options.json) {
+    console.log(jsonDoctor(report));
+  } else {
+    console.log(formatDoctor(report));
+  }
+  if (!report.ok) process.exitCode = 1;
+}
@@ -1,15 +1,48 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
-import { initCommand } from "./init.js";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import yaml from "js-yaml";
 
-beforeEach(() => {
+vi.mock("node:readline/promises", () => ({
+  createInterface: vi.fn(),
+}));
+
+import { createInterface } from "node:readline/promises";
+import { validateRepoConfig } from "../config/loader.js";
+import { PRESETS } from "../config/presets.js";
+import { initCommand, presetAnswers, renderInitConfig, runInitWizard } from "./init.js";
+
+const mockedCreateInterface = vi.mocked(createInterface);
+
+let dir: string;
+
+beforeEach(async () => {
+  vi.clearAllMocks();
   vi.spyOn(console, "log").mockImplementation(() => {});
+  dir = await mkdtemp(join(tmpdir(), "hivemoot-init-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
 });
 
+/** An `ask` that replays `answers` in order and records the questions. */
+function scripted(answers: string[]) {
+  const questions: string[] = [];
+  const ask = async (question: string) => {
+    questions.push(question);
+    return answers.shift() ?? "";
+  };
+  return { ask, questions };
+}
+
 describe("initCommand", () => {
   it("outputs a YAML template to stdout", async () => {
     await initCommand();
 
     const output = vi.mocked(console.log).mock.calls[0][0] as string;
+    expect(output).toContain("version: 1");
     expect(output).toContain("team:");
     expect(output).toContain("roles:");
     expect(output).toContain("pm:");
@@ -49,3 +82,108 @@ describe("initCommand", () => {
     expect(output).toMatch(/qa:\s/);
   });
 });
+
+describe("renderInitConfig", () => {
+  it.each(Object.keys(PRESETS))("writes a valid, current config for the %s preset", (preset) => {
+    const { config, issues } = validateRepoConfig(yaml.load(renderInitConfig(presetAnswers(preset, "colony"))));
+
+    expect(issues).toEqual([]);
+    expect(config.warnings).toBeUndefined();
+    expect(config.team?.name).toBe("colony");
+    expect(Object.keys(config.team?.roles ?? {})).toEqual(PRESETS[preset].roles);
+    expect(config.governance.pr).toEqual({ staleDays: 3, maxPRsPerIssue: 3 });
+  });
+
+  it("writes the chosen governance settings and label names", () => {
+    const content = renderInitConfig({
+      ...presetAnswers("lean"),
+      discussionMinutes: 120,
+      votingMinutes: 2880,
+      staleDays: 5,
+      maxPRsPerIssue: 1,
+      labels: { voting: "status/voting" },
+    });
+    const { config } = validateRepoConfig(yaml.load(content));
+
+    expect(content).toContain("afterMinutes: 120   # 2h discussion, then vote");
+    expect(config.governance.proposals.voting.exits).toEqual([{ type: "auto", afterMinutes: 2880 }]);
+    expect(config.governance.pr).toEqual({ staleDays: 5, maxPRsPerIssue: 1 });
+    expect(config.labels.VOTING).toEqual(["status/voting"]);
+  });
+});
+
+describe("runInitWizard", () => {
+  it("takes the defaults for empty answers", async () => {
+    const { ask } = scripted([]);
+
+    expect(await runInitWizard(ask, presetAnswers("standard", "colony"))).toEqual(presetAnswers("standard", "colony"));
+  });
+
+  it("accepts a preset name or a list of roles, and asks again on bad input", async () => {
+    const { ask, questions } = scripted(["hive", "engineer, wizard", "engineer, reviewer", "0", "2", "48", "5", "1", "y", "", "status/voting"]);
+
+    const answers = await runInitWizard(ask, presetAnswers("standard"));
+
+    expect(answers).toEqual({
+      teamName: "hive",
+      roles: ["engineer", "reviewer"],
+      discussionMinutes: 120,
+      votingMinutes: 2880,
+      staleDays: 5,
+      maxPRsPerIssue: 1,
+      labels: { voting: "status/voting" },
+    });
+    expect(questions.filter((q) => q.startsWith("Roles"))).toHaveLength(2);
+    expect(questions.filter((q) => q.startsWith("Discussion"))).toHaveLength(2);
+  });
+
+  it("expands a preset name to its roles", async () => {
+    const { ask } = scripted(["", "lean"]);
+
+    expect((await runInitWizard(ask, presetAnswers("standard"))).roles).toEqual(["engineer", "reviewer"]);
+  });
+});
+
+describe("initCommand writing a file", () => {
+  it("writes the preset config with --preset", async () => {
+    const path = join(dir, ".github", "hivemoot.yml");
+
+    await initCommand(path, { preset: "lean" });
+
+    const { config, issues } = validateRepoConfig(yaml.load(await readFile(path, "utf-8")));
+    expect(issues).toEqual([]);
+    expect(Object.keys(config.team?.roles ?? {})).toEqual(["engineer", "reviewer"]);
+    expect(vi.mocked(console.log).mock.calls[0][0]).toContain(`Wrote ${path}`);
+  });
+
+  it("refuses to overwrite an existing file without --force", async () => {
+    const path = join(dir, "hivemoot.yml");
+    await writeFile(path, "version: 1\n");
+
+    await expect(initCommand(path, { preset: "lean" })).rejects.toMatchObject({ code: "CONFIG_EXISTS" });
+    expect(await readFile(path, "utf-8")).toBe("version: 1\n");
+
+    await initCommand(path, { preset: "lean", force: true });
+    expect(await readFile(path, "utf-8")).toContain("reviewer:");
+  });
+
+  it("rejects an unknown preset", async () => {
+    await expect(initCommand(join(dir, "hivemoot.yml"), { preset: "huge" })).rejects.toThrow(
+      "Unknown preset 'huge'. Available: standard, lean, full",
+    );
+  });
+
+  it("asks the wizard questions with --interactive", async () => {
+    const answers = ["hive", "lean", "", "", "", "", "n"];
+    const close = vi.fn();
+    mockedCreateInterface.mockReturnValue({ question: async () => answers.shift() ?? "", close } as any);
+    const path = join(dir, "hivemoot.yml");
+
+    await initCommand(path, { interactive: true });
+
+    const content = await readFile(path, "utf-8");
+    expect(content).toContain('name: "hive"');
+    expect(content).toContain("reviewer:");
+    expect(close).toHaveBeenCalled();
+  });
+});
@@ -1,51 +1,221 @@
-export async function initCommand(): Promise<void> {
-  const template = `# Hivemoot team configuration
-# Place this file at .github/hivemoot.yml in your repository.
-#
-# Roles define personas (who the agent is), not workflow.
-# Workflow details belong in .agent/skills/.
-
-team:
-  # onboarding: optional free-form text shown to all agents before their role
-  # instructions. Use it to introduce the project, point agents to key docs
-  # (like CONTRIBUTING.md), and set behavioral expectations.
-  # onboarding: |
-  #   This project is ...
-  #   Read CONTRIBUTING.md for contribution workflow and access model.
-
-  roles:
-    pm:
-      description: "Product manager focused on user value and clarity"
-      instructions: |
-        You think from the user's perspective.
-        Evaluate ideas by the problem they solve and who benefits.
-        Push for clear requirements and well-scoped proposals.
-        Ask "why does this matter?" before "how do we build it?"
-
-    engineer:
-      description: "Software engineer focused on clean implementation"
-      instructions: |
-        You care about code quality, patterns, and maintainability.
-        Favor simple, proven approaches over clever solutions.
-        Write clean code with good test coverage.
-        Build on existing conventions in the codebase.
-
-    architect:
-      description: "Architect focused on system design and long-term health"
-      instructions: |
-        You think about how pieces fit together.
-        Evaluate proposals for scalability, consistency, and technical debt.
-        Guard the system's boundaries and abstractions.
-        Push back when short-term wins create long-term problems.
-
-    qa:
-      description: "QA engineer focused on reliability and edge cases"
-      instructions: |
-        You think about what can go wrong.
-        Find edge cases, race conditions, and failure modes others miss.
-        Push for thorough error handling and defensive design.
-        Ask "what happens when this fails?" about everything.
-`;
-
-  console.log(template);
+import { access, mkdir, writeFile } from "node:fs/promises";
+import { basename, dirname } from "node:path";
+import { createInterface } from "node:readline/promises";
+import { CliError, DEFAULT_GOVERNANCE_LABELS, type InitOptions } from "../config/types.js";
+import { CONFIG_VERSION, LABEL_CONFIG_KEYS, validateConfigSource } from "../config/loader.js";
+import { DEFAULT_GOVERNANCE } from "../config/defaults.js";
+import { DEFAULT_PRESET, PRESETS, ROLE_LIBRARY } from "../config/presets.js";
+import { DEFAULT_CONFIG_PATH } from "./config.js";
+
+/** What `hivemoot init` writes; the preset and the wizard both produce one. */
+export interface InitAnswers {
+  teamName?: string;
+  roles: string[];                  // slugs from ROLE_LIBRARY
+  discussionMinutes: number;
+  votingMinutes: number;
+  staleDays: number;
+  maxPRsPerIssue: number;
+  labels: Record<string, string>;   // labels: key → label name, only for changed names
+}
+
+type Ask = (question: string) => Promise<string>;
+
+function autoExitMinutes(phase: "discussion" | "voting"): number {
+  const exit = DEFAULT_GOVERNANCE.proposals[phase].exits.find((e) => e.type === "auto");
+  return exit?.afterMinutes ?? 24 * 60;
+}
+
+export function presetAnswers(preset: string, teamName?: string): InitAnswers {
+  if (!Object.hasOwn(PRESETS, preset)) {
+    throw new CliError(
+      `Unknown preset '${preset}'. Available: ${Object.keys(PRESETS).join(", ")}`,
+      "INVALID_CONFIG",
+      1,
+    );
+  }
+  return {
+    teamName,
+    roles: PRESETS[preset].roles,
+    discussionMinutes: autoExitMinutes("discussion"),
+    votingMinutes: autoExitMinutes("voting"),
+    staleDays: DEFAULT_GOVERNANCE.pr.staleDays,
+    maxPRsPerIssue: DEFAULT_GOVERNANCE.pr.maxPRsPerIssue,
+    labels: {},
+  };
+}
+
+function duration(minutes: number): string {
+  return minutes % 60 === 0 ? `${minutes / 60}h` : `${minutes}m`;
+}
+
+/** hivemoot.yml text for `answers`, with the comments of the starter template. */
+export function renderInitConfig(answers: InitAnswers): string {
+  const lines = [
+    "# Hivemoot team configuration",
+    "# Place this file at .github/hivemoot.yml in your repository.",
+    "#",
+    "# Roles define personas (who the agent is), not workflow.",
+    "# Workflow details belong in .agent/skills/.",
+    "",
+    `version: ${CONFIG_VERSION}`,
+    "",
+    "team:",
+  ];
+  if (answers.teamName) lines.push(`  name: ${JSON.stringify(answers.teamName)}`, "");
+  lines.push(
+    "  # onboarding: optional free-form text shown to all agents before their role",
+    "  # instructions. Use it to introduce the project, point agents to key docs",
+    "  # (like CONTRIBUTING.md), and set behavioral expectations.",
+    "  # onboarding: |",
+    "  #   This project is ...",
+    "  #   Read CONTRIBUTING.md for contribution workflow and access model.",
+    "",
+    "  roles:",
+  );
+  answers.roles.forEach((slug, i) => {
+    const role = ROLE_LIBRARY[slug];
+    if (i > 0) lines.push("");
+    lines.push(
+      `    ${slug}:`,
+      `      description: ${JSON.stringify(role.description)}`,
+      "      instructions: |",
+      ...role.instructions.trimEnd().split("\n").map((line) => `        ${line}`),
+    );
+  });
+
+  lines.push(
+    "",
+    "governance:",
+    "  proposals:",
+    "    discussion:",
+    "      exits:",
+    "        - type: auto",
+    `          afterMinutes: ${answers.discussionMinutes}   # ${duration(answers.discussionMinutes)} discussion, then vote`,
+    "    voting:",
+    "      exits:",
+    "        - type: auto",
+    `          afterMinutes: ${answers.votingMinutes}   # ${duration(answers.votingMinutes)} voting, then tally`,
+    "  pr:",
+    `    staleDays: ${answers.staleDays}`,
+    `    maxPRsPerIssue: ${answers.maxPRsPerIssue}`,
+  );
+
+  const labels = Object.entries(answers.labels);
+  if (labels.length > 0) {
+    lines.push("", "labels:", ...labels.map(([key, name]) => `  ${key}: ${JSON.stringify(name)}`));
+  }
+  return lines.join("\n") + "\n";
+}
+
+/** Ask until `parse` accepts the answer; an empty answer takes `fallback`. */
+async function askFor<T>(
+  ask: Ask,
+  question: string,
+  fallback: string,
+  parse: (answer: string) => T | undefined,
+  retry: string,
+): Promise<T> {
+  for (;;) {
+    const answer = (await ask(`${question} [${fallback}]: `)).trim() || fallback;
+    const value = parse(answer);
+    if (value !== undefined) return value;
+    console.log(retry);
+  }
+}
+
+function positiveInt(answer: string): number | undefined {
+  const n = Number(answer);
+  return Number.isInteger(n) && n > 0 ? n : undefined;
+}
+
+function parseRoles(answer: string): string[] | undefined {
+  if (Object.hasOwn(PRESETS, answer)) return PRESETS[answer].roles;
+  const roles = [...new Set(answer.split(/[\s,]+/).filter(Boolean))];
+  return roles.length > 0 && roles.every((slug) => Object.hasOwn(ROLE_LIBRARY, slug)) ? roles : undefined;
+}
+
+export async function runInitWizard(ask: Ask, defaults: InitAnswers): Promise<InitAnswers> {
+  const teamName = (await ask(`Team name [${defaults.teamName ?? ""}]: `)).trim() || defaults.teamName;
+
+  console.log("\nRoles:");
+  for (const [slug, role] of Object.entries(ROLE_LIBRARY)) console.log(`  ${slug.padEnd(10)}${role.description}`);
+  console.log("Presets:");
+  for (const [name, preset] of Object.entries(PRESETS)) {
+    console.log(`  ${name.padEnd(10)}${preset.description} (${preset.roles.join(", ")})`);
+  }
+  const roles = await askFor(
+    ask,
+    "Roles (a preset, or role names separated by commas)",
+    defaults.roles.join(","),
+    parseRoles,
+    `Pick a preset (${Object.keys(PRESETS).join(", ")}) or roles from: ${Object.keys(ROLE_LIBRARY).join(", ")}`,
+  );
+
+  const hours = (minutes: number): string => String(Math.max(1, Math.round(minutes / 60)));
+  const discussionHours = await askFor(ask, "Discussion phase, in hours", hours(defaults.discussionMinutes), positiveInt, "Enter a whole number of hours.");
+  const votingHours = await askFor(ask, "Voting phase, in hours", hours(defaults.votingMinutes), positiveInt, "Enter a whole number of hours.");
+  const staleDays = await askFor(ask, "Days before an inactive PR is stale", String(defaults.staleDays), positiveInt, "Enter a whole number of days.");
+  const maxPRsPerIssue = await askFor(ask, "Competing PRs allowed per issue", String(defaults.maxPRsPerIssue), positiveInt, "Enter a positive whole number.");
+
+  const labels: Record<string, string> = {};
+  if (/^y(es)?$/i.test((await ask("Use your own label names for governance states? [y/N]: ")).trim())) {
+    for (const [name, key] of Object.entries(LABEL_CONFIG_KEYS)) {
+      const label = (await ask(`  ${name} [${DEFAULT_GOVERNANCE_LABELS[key][0]}]: `)).trim();
+      if (label) labels[name] = label;
+    }
+  }
+
+  return {
+    teamName,
+    roles,
+    discussionMinutes: discussionHours * 60,
+    votingMinutes: votingHours * 60,
+    staleDays,
+    maxPRsPerIssue,
+    labels,
+  };
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function initCommand(path?: string, options: InitOptions = {}): Promise<void> {
+  const defaults = presetAnswers(options.preset ?? DEFAULT_PRESET, basename(process.cwd()));
+
+  // Without --interactive or --preset, print the starter for copy-pasting
+  if (!options.interactive && !options.preset) {
+    console.log(renderInitConfig({ ...defaults, teamName: undefined }));
+    return;
+  }
+
+  const target = path ?? DEFAULT_CONFIG_PATH;
+  if (!options.force && (await exists(target))) {
+    throw new CliError(`${target} already exists. Pass --force to overwrite it.`, "CONFIG_EXISTS", 1);
+  }
+
+  let answers = defaults;
+  if (options.interactive) {
+    const rl = createInterface({ input: process.stdin, output: process.stdout });
+    try {
+      answers = await runInitWizard((question) => rl.question(question), defaults);
+    } finally {
+      rl.close();
+    }
+  }
+
+  const content = renderInitConfig(answers);
+  const issues = await validateConfigSource(content, async () => undefined);
+  if (issues.length > 0) {
+    throw new CliError(`Config error: ${issues[0].message}`, "INVALID_CONFIG", 1);
+  }
+
+  await mkdir(dirname(target), { recursive: true });
+  await writeFile(target, content);
+  console.log(`Wrote ${target} with roles: ${answers.roles.join(", ")}. Check it with: hivemoot config validate`);
 }
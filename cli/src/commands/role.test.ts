@@ -1,20 +1,28 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
-import { CliError, type TeamConfig } from "../config/types.js";
+import { CliError, type RepoConfig, type TeamConfig } from "../config/types.js";
 
-vi.mock("../config/loader.js", () => ({
-  loadTeamConfig: vi.fn(),
+vi.mock("../config/loader.js", async (importOriginal) => ({
+  requireTeamConfig: (await importOriginal<typeof import("../config/loader.js")>()).requireTeamConfig,
+  loadConfig: vi.fn(),
 }));
 
 vi.mock("../github/repo.js", () => ({
   resolveRepo: vi.fn(),
 }));
 
-import { loadTeamConfig } from "../config/loader.js";
+vi.mock("../github/user.js", () => ({
+  fetchCurrentUser: vi.fn(),
+}));
+
+import { DEFAULT_GOVERNANCE_LABELS } from "../config/types.js";
+import { loadConfig } from "../config/loader.js";
 import { resolveRepo } from "../github/repo.js";
+import { fetchCurrentUser } from "../github/user.js";
 import { roleCommand } from "./role.js";
 
 const mockedResolveRepo = vi.mocked(resolveRepo);
-const mockedLoadTeamConfig = vi.mocked(loadTeamConfig);
+const mockedLoadConfig = vi.mocked(loadConfig);
+const mockedFetchCurrentUser = vi.mocked(fetchCurrentUser);
 
 const testTeamConfig: TeamConfig = {
   onboarding: "Welcome to the project.\nRead CONTRIBUTING.md for the workflow.",
@@ -30,11 +38,20 @@ const testTeamConfig: TeamConfig = {
   },
 };
 
+function repoConfig(team: TeamConfig): RepoConfig {
+  return {
+    governance: { proposals: { discussion: { exits: [] }, voting: { exits: [] } }, pr: { staleDays: 5, maxPRsPerIssue: 2 } },
+    labels: DEFAULT_GOVERNANCE_LABELS,
+    team,
+  };
+}
+
 beforeEach(() => {
   vi.clearAllMocks();
   vi.spyOn(console, "log").mockImplementation(() => {});
   mockedResolveRepo.mockResolvedValue({ owner: "hivemoot", repo: "colony" });
-  mockedLoadTeamConfig.mockResolvedValue(testTeamConfig);
+  mockedLoadConfig.mockResolvedValue(repoConfig(testTeamConfig));
+  mockedFetchCurrentUser.mockResolvedValue("worker-bot");
 });
 
 describe("roleCommand", () => {
@@ -75,9 +92,9 @@ describe("roleCommand", () => {
   });
 
   it("omits onboarding from JSON when not configured", async () => {
-    mockedLoadTeamConfig.mockResolvedValue({
+    mockedLoadConfig.mockResolvedValue(repoConfig({
       roles: testTeamConfig.roles,
-    });
+    }));
 
     await roleCommand("worker", { json: true });
 
@@ -91,4 +108,55 @@ describe("roleCommand", () => {
 
     expect(mockedResolveRepo).toHaveBeenCalledWith("owner/custom-repo");
   });
+
+  it("reads a local --config file without resolving the repo", async () => {
+    await roleCommand("worker", { config: "hivemoot.yml" });
+
+    expect(mockedResolveRepo).not.toHaveBeenCalled();
+    expect(mockedLoadConfig).toHaveBeenCalledWith(undefined, { config: "hivemoot.yml" });
+    expect(mockedFetchCurrentUser).not.toHaveBeenCalled();
+    const output = vi.mocked(console.log).mock.calls[0][0] as string;
+    expect(output).toContain("ROLE — hivemoot.yml");
+  });
+
+  it("shows the --config-ref next to the repo", async () => {
+    await roleCommand("worker", { configRef: "abc123" });
+
+    expect(mockedLoadConfig).toHaveBeenCalledWith({ owner: "hivemoot", repo: "colony" }, { configRef: "abc123" });
+    const output = vi.mocked(console.log).mock.calls[0][0] as string;
+    expect(output).toContain("ROLE — hivemoot/colony@abc123");
+  });
+
+  describe("template variables", () => {
+    const templated: TeamConfig = {
+      name: "colony-team",
+      onboarding: "Welcome to {{team.name}} on {{repo}}.",
+      roles: {
+        worker: {
+          description: "Builds",
+          instructions: "You are {{user}}, the {{role}}. PRs go stale after {{governance.pr.staleDays}} days.",
+        },
+      },
+    };
+
+    it("renders instructions and onboarding", async () => {
+      mockedLoadConfig.mockResolvedValue(repoConfig(templated));
+
+      await roleCommand("worker", { json: true });
+
+      const parsed = JSON.parse(vi.mocked(console.log).mock.calls[0][0] as string);
+      expect(parsed.onboarding).toBe("Welcome to colony-team on hivemoot/colony.");
+      expect(parsed.role.instructions).toBe("You are worker-bot, the worker. PRs go stale after 5 days.");
+    });
+
+    it("keeps {{user}} when the login can't be looked up", async () => {
+      mockedLoadConfig.mockResolvedValue(repoConfig(templated));
+      mockedFetchCurrentUser.mockRejectedValue(new Error("not logged in"));
+
+      await roleCommand("worker", {});
+
+      const output = vi.mocked(console.log).mock.calls[0][0] as string;
+      expect(output).toContain("You are {{user}}, the worker.");
+    });
+  });
 });
@@ -1,6 +1,8 @@
-import { loadTeamConfig } from "../config/loader.js";
+import { loadConfig, requireTeamConfig } from "../config/loader.js";
+import { templateVars } from "../config/template.js";
 import { CliError, type RoleOptions, type RoleConfig, type TeamConfig } from "../config/types.js";
 import { resolveRepo } from "../github/repo.js";
+import { fetchCurrentUser } from "../github/user.js";
 import { formatRole } from "../output/formatter.js";
 import { jsonRole } from "../output/json.js";
 
@@ -18,13 +20,26 @@ function resolveRoleConfig(teamConfig: TeamConfig, roleName: string): RoleConfig
 }
 
 export async function roleCommand(roleName: string, options: RoleOptions): Promise<void> {
-  const repo = await resolveRepo(options.repo);
-  const teamConfig = await loadTeamConfig(repo);
+  // A local --config file is read without looking up the repo, so it works offline
+  const repo = options.config ? undefined : await resolveRepo(options.repo);
+  const config = await loadConfig(repo, options);
+  const teamConfig = requireTeamConfig(config);
   const role = resolveRoleConfig(teamConfig, roleName);
 
+  // {{user}} stays as written when the login can't be looked up
+  const user = repo ? await fetchCurrentUser().catch(() => undefined) : undefined;
+  const vars = templateVars({
+    repo,
+    user,
+    role: roleName,
+    teamName: teamConfig.name,
+    governance: config.governance,
+  });
+
   if (options.json) {
-    console.log(jsonRole(roleName, role, teamConfig.onboarding));
+    console.log(jsonRole(roleName, role, teamConfig.onboarding, vars));
   } else {
-    console.log(formatRole(roleName, role, `${repo.owner}/${repo.repo}`, teamConfig.onboarding));
+    const source = repo ? `${repo.owner}/${repo.repo}${options.configRef ? `@${options.configRef}` : ""}` : options.config;
+    console.log(formatRole(roleName, role, source ?? "", teamConfig.onboarding, vars));
   }
 }
@@ -51,7 +51,7 @@ describe("rolesCommand", () => {
     await rolesCommand({});
 
     expect(mockedResolveRepo).toHaveBeenCalledWith(undefined);
-    expect(mockedLoadTeamConfig).toHaveBeenCalledWith({ owner: "hivemoot", repo: "test" });
+    expect(mockedLoadTeamConfig).toHaveBeenCalledWith({ owner: "hivemoot", repo: "test" }, {});
     expect(mockedFormatRoles).toHaveBeenCalledWith(testTeamConfig, "hivemoot/test");
     expect(console.log).toHaveBeenCalledWith("Roles:\n  engineer — Engineer role");
   });
@@ -73,4 +73,23 @@ describe("rolesCommand", () => {
 
     expect(mockedResolveRepo).toHaveBeenCalledWith("owner/custom-repo");
   });
+
+  it("reads a local --config file without resolving the repo", async () => {
+    mockedFormatRoles.mockReturnValue("output");
+
+    await rolesCommand({ config: ".github/hivemoot.yml" });
+
+    expect(mockedResolveRepo).not.toHaveBeenCalled();
+    expect(mockedLoadTeamConfig).toHaveBeenCalledWith(undefined, { config: ".github/hivemoot.yml" });
+    expect(mockedFormatRoles).toHaveBeenCalledWith(testTeamConfig, ".github/hivemoot.yml");
+  });
+
+  it("passes --config-ref through and shows it with the repo", async () => {
+    mockedFormatRoles.mockReturnValue("output");
+
+    await rolesCommand({ configRef: "feature/roles" });
+
+    expect(mockedLoadTeamConfig).toHaveBeenCalledWith({ owner: "hivemoot", repo: "test" }, { configRef: "feature/roles" });
+    expect(mockedFormatRoles).toHaveBeenCalledWith(testTeamConfig, "hivemoot/test@feature/roles");
+  });
 });
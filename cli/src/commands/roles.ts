@@ -5,12 +5,14 @@ import { formatRoles } from "../output/formatter.js";
 import { jsonRoles } from "../output/json.js";
 
 export async function rolesCommand(options: RolesOptions): Promise<void> {
-  const repo = await resolveRepo(options.repo);
-  const teamConfig = await loadTeamConfig(repo);
+  // A local --config file is read without looking up the repo, so it works offline
+  const repo = options.config ? undefined : await resolveRepo(options.repo);
+  const teamConfig = await loadTeamConfig(repo, options);
 
   if (options.json) {
     console.log(jsonRoles(teamConfig));
   } else {
-    console.log(formatRoles(teamConfig, `${repo.owner}/${repo.repo}`));
+    const source = repo ? `${repo.owner}/${repo.repo}${options.configRef ? `@${options.configRef}` : ""}` : options.config;
+    console.log(formatRoles(teamConfig, source ?? ""));
   }
 }
@@ -0,0 +1,16 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { schemaCommand } from "./schema.js";
+
+beforeEach(() => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+});
+
+describe("schemaCommand", () => {
+  it("prints the config schema as JSON", async () => {
+    await schemaCommand();
+
+    const output = JSON.parse(vi.mocked(console.log).mock.calls[0][0] as string);
+    expect(output.title).toBe("hivemoot.yml");
+    expect(output.properties.team.properties.roles).toBeDefined();
+  });
+});
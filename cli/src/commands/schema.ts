@@ -0,0 +1,5 @@
+import { configSchema } from "../config/schema.js";
+
+export async function schemaCommand(): Promise<void> {
+  console.log(JSON.stringify(configSchema(), null, 2));
+}
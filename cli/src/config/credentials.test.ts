@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { defaultCredentialsPath, loadAgentCredentials } from "./credentials.js";
+
+let dir: string;
+let path: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "hivemoot-credentials-"));
+  path = join(dir, "credentials.yml");
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("defaultCredentialsPath()", () => {
+  it("lives under XDG_CONFIG_HOME when set", () => {
+    const saved = process.env.XDG_CONFIG_HOME;
+    process.env.XDG_CONFIG_HOME = "/tmp/xdg";
+    try {
+      expect(defaultCredentialsPath()).toBe("/tmp/xdg/hivemoot/credentials.yml");
+    } finally {
+      if (saved === undefined) delete process.env.XDG_CONFIG_HOME;
+      else process.env.XDG_CONFIG_HOME = saved;
+    }
+  });
+});
+
+describe("loadAgentCredentials()", () => {
+  it("returns a token identity", async () => {
+    await writeFile(path, "agents:\n  worker:\n    token: ghp_worker\n    login: worker-bot\n");
+
+    expect(await loadAgentCredentials(path, "worker")).toEqual({
+      login: "worker-bot",
+      token: "ghp_worker",
+      app: undefined,
+    });
+  });
+
+  it("returns app credentials, normalizing numeric IDs", async () => {
+    await writeFile(path, [
+      "agents:",
+      "  reviewer:",
+      "    app:",
+      "      appId: 123",
+      "      privateKey: reviewer.pem",
+      "      installationId: 456",
+    ].join("\n"));
+
+    expect(await loadAgentCredentials(path, "reviewer")).toEqual({
+      login: undefined,
+      token: undefined,
+      app: { appId: "123", privateKey: "reviewer.pem", installationId: "456" },
+    });
+  });
+
+  it("throws CONFIG_NOT_FOUND when the file is missing", async () => {
+    await expect(loadAgentCredentials(path, "worker")).rejects.toMatchObject({
+      code: "CONFIG_NOT_FOUND",
+      message: expect.stringContaining(path),
+    });
+  });
+
+  it("throws AGENT_NOT_FOUND listing the available agents", async () => {
+    await writeFile(path, "agents:\n  worker:\n    token: a\n  reviewer:\n    token: b\n");
+
+    await expect(loadAgentCredentials(path, "scout")).rejects.toMatchObject({
+      code: "AGENT_NOT_FOUND",
+      message: expect.stringContaining("Available: worker, reviewer"),
+    });
+  });
+
+  it("rejects an agent with both a token and app credentials", async () => {
+    await writeFile(path, "agents:\n  worker:\n    token: a\n    app:\n      appId: 1\n      privateKey: k.pem\n");
+
+    await expect(loadAgentCredentials(path, "worker")).rejects.toMatchObject({
+      code: "INVALID_CONFIG",
+      message: expect.stringContaining("agents.worker must set exactly one of token or app"),
+    });
+  });
+
+  it("rejects app credentials without a private key", async () => {
+    await writeFile(path, "agents:\n  worker:\n    app:\n      appId: 1\n");
+
+    await expect(loadAgentCredentials(path, "worker")).rejects.toMatchObject({
+      code: "INVALID_CONFIG",
+      message: expect.stringContaining("agents.worker.app.privateKey is required"),
+    });
+  });
+
+  it("rejects a file without an agents map", async () => {
+    await writeFile(path, "worker: ghp_x\n");
+
+    await expect(loadAgentCredentials(path, "worker")).rejects.toMatchObject({
+      code: "INVALID_CONFIG",
+      message: expect.stringContaining("agents must be a map"),
+    });
+  });
+
+  it("reports invalid YAML", async () => {
+    await writeFile(path, "agents: [unclosed\n");
+
+    await expect(loadAgentCredentials(path, "worker")).rejects.toMatchObject({
+      code: "INVALID_CONFIG",
+      message: expect.stringContaining("invalid YAML"),
+    });
+  });
+});
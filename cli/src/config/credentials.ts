@@ -0,0 +1,111 @@
+import { readFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import yaml from "js-yaml";
+import type { AgentAppCredentials, AgentCredentials } from "./types.js";
+import { CliError } from "./types.js";
+
+const AGENT_NAME_RE = /^[A-Za-z0-9][A-Za-z0-9_.-]{0,99}$/;
+
+/** Default location: $XDG_CONFIG_HOME/hivemoot/credentials.yml, falling back to ~/.config. */
+export function defaultCredentialsPath(): string {
+  const base = process.env.XDG_CONFIG_HOME || join(homedir(), ".config");
+  return join(base, "hivemoot", "credentials.yml");
+}
+
+function invalid(path: string, message: string): CliError {
+  return new CliError(`Credentials error in ${path}: ${message}`, "INVALID_CONFIG", 1);
+}
+
+function validateApp(path: string, name: string, raw: unknown): AgentAppCredentials {
+  if (typeof raw !== "object" || raw === null) {
+    throw invalid(path, `agents.${name}.app must be an object`);
+  }
+  const app = raw as Record<string, unknown>;
+  // YAML reads bare numeric IDs as numbers
+  const appId = typeof app.appId === "number" ? String(app.appId) : app.appId;
+  if (typeof appId !== "string" || !appId) {
+    throw invalid(path, `agents.${name}.app.appId is required`);
+  }
+  if (typeof app.privateKey !== "string" || !app.privateKey) {
+    throw invalid(path, `agents.${name}.app.privateKey is required`);
+  }
+  const installationId = typeof app.installationId === "number" ? String(app.installationId) : app.installationId;
+  if (installationId !== undefined && typeof installationId !== "string") {
+    throw invalid(path, `agents.${name}.app.installationId must be a string or number`);
+  }
+  return { appId, privateKey: app.privateKey, installationId };
+}
+
+function validateAgent(path: string, name: string, raw: unknown): AgentCredentials {
+  if (typeof raw !== "object" || raw === null) {
+    throw invalid(path, `agents.${name} must be an object`);
+  }
+  const agent = raw as Record<string, unknown>;
+  if (agent.login !== undefined && (typeof agent.login !== "string" || !agent.login)) {
+    throw invalid(path, `agents.${name}.login must be a non-empty string`);
+  }
+  if (agent.token !== undefined && (typeof agent.token !== "string" || !agent.token)) {
+    throw invalid(path, `agents.${name}.token must be a non-empty string`);
+  }
+  if ((agent.token === undefined) === (agent.app === undefined)) {
+    throw invalid(path, `agents.${name} must set exactly one of token or app`);
+  }
+  return {
+    login: agent.login as string | undefined,
+    token: agent.token as string | undefined,
+    app: agent.app === undefined ? undefined : validateApp(path, name, agent.app),
+  };
+}
+
+/**
+ * Look up one agent's identity in the local credentials file:
+ *
+ *   agents:
+ *     worker:
+ *       token: ghp_...
+ *     reviewer:
+ *       app: { appId: 123, privateKey: reviewer.pem }
+ */
+export async function loadAgentCredentials(path: string, agent: string): Promise<AgentCredentials> {
+  let content: string;
+  try {
+    content = await readFile(path, "utf-8");
+  } catch {
+    throw new CliError(
+      `No credentials file found at ${path}. Create it or pass --credentials-file <path>`,
+      "CONFIG_NOT_FOUND",
+      1,
+    );
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = yaml.load(content, { schema: yaml.JSON_SCHEMA });
+  } catch (err) {
+    const detail = err instanceof Error ? `: ${err.message}` : "";
+    throw invalid(path, `invalid YAML${detail}`);
+  }
+
+  const agents = (parsed as { agents?: unknown } | null)?.agents;
+  if (typeof agents !== "object" || agents === null || Array.isArray(agents)) {
+    throw invalid(path, "agents must be a map of agent names to credentials");
+  }
+
+  for (const name of Object.keys(agents)) {
+    if (!AGENT_NAME_RE.test(name)) {
+      throw invalid(path, `invalid agent name "${name}"`);
+    }
+  }
+
+  if (!Object.hasOwn(agents, agent)) {
+    const available = Object.keys(agents).join(", ") || "(none)";
+    throw new CliError(
+      `Agent '${agent}' not found in ${path}. Available: ${available}`,
+      "AGENT_NOT_FOUND",
+      1,
+    );
+  }
+
+  return validateAgent(path, agent, (agents as Record<string, unknown>)[agent]);
+}
@@ -0,0 +1,15 @@
+import type { GovernanceConfig } from "./types.js";
+
+const DEFAULT_PHASE_MINUTES = 24 * 60;
+
+/** Governance settings used when hivemoot.yml omits them (matches the README example). */
+export const DEFAULT_GOVERNANCE: GovernanceConfig = {
+  proposals: {
+    discussion: { exits: [{ type: "auto", afterMinutes: DEFAULT_PHASE_MINUTES }] },
+    voting: { exits: [{ type: "auto", afterMinutes: DEFAULT_PHASE_MINUTES }] },
+  },
+  pr: {
+    staleDays: 3,
+    maxPRsPerIssue: 3,
+  },
+};
@@ -1,5 +1,8 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import yaml from "js-yaml";
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { CliError } from "./types.js";
 
 vi.mock("../github/client.js", () => ({
@@ -7,7 +10,15 @@ vi.mock("../github/client.js", () => ({
 }));
 
 import { gh } from "../github/client.js";
-import { loadTeamConfig } from "./loader.js";
+import {
+  localFileReader,
+  loadRepoConfig,
+  loadTeamConfig,
+  validateConfigSource,
+  validateGovernanceConfig,
+  validateRepoConfig,
+} from "./loader.js";
+import { DEFAULT_GOVERNANCE } from "./defaults.js";
 
 const mockedGh = vi.mocked(gh);
 
@@ -41,6 +52,7 @@ describe("loadTeamConfig", () => {
     expect(config.roles.engineer).toEqual({
       description: "A software engineer",
       instructions: "Write clean code and tests.",
+      source: "repo",
     });
     expect(mockedGh).toHaveBeenCalledWith([
       "api",
@@ -121,6 +133,7 @@ describe("loadTeamConfig", () => {
     expect(config.roles.engineer).toEqual({
       description: "Engineer",
       instructions: "Do things.",
+      source: "repo",
     });
   });
 
@@ -377,3 +390,774 @@ describe("loadTeamConfig", () => {
     expect(config.roles.engineer.instructions).toHaveLength(10_000);
   });
 });
+
+describe("validateGovernanceConfig", () => {
+  it("returns defaults when governance is absent", () => {
+    expect(validateGovernanceConfig(undefined)).toEqual(DEFAULT_GOVERNANCE);
+    expect(validateGovernanceConfig(null)).toEqual(DEFAULT_GOVERNANCE);
+  });
+
+  it("fills omitted settings from defaults", () => {
+    const governance = validateGovernanceConfig({ pr: { staleDays: 7 } });
+
+    expect(governance.pr).toEqual({ staleDays: 7, maxPRsPerIssue: 3 });
+    expect(governance.proposals).toEqual(DEFAULT_GOVERNANCE.proposals);
+  });
+
+  it("accepts auto and manual exits", () => {
+    const governance = validateGovernanceConfig({
+      proposals: {
+        discussion: { exits: [{ type: "auto", afterMinutes: 60 }] },
+        voting: { exits: [{ type: "manual" }] },
+      },
+    });
+
+    expect(governance.proposals.discussion.exits).toEqual([{ type: "auto", afterMinutes: 60 }]);
+    expect(governance.proposals.voting.exits).toEqual([{ type: "manual" }]);
+  });
+
+  it.each([
+    [{ pr: { staleDays: 0 } }, "governance.pr.staleDays must be a positive integer (got 0)"],
+    [{ pr: { maxPRsPerIssue: "3" } }, 'governance.pr.maxPRsPerIssue must be a positive integer (got "3")'],
+    [{ pr: [] }, "governance.pr must be a mapping"],
+    [
+      { proposals: { voting: { exits: [{ type: "timer" }] } } },
+      'governance.proposals.voting.exits[0].type must be "auto" or "manual" (got "timer")',
+    ],
+    [
+      { proposals: { discussion: { exits: [{ type: "auto" }] } } },
+      "governance.proposals.discussion.exits[0].afterMinutes is required for auto exits",
+    ],
+    [
+      { proposals: { discussion: { exits: [{ type: "manual" }, { type: "auto", afterMinutes: 1.5 }] } } },
+      "governance.proposals.discussion.exits[1].afterMinutes must be a positive integer (got 1.5)",
+    ],
+    [
+      { proposals: { voting: { exits: [{ type: "manual", afterMinutes: 5 }] } } },
+      "governance.proposals.voting.exits[0].afterMinutes only applies to auto exits",
+    ],
+    [{ proposals: { voting: { exits: [] } } }, "governance.proposals.voting.exits must be a non-empty list"],
+  ])("rejects %j", (raw, message) => {
+    expect(() => validateGovernanceConfig(raw)).toThrow(
+      expect.objectContaining({ code: "INVALID_CONFIG", message: `Config error: ${message}` }),
+    );
+  });
+});
+
+describe("loadRepoConfig", () => {
+  it("returns governance and team", async () => {
+    mockedGh.mockResolvedValue(
+      encode(yaml.dump({ version: 1, governance: { pr: { staleDays: 5 } }, ...(yaml.load(validYaml) as object) })),
+    );
+
+    const config = await loadRepoConfig(repo);
+
+    expect(config.version).toBe(1);
+    expect(config.governance.pr.staleDays).toBe(5);
+    expect(config.team?.roles.engineer.description).toBe("A software engineer");
+  });
+
+  it("leaves team undefined when the config only has governance", async () => {
+    mockedGh.mockResolvedValue(encode(yaml.dump({ governance: { pr: { maxPRsPerIssue: 2 } } })));
+
+    const config = await loadRepoConfig(repo);
+
+    expect(config.team).toBeUndefined();
+    expect(config.governance.pr.maxPRsPerIssue).toBe(2);
+  });
+
+  it("validates governance even when team is valid", async () => {
+    mockedGh.mockResolvedValue(
+      encode(yaml.dump({ governance: { pr: { staleDays: -1 } }, ...(yaml.load(validYaml) as object) })),
+    );
+
+    await expect(loadTeamConfig(repo)).rejects.toMatchObject({
+      code: "INVALID_CONFIG",
+      message: "Config error: governance.pr.staleDays must be a positive integer (got -1)",
+    });
+  });
+});
+
+describe("validateRepoConfig", () => {
+  it("collects every problem instead of stopping at the first", () => {
+    const { issues } = validateRepoConfig({
+      governance: { pr: { staleDays: 0, maxPRsPerIssue: "many" } },
+      team: {
+        onboarding: 42,
+        roles: {
+          engineer: { description: "" },
+          qa: "not a role",
+        },
+      },
+    });
+
+    expect(issues.map((i) => i.path)).toEqual([
+      "governance.pr.staleDays",
+      "governance.pr.maxPRsPerIssue",
+      "team.onboarding",
+      "team.roles.engineer.description",
+      "team.roles.engineer.instructions",
+      "team.roles.qa",
+    ]);
+  });
+
+  it("returns no issues and the validated config for a valid document", () => {
+    const { config, issues } = validateRepoConfig(yaml.load(validYaml));
+
+    expect(issues).toEqual([]);
+    expect(config.team?.roles.engineer.instructions).toBe("Write clean code and tests.");
+  });
+
+  it("warns when the config is on an outdated version", () => {
+    expect(validateRepoConfig({ version: 1 }).config.warnings).toBeUndefined();
+    expect(validateRepoConfig({}).config.warnings).toEqual([
+      ".github/hivemoot.yml sets no version (current: 1) — run: hivemoot config migrate",
+    ]);
+    expect(validateRepoConfig({ version: 0 }).config.warnings).toEqual([
+      ".github/hivemoot.yml is on config version 0 (current: 1) — run: hivemoot config migrate",
+    ]);
+  });
+
+  it("reports a version that is not an integer", () => {
+    for (const version of ["1", 1.5, null]) {
+      const { config, issues } = validateRepoConfig({ version });
+
+      expect(issues).toEqual([{ path: "version", message: "version must be an integer" }]);
+      expect(config.warnings).toBeUndefined();
+    }
+  });
+
+  it("reports a non-object document", () => {
+    expect(validateRepoConfig("just text").issues).toEqual([
+      { path: "", message: ".github/hivemoot.yml must be a YAML object" },
+    ]);
+  });
+});
+
+describe("template variables", () => {
+  it("accepts the known variables in instructions, fragments and onboarding", () => {
+    const { issues } = validateRepoConfig({
+      team: {
+        onboarding: "Welcome to {{team.name}} on {{repo}}.",
+        fragments: { stale: "PRs go stale after {{ governance.pr.staleDays }} days." },
+        roles: { engineer: { description: "Builds", include: ["stale"], instructions: "You are {{user}}, the {{role}}." } },
+      },
+    });
+
+    expect(issues).toEqual([]);
+  });
+
+  it("reports unknown variables where they are written", () => {
+    const { issues } = validateRepoConfig({
+      team: {
+        onboarding: "Hi {{owner}}",
+        fragments: { ci: "Run {{ci.command}}" },
+        roles: { engineer: { description: "Builds", instructions: "Ship {{project}}" } },
+      },
+    });
+
+    expect(issues.map((i) => [i.path, i.message.replace(/ \(known: .*\)$/, "")])).toEqual([
+      ["team.onboarding", 'team.onboarding uses unknown template variable "{{owner}}"'],
+      ["team.fragments.ci", 'team.fragments.ci uses unknown template variable "{{ci.command}}"'],
+      ["team.roles.engineer.instructions", 'team.roles.engineer.instructions uses unknown template variable "{{project}}"'],
+    ]);
+    expect(issues[0].message).toContain("(known: repo, user, role, team.name, governance.pr.staleDays, governance.pr.maxPRsPerIssue)");
+  });
+
+  it("accepts GitHub Actions expressions and escaped braces as literal text", () => {
+    const instructions = "Use ${{ secrets.GITHUB_TOKEN }} in workflows; write \\{{name}} for a literal placeholder.";
+    const { config, issues } = validateRepoConfig({
+      team: { roles: { engineer: { description: "Builds", instructions } } },
+    });
+
+    expect(issues).toEqual([]);
+    expect(config.team?.roles.engineer.instructions).toBe(instructions);
+  });
+
+  it("checks instructions read from a file", async () => {
+    const content = yaml.dump({ team: { roles: { engineer: { description: "Builds", instructionsFile: "roles/engineer.md" } } } });
+    const issues = await validateConfigSource(content, async () => "Hello {{name}}");
+
+    expect(issues).toMatchObject([
+      { path: "team.roles.engineer.instructionsFile", message: expect.stringContaining('unknown template variable "{{name}}"') },
+    ]);
+  });
+});
+
+describe("team.members", () => {
+  const roles = {
+    engineer: { description: "Builds", instructions: "Ship it." },
+    reviewer: { description: "Reviews", instructions: "Check it." },
+  };
+
+  it("maps logins to one or more roles", () => {
+    const { config, issues } = validateRepoConfig({
+      team: { roles, members: { alice: "engineer", "review-bot[bot]": ["reviewer", "engineer", "reviewer"] } },
+    });
+
+    expect(issues).toEqual([]);
+    expect(config.team?.members).toEqual({ alice: ["engineer"], "review-bot[bot]": ["reviewer", "engineer"] });
+  });
+
+  it("leaves members undefined when the team has none", () => {
+    expect(validateRepoConfig({ team: { roles } }).config.team).not.toHaveProperty("members");
+  });
+
+  it("reports unknown roles, bad logins and malformed entries", () => {
+    const { issues } = validateRepoConfig({
+      team: {
+        roles,
+        members: { alice: ["engineer", "designer"], bob: "qa", "-carol": "engineer", dave: [], erin: { role: "x" } },
+      },
+    });
+
+    expect(issues).toEqual([
+      { path: "team.members.alice[1]", message: 'member "alice" has unknown role "designer"' },
+      { path: "team.members.bob", message: 'member "bob" has unknown role "qa"' },
+      { path: "team.members.-carol", message: 'invalid GitHub login "-carol" in team.members' },
+      { path: "team.members.dave", message: "team.members.dave must be a role name or a non-empty list of role names" },
+      { path: "team.members.erin", message: "team.members.erin must be a role name or a non-empty list of role names" },
+    ]);
+  });
+
+  it("reports a members value that is not a mapping", () => {
+    expect(validateRepoConfig({ team: { roles, members: ["alice"] } }).issues).toEqual([
+      { path: "team.members", message: "team.members must be a mapping" },
+    ]);
+  });
+});
+
+describe("labels", () => {
+  it("defaults every governance key to the hivemoot and legacy label names", () => {
+    const { config } = validateRepoConfig({});
+
+    expect(config.labels.VOTING).toEqual(["hivemoot:voting", "phase:voting"]);
+    expect(config.labels.MERGE_READY).toEqual(["hivemoot:merge-ready", "merge-ready"]);
+  });
+
+  it("replaces the names of mapped keys, accepting a single name or a list", () => {
+    const { config, issues } = validateRepoConfig({
+      labels: { voting: "status/voting", mergeReady: ["state/approved", "lgtm"] },
+    });
+
+    expect(issues).toEqual([]);
+    expect(config.labels.VOTING).toEqual(["status/voting"]);
+    expect(config.labels.MERGE_READY).toEqual(["state/approved", "lgtm"]);
+    expect(config.labels.DISCUSSION).toEqual(["hivemoot:discussion", "phase:discussion"]);
+  });
+
+  it.each([
+    [{ labels: ["status/voting"] }, "labels", "labels must be a mapping"],
+    [{ labels: { voting: [] } }, "labels.voting", "labels.voting must be a label name or a non-empty list of label names"],
+    [{ labels: { voting: [" "] } }, "labels.voting", "labels.voting must be a label name or a non-empty list of label names"],
+    [{ labels: { voting: 3 } }, "labels.voting", "labels.voting must be a label name or a non-empty list of label names"],
+  ])("rejects %j", (raw, path, message) => {
+    expect(validateRepoConfig(raw).issues).toEqual([{ path, message }]);
+  });
+
+  it("rejects unknown keys, listing the known ones", () => {
+    const [issue] = validateRepoConfig({ labels: { approved: "state/approved" } }).issues;
+
+    expect(issue.path).toBe("labels.approved");
+    expect(issue.message).toMatch(/^labels\.approved is not a governance label \(expected one of: discussion, voting, extendedVoting, readyToImplement, needsHuman, /);
+  });
+});
+
+describe("validateConfigSource", () => {
+  const noFiles = async () => undefined;
+
+  it("attaches YAML line and column to each problem", async () => {
+    const issues = await validateConfigSource("team:\n  roles:\n    engineer:\n      description: Builds\n", noFiles);
+
+    expect(issues).toEqual([
+      {
+        path: "team.roles.engineer.instructions",
+        message: 'role "engineer" is missing instructions',
+        line: 3,
+        column: 5,
+      },
+    ]);
+  });
+
+  it("reports a YAML syntax error as the only problem", async () => {
+    const issues = await validateConfigSource("team: [\n", noFiles);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ path: "", message: expect.stringMatching(/^invalid YAML: /), line: 2 });
+  });
+});
+
+describe("config sources", () => {
+  it("reads the config at --config-ref", async () => {
+    mockedGh.mockResolvedValue(encode(validYaml));
+
+    await loadTeamConfig(repo, { configRef: "feature/new-roles" });
+
+    expect(mockedGh).toHaveBeenCalledWith([
+      "api",
+      "repos/hivemoot/test-repo/contents/.github/hivemoot.yml?ref=feature%2Fnew-roles",
+    ]);
+  });
+
+  it("names the ref when the config is missing there", async () => {
+    mockedGh.mockRejectedValue(new Error("HTTP 404: Not Found"));
+
+    await expect(loadRepoConfig(repo, { configRef: "nope" })).rejects.toMatchObject({
+      code: "CONFIG_NOT_FOUND",
+      message: expect.stringContaining("at ref 'nope'"),
+    });
+  });
+
+  describe("local --config file", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "hivemoot-loader-"));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("reads the file without calling GitHub", async () => {
+      const path = join(dir, "hivemoot.yml");
+      await writeFile(path, validYaml);
+
+      const team = await loadTeamConfig(undefined, { config: path });
+
+      expect(team.roles.engineer.description).toBe("A software engineer");
+      expect(mockedGh).not.toHaveBeenCalled();
+    });
+
+    it("reports the first problem with its file location", async () => {
+      const path = join(dir, "hivemoot.yml");
+      await writeFile(path, "team:\n  roles:\n    engineer:\n      description: Builds\n");
+
+      await expect(loadRepoConfig(repo, { config: path })).rejects.toMatchObject({
+        code: "INVALID_CONFIG",
+        message: `Config error: role "engineer" is missing instructions (${path}:3:5)`,
+      });
+    });
+
+    it("throws CONFIG_NOT_FOUND for a missing file", async () => {
+      await expect(loadRepoConfig(repo, { config: join(dir, "missing.yml") })).rejects.toMatchObject({
+        code: "CONFIG_NOT_FOUND",
+      });
+    });
+  });
+});
+
+describe("role inheritance and fragments", () => {
+  function rolesOf(team: unknown) {
+    return validateRepoConfig({ team });
+  }
+
+  it("merges parent instructions, included fragments and own text in order", () => {
+    const { config, issues } = rolesOf({
+      fragments: {
+        testing: "Add tests for every change.\n",
+        commits: "Write small commits.",
+      },
+      roles: {
+        base: { description: "Base", instructions: "Be kind.\n", include: ["commits"] },
+        engineer: { extends: "base", include: ["testing", "commits"], instructions: "Ship features." },
+      },
+    });
+
+    expect(issues).toEqual([]);
+    expect(config.team?.roles.base.instructions).toBe("Write small commits.\n\nBe kind.");
+    expect(config.team?.roles.engineer).toEqual({
+      description: "Base",
+      instructions: "Write small commits.\n\nBe kind.\n\nAdd tests for every change.\n\nShip features.",
+    });
+  });
+
+  it("lets a role override the inherited description", () => {
+    const { config } = rolesOf({
+      roles: {
+        base: { description: "Base", instructions: "Be kind." },
+        reviewer: { extends: "base", description: "Reviews PRs" },
+      },
+    });
+
+    expect(config.team?.roles.reviewer).toEqual({ description: "Reviews PRs", instructions: "Be kind." });
+  });
+
+  it("builds a role from fragments alone", () => {
+    const { config, issues } = rolesOf({
+      fragments: { testing: "Add tests." },
+      roles: { qa: { description: "QA", include: ["testing"] } },
+    });
+
+    expect(issues).toEqual([]);
+    expect(config.team?.roles.qa.instructions).toBe("Add tests.");
+  });
+
+  it("reports merged instructions over the length limit", () => {
+    const half = "x".repeat(6_000);
+    const { config, issues } = rolesOf({
+      fragments: { long: half },
+      roles: {
+        base: { description: "Base", instructions: half },
+        engineer: { extends: "base", include: ["long"] },
+      },
+    });
+
+    expect(issues).toEqual([
+      {
+        path: "team.roles.engineer.instructions",
+        message: 'role "engineer" instructions exceeds 10000 characters after merging extends and include (12002)',
+      },
+    ]);
+    expect(Object.keys(config.team?.roles ?? {})).toEqual(["base"]);
+  });
+
+  it("reports unknown roles and fragments", () => {
+    const { issues } = rolesOf({
+      fragments: { testing: "Add tests." },
+      roles: {
+        engineer: { description: "E", instructions: "Build.", include: ["testing", "linting"] },
+        reviewer: { extends: "lead", instructions: "Review." },
+      },
+    });
+
+    expect(issues).toEqual([
+      { path: "team.roles.engineer.include[1]", message: 'role "engineer" includes unknown fragment "linting"' },
+      { path: "team.roles.reviewer.extends", message: 'role "reviewer" extends unknown role "lead"' },
+    ]);
+  });
+
+  it("reports an extends cycle once", () => {
+    const { config, issues } = rolesOf({
+      roles: {
+        a: { description: "A", instructions: "A.", extends: "b" },
+        b: { description: "B", instructions: "B.", extends: "c" },
+        c: { description: "C", instructions: "C.", extends: "a" },
+        d: { description: "D", instructions: "D." },
+      },
+    });
+
+    expect(issues).toEqual([
+      { path: "team.roles.c.extends", message: 'role "c" has an extends cycle: a → b → c → a' },
+    ]);
+    expect(Object.keys(config.team?.roles ?? {})).toEqual(["d"]);
+  });
+
+  it("reports a role extending itself", () => {
+    const { issues } = rolesOf({
+      roles: { a: { description: "A", instructions: "A.", extends: "a" } },
+    });
+
+    expect(issues).toEqual([{ path: "team.roles.a.extends", message: 'role "a" has an extends cycle: a → a' }]);
+  });
+
+  it("reports missing instructions when nothing in the chain provides them", () => {
+    const { issues } = rolesOf({
+      roles: {
+        base: { description: "Base", include: [] },
+        engineer: { extends: "base" },
+      },
+    });
+
+    expect(issues.map((i) => i.message)).toEqual([
+      'role "base" is missing instructions',
+      'role "engineer" is missing instructions',
+    ]);
+  });
+
+  it("validates fragment names and values", () => {
+    const { issues } = rolesOf({
+      fragments: { Testing: "x", empty: "", long: "x".repeat(10_001) },
+      roles: { engineer: { description: "E", instructions: "Build." } },
+    });
+
+    expect(issues.map((i) => i.path)).toEqual(["team.fragments.Testing", "team.fragments.empty", "team.fragments.long"]);
+  });
+});
+
+describe("instructionsFile and onboardingFile", () => {
+  const fileYaml = yaml.dump({
+    team: {
+      onboardingFile: "docs/onboarding.md",
+      roles: {
+        reviewer: { description: "Reviews PRs", instructionsFile: ".agent/roles/reviewer.md" },
+      },
+    },
+  });
+
+  function serveFiles(files: Record<string, string>) {
+    mockedGh.mockImplementation(async (args: string[]) => {
+      const path = args[1].replace(/^repos\/hivemoot\/test-repo\/contents\//, "").replace(/\?.*$/, "");
+      if (!(path in files)) throw new CliError("HTTP 404: Not Found", "GH_ERROR");
+      return encode(files[path]);
+    });
+  }
+
+  it("fetches referenced files from the repo", async () => {
+    serveFiles({
+      ".github/hivemoot.yml": fileYaml,
+      "docs/onboarding.md": "# Welcome\n",
+      ".agent/roles/reviewer.md": "Be picky.\n",
+    });
+
+    const team = await loadTeamConfig(repo);
+
+    expect(team.onboarding).toBe("# Welcome\n");
+    expect(team.onboardingFile).toBe("docs/onboarding.md");
+    expect(team.roles.reviewer).toEqual({
+      description: "Reviews PRs",
+      instructions: "Be picky.\n",
+      instructionsFile: ".agent/roles/reviewer.md",
+      source: "repo",
+    });
+  });
+
+  it("fetches referenced files from the --config-ref", async () => {
+    serveFiles({
+      ".github/hivemoot.yml": fileYaml,
+      "docs/onboarding.md": "Hi",
+      ".agent/roles/reviewer.md": "Review.",
+    });
+
+    await loadTeamConfig(repo, { configRef: "feature" });
+
+    expect(mockedGh).toHaveBeenCalledWith(["api", "repos/hivemoot/test-repo/contents/.agent/roles/reviewer.md?ref=feature"]);
+    expect(mockedGh).toHaveBeenCalledWith(["api", "repos/hivemoot/test-repo/contents/docs/onboarding.md?ref=feature"]);
+  });
+
+  it("reports a missing file", async () => {
+    serveFiles({ ".github/hivemoot.yml": fileYaml, "docs/onboarding.md": "Hi" });
+
+    await expect(loadTeamConfig(repo)).rejects.toMatchObject({
+      code: "INVALID_CONFIG",
+      message: 'Config error: role "reviewer" instructionsFile ".agent/roles/reviewer.md" does not exist',
+    });
+  });
+
+  it("applies the length limits to file contents", () => {
+    const files = new Map([
+      ["onboarding.md", "o".repeat(10_001)],
+      ["reviewer.md", "i".repeat(10_001)],
+      ["empty.md", ""],
+    ]);
+    const { issues } = validateRepoConfig({
+      team: {
+        onboardingFile: "onboarding.md",
+        roles: {
+          reviewer: { description: "R", instructionsFile: "reviewer.md" },
+          qa: { description: "Q", instructionsFile: "empty.md" },
+        },
+      },
+    }, files);
+
+    expect(issues).toEqual([
+      { path: "team.onboardingFile", message: "team.onboardingFile exceeds 10000 characters" },
+      { path: "team.roles.reviewer.instructionsFile", message: 'role "reviewer" instructionsFile exceeds 10000 characters' },
+      { path: "team.roles.qa.instructionsFile", message: 'role "qa" is missing instructions' },
+    ]);
+  });
+
+  it("rejects paths outside the repo and conflicting keys", () => {
+    const { issues } = validateRepoConfig({
+      team: {
+        onboarding: "Hi",
+        onboardingFile: "onboarding.md",
+        roles: {
+          a: { description: "A", instructionsFile: "../secrets.md" },
+          b: { description: "B", instructions: "B.", instructionsFile: "b.md" },
+        },
+      },
+    });
+
+    expect(issues.map((i) => i.message)).toEqual([
+      "team sets both onboarding and onboardingFile",
+      "team.roles.a.instructionsFile must be a relative path inside the repo",
+      'role "b" sets both instructions and instructionsFile',
+    ]);
+  });
+
+  describe("with a local --config file", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "hivemoot-files-"));
+      await mkdir(join(dir, ".github"));
+      await mkdir(join(dir, ".agent/roles"), { recursive: true });
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("reads referenced files relative to the repo root", async () => {
+      await writeFile(join(dir, ".github/hivemoot.yml"), yaml.dump({
+        team: { roles: { reviewer: { description: "R", instructionsFile: ".agent/roles/reviewer.md" } } },
+      }));
+      await writeFile(join(dir, ".agent/roles/reviewer.md"), "Local review rules.");
+
+      const team = await loadTeamConfig(undefined, { config: join(dir, ".github/hivemoot.yml") });
+
+      expect(team.roles.reviewer.instructions).toBe("Local review rules.");
+      expect(mockedGh).not.toHaveBeenCalled();
+    });
+
+    it("resolves to undefined for missing files", async () => {
+      const read = localFileReader(join(dir, ".github/hivemoot.yml"));
+
+      expect(await read(".agent/roles/missing.md")).toBeUndefined();
+    });
+  });
+});
+
+describe("org default config", () => {
+  const orgYaml = yaml.dump({
+    governance: { pr: { staleDays: 7, maxPRsPerIssue: 2 } },
+    team: {
+      onboarding: "Org onboarding.",
+      fragments: { testing: "Add tests." },
+      roles: {
+        engineer: { description: "Org engineer", instructions: "Org rules." },
+        reviewer: { description: "Org reviewer", instructionsFile: "roles/reviewer.md" },
+      },
+    },
+  });
+
+  function serve(files: Record<string, string>) {
+    mockedGh.mockImplementation(async (args: string[]) => {
+      const path = args[1].replace(/^repos\//, "").replace(/\?.*$/, "");
+      if (!(path in files)) throw new CliError("HTTP 404: Not Found", "GH_ERROR");
+      return encode(files[path]);
+    });
+  }
+
+  it("deep-merges the repo config over the org's .github repo config", async () => {
+    serve({
+      "hivemoot/.github/contents/.github/hivemoot.yml": orgYaml,
+      "hivemoot/.github/contents/roles/reviewer.md": "Org review rules.",
+      "hivemoot/test-repo/contents/.github/hivemoot.yml": yaml.dump({
+        governance: { pr: { staleDays: 5 } },
+        team: {
+          onboarding: "Repo onboarding.",
+          roles: {
+            engineer: { description: "Repo engineer", include: ["testing"] },
+            qa: { extends: "reviewer", description: "QA" },
+          },
+        },
+      }),
+    });
+
+    const config = await loadRepoConfig(repo);
+
+    expect(config.governance.pr).toEqual({ staleDays: 5, maxPRsPerIssue: 2 });
+    expect(config.team?.onboarding).toBe("Repo onboarding.");
+    expect(config.team?.roles).toEqual({
+      engineer: { description: "Repo engineer", instructions: "Add tests.", source: "repo" },
+      reviewer: {
+        description: "Org reviewer",
+        instructions: "Org review rules.",
+        instructionsFile: "hivemoot/.github:roles/reviewer.md",
+        source: "org",
+      },
+      qa: { description: "QA", instructions: "Org review rules.", source: "repo" },
+    });
+  });
+
+  it("falls back to the org config when the repo has none", async () => {
+    serve({
+      "hivemoot/.github/contents/.github/hivemoot.yml": orgYaml,
+      "hivemoot/.github/contents/roles/reviewer.md": "Org review rules.",
+    });
+
+    const team = await loadTeamConfig(repo);
+
+    expect(team.onboarding).toBe("Org onboarding.");
+    expect(Object.values(team.roles).map((r) => r.source)).toEqual(["org", "org"]);
+  });
+
+  it("lets repo onboardingFile replace org onboarding", async () => {
+    serve({
+      "hivemoot/.github/contents/.github/hivemoot.yml": orgYaml,
+      "hivemoot/.github/contents/roles/reviewer.md": "Org review rules.",
+      "hivemoot/test-repo/contents/.github/hivemoot.yml": yaml.dump({ team: { onboardingFile: "ONBOARDING.md" } }),
+      "hivemoot/test-repo/contents/ONBOARDING.md": "Repo file onboarding.",
+    });
+
+    const team = await loadTeamConfig(repo);
+
+    expect(team.onboarding).toBe("Repo file onboarding.");
+    expect(team.onboardingFile).toBe("ONBOARDING.md");
+  });
+
+  it("does not look for an org config when loading the .github repo itself", async () => {
+    serve({ "hivemoot/.github/contents/.github/hivemoot.yml": orgYaml, "hivemoot/.github/contents/roles/reviewer.md": "R" });
+
+    await loadTeamConfig({ owner: "hivemoot", repo: ".github" });
+
+    expect(mockedGh).toHaveBeenCalledTimes(2);
+  });
+
+  const repoYaml = yaml.dump({ version: 1, team: { roles: { engineer: { description: "E", instructions: "Build." } } } });
+
+  it("loads the repo config alone when the org has no .github repo", async () => {
+    serve({ "hivemoot/test-repo/contents/.github/hivemoot.yml": repoYaml });
+
+    const config = await loadRepoConfig(repo);
+
+    expect(Object.keys(config.team?.roles ?? {})).toEqual(["engineer"]);
+    expect(config.team?.roles.engineer.source).toBe("repo");
+    expect(config.warnings).toBeUndefined();
+  });
+
+  it("fails when the org .github repo cannot be read", async () => {
+    mockedGh.mockImplementation(async (args: string[]) => {
+      if (args[1].startsWith("repos/hivemoot/.github/")) {
+        throw new CliError("Resource protected by organization SAML enforcement. (HTTP 403)", "GH_SSO_REQUIRED", 2);
+      }
+      return encode(repoYaml);
+    });
+
+    await expect(loadRepoConfig(repo)).rejects.toMatchObject({
+      code: "GH_SSO_REQUIRED",
+      exitCode: 2,
+      message: "Cannot read org defaults from hivemoot/.github: Resource protected by organization SAML enforcement. (HTTP 403)",
+    });
+  });
+
+  it("reports a network failure on the org config as a CliError", async () => {
+    mockedGh.mockImplementation(async (args: string[]) => {
+      if (args[1].startsWith("repos/hivemoot/.github/")) throw new Error("connect ECONNRESET");
+      return encode(repoYaml);
+    });
+
+    const err = await loadRepoConfig(repo).catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(CliError);
+    expect(err).toMatchObject({ code: "GH_ERROR", message: "Cannot read org defaults from hivemoot/.github: connect ECONNRESET" });
+  });
+
+  it("does not fall back to the org config when --config-ref has no repo config", async () => {
+    serve({ "hivemoot/.github/contents/.github/hivemoot.yml": orgYaml, "hivemoot/.github/contents/roles/reviewer.md": "R" });
+
+    await expect(loadRepoConfig(repo, { configRef: "feature" })).rejects.toMatchObject({
+      code: "CONFIG_NOT_FOUND",
+      message: expect.stringContaining("at ref 'feature'"),
+    });
+  });
+
+  it("still fails when the repo's own config cannot be read", async () => {
+    mockedGh.mockImplementation(async (args: string[]) => {
+      if (args[1].startsWith("repos/hivemoot/.github/")) throw new CliError("HTTP 404: Not Found", "GH_ERROR");
+      throw new CliError("HTTP 403: Forbidden", "GH_ERROR");
+    });
+
+    await expect(loadRepoConfig(repo)).rejects.toThrow("HTTP 403: Forbidden");
+  });
+
+  it("names the org config in YAML errors", async () => {
+    serve({ "hivemoot/.github/contents/.github/hivemoot.yml": "team: [" });
+
+    await expect(loadRepoConfig(repo)).rejects.toMatchObject({
+      code: "INVALID_CONFIG",
+      message: expect.stringContaining("invalid YAML in hivemoot/.github:.github/hivemoot.yml"),
+    });
+  });
+});
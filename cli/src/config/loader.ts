@@ -1,167 +1,813 @@
+import { readFile } from "node:fs/promises";
+import { basename, dirname, join, resolve as resolvePath } from "node:path";
 import yaml from "js-yaml";
 import { gh } from "../github/client.js";
-import type { HivemootConfig, TeamConfig, RepoRef, RoleConfig } from "./types.js";
-import { CliError } from "./types.js";
+import type {
+  ConfigIssue,
+  ConfigSource,
+  GovernanceConfig,
+  GovernanceLabelKey,
+  GovernanceLabels,
+  PhaseConfig,
+  PhaseExit,
+  RepoConfig,
+  RepoRef,
+  RoleConfig,
+  TeamConfig,
+} from "./types.js";
+import { CliError, DEFAULT_GOVERNANCE_LABELS } from "./types.js";
+import { DEFAULT_GOVERNANCE } from "./defaults.js";
+import { parseYaml, type ParsedYaml } from "./yaml.js";
+import { TEMPLATE_VARIABLES, unknownTemplateVariables } from "./template.js";
 
-const ROLE_SLUG_RE = /^[a-z][a-z0-9_]{0,49}$/;
-const MAX_DESCRIPTION_LENGTH = 500;
-const MAX_INSTRUCTIONS_LENGTH = 10_000;
-const MAX_ONBOARDING_LENGTH = 10_000;
+// Shared with the JSON Schema (schema.ts), so the two can't drift apart
+export const ROLE_SLUG_RE = /^[a-z][a-z0-9_]{0,49}$/;
+export const GITHUB_LOGIN_RE = /^[A-Za-z\d][A-Za-z\d-]{0,38}(?:\[bot\])?$/;  // users and app bots
+export const REPO_PATH_RE = /^(?!\/)(?!(?:.*\/)?\.\.(?:\/|$)).+$/;  // relative, no ".." segments
+export const MAX_DESCRIPTION_LENGTH = 500;
+export const MAX_INSTRUCTIONS_LENGTH = 10_000;
+export const MAX_ONBOARDING_LENGTH = 10_000;
 
-function validateTeamConfig(raw: HivemootConfig): TeamConfig {
-  if (!raw.team) {
-    throw new CliError(
-      "No team config in .github/hivemoot.yml. Run: hivemoot init",
-      "NO_TEAM_CONFIG",
-      1,
-    );
+/** The hivemoot.yml format this CLI writes; `hivemoot config migrate` upgrades older files. */
+export const CONFIG_VERSION = 1;
+
+function report(issues: ConfigIssue[], path: string, problem: string): void {
+  issues.push({ path, message: `${path} ${problem}` });
+}
+
+function configError(issue: ConfigIssue): CliError {
+  return new CliError(`Config error: ${issue.message}`, "INVALID_CONFIG", 1);
+}
+
+function checkTemplate(text: string, path: string, issues: ConfigIssue[]): void {
+  for (const name of unknownTemplateVariables(text)) {
+    report(issues, path, `uses unknown template variable "{{${name}}}" (known: ${TEMPLATE_VARIABLES.join(", ")})`);
   }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** File contents by repo path; undefined marks a file that does not exist. */
+type ConfigFiles = ReadonlyMap<string, string | undefined>;
+
+/** Reads a repo file referenced by the config, resolving to undefined when it does not exist. */
+export type ReadRepoFile = (path: string) => Promise<string | undefined>;
+
+function isRepoPath(value: unknown): value is string {
+  return typeof value === "string" && REPO_PATH_RE.test(value);
+}
+
+/** Paths of the files a parsed hivemoot.yml pulls text from (onboardingFile, instructionsFile). */
+export function referencedFiles(raw: unknown): string[] {
+  const team = isObject(raw) && isObject(raw.team) ? raw.team : {};
+  const roles = isObject(team.roles) ? Object.values(team.roles) : [];
+  const paths = [team.onboardingFile, ...roles.map((role) => (isObject(role) ? role.instructionsFile : undefined))];
+  return [...new Set(paths.filter(isRepoPath))];
+}
+
+async function readReferencedFiles(raw: unknown, read: ReadRepoFile): Promise<ConfigFiles> {
+  const paths = referencedFiles(raw);
+  const contents = await Promise.all(paths.map(read));
+  return new Map(paths.map((path, i) => [path, contents[i]]));
+}
+
+/** An optional mapping; absent or null means "use defaults". */
+function optionalSection(value: unknown, path: string, issues: ConfigIssue[]): Record<string, unknown> {
+  if (value === undefined || value === null) return {};
+  if (!isObject(value)) {
+    report(issues, path, "must be a mapping");
+    return {};
+  }
+  return value;
+}
+
+function positiveInteger(value: unknown, path: string, fallback: number, issues: ConfigIssue[]): number {
+  if (value === undefined) return fallback;
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1) {
+    report(issues, path, `must be a positive integer (got ${JSON.stringify(value)})`);
+    return fallback;
+  }
+  return value;
+}
+
+function validatePhaseExit(raw: unknown, path: string, issues: ConfigIssue[]): PhaseExit | undefined {
+  if (!isObject(raw)) {
+    report(issues, path, "must be a mapping");
+    return undefined;
+  }
+  if (raw.type !== "auto" && raw.type !== "manual") {
+    report(issues, `${path}.type`, `must be "auto" or "manual" (got ${JSON.stringify(raw.type)})`);
+    return undefined;
+  }
+  if (raw.type === "manual") {
+    if (raw.afterMinutes !== undefined) report(issues, `${path}.afterMinutes`, "only applies to auto exits");
+    return { type: "manual" };
+  }
+  if (raw.afterMinutes === undefined) {
+    report(issues, `${path}.afterMinutes`, "is required for auto exits");
+    return undefined;
+  }
+  return { type: "auto", afterMinutes: positiveInteger(raw.afterMinutes, `${path}.afterMinutes`, 0, issues) };
+}
+
+function validatePhase(raw: unknown, path: string, fallback: PhaseConfig, issues: ConfigIssue[]): PhaseConfig {
+  const phase = optionalSection(raw, path, issues);
+  if (phase.exits === undefined) return fallback;
+  if (!Array.isArray(phase.exits) || phase.exits.length === 0) {
+    report(issues, `${path}.exits`, "must be a non-empty list");
+    return fallback;
+  }
+  const exits = phase.exits
+    .map((exit, i) => validatePhaseExit(exit, `${path}.exits[${i}]`, issues))
+    .filter((exit): exit is PhaseExit => exit !== undefined);
+  return exits.length > 0 ? { exits } : fallback;
+}
+
+function collectGovernance(raw: unknown, issues: ConfigIssue[]): GovernanceConfig {
+  const governance = optionalSection(raw, "governance", issues);
+  const proposals = optionalSection(governance.proposals, "governance.proposals", issues);
+  const pr = optionalSection(governance.pr, "governance.pr", issues);
+
+  return {
+    proposals: {
+      discussion: validatePhase(
+        proposals.discussion,
+        "governance.proposals.discussion",
+        DEFAULT_GOVERNANCE.proposals.discussion,
+        issues,
+      ),
+      voting: validatePhase(
+        proposals.voting,
+        "governance.proposals.voting",
+        DEFAULT_GOVERNANCE.proposals.voting,
+        issues,
+      ),
+    },
+    pr: {
+      staleDays: positiveInteger(pr.staleDays, "governance.pr.staleDays", DEFAULT_GOVERNANCE.pr.staleDays, issues),
+      maxPRsPerIssue: positiveInteger(
+        pr.maxPRsPerIssue,
+        "governance.pr.maxPRsPerIssue",
+        DEFAULT_GOVERNANCE.pr.maxPRsPerIssue,
+        issues,
+      ),
+    },
+  };
+}
+
+/** Validate the governance block, filling omitted settings from DEFAULT_GOVERNANCE. */
+export function validateGovernanceConfig(raw: unknown): GovernanceConfig {
+  const issues: ConfigIssue[] = [];
+  const governance = collectGovernance(raw, issues);
+  if (issues.length > 0) throw configError(issues[0]);
+  return governance;
+}
 
-  const { team } = raw;
+/** `labels:` keys in hivemoot.yml, by governance key: READY_TO_IMPLEMENT is readyToImplement. */
+export const LABEL_CONFIG_KEYS = Object.fromEntries(
+  (Object.keys(DEFAULT_GOVERNANCE_LABELS) as GovernanceLabelKey[]).map((key) => [
+    key.toLowerCase().replace(/_([a-z])/g, (_, c: string) => c.toUpperCase()),
+    key,
+  ]),
+) as Record<string, GovernanceLabelKey>;
 
-  if (team.onboarding !== undefined) {
-    if (typeof team.onboarding !== "string") {
-      throw new CliError(
-        "Config error: team.onboarding must be a string",
-        "INVALID_CONFIG",
-        1,
-      );
+/** The `labels:` section; a mapped key replaces that key's default label names. */
+function collectLabels(raw: unknown, issues: ConfigIssue[]): GovernanceLabels {
+  const labels: Record<string, readonly string[]> = { ...DEFAULT_GOVERNANCE_LABELS };
+  for (const [name, value] of Object.entries(optionalSection(raw, "labels", issues))) {
+    const path = `labels.${name}`;
+    if (!Object.hasOwn(LABEL_CONFIG_KEYS, name)) {
+      report(issues, path, `is not a governance label (expected one of: ${Object.keys(LABEL_CONFIG_KEYS).join(", ")})`);
+      continue;
     }
+    const names = typeof value === "string" ? [value] : value;
+    if (
+      !Array.isArray(names) ||
+      names.length === 0 ||
+      !names.every((label) => typeof label === "string" && label.trim() !== "")
+    ) {
+      report(issues, path, "must be a label name or a non-empty list of label names");
+      continue;
+    }
+    labels[LABEL_CONFIG_KEYS[name]] = names as string[];
+  }
+  return labels as GovernanceLabels;
+}
 
-    if (team.onboarding.length > MAX_ONBOARDING_LENGTH) {
-      throw new CliError(
-        `Config error: team.onboarding exceeds ${MAX_ONBOARDING_LENGTH} characters`,
-        "INVALID_CONFIG",
-        1,
-      );
+/** A role as written, before `extends` and `include` are resolved. */
+interface RoleSource {
+  description?: string;
+  instructions?: string;      // read from instructionsFile when that is set
+  instructionsFile?: string;
+  extends?: string;
+  include: string[];
+}
+
+function collectFragments(raw: unknown, issues: ConfigIssue[]): Record<string, string> {
+  const fragments: Record<string, string> = {};
+  for (const [name, text] of Object.entries(optionalSection(raw, "team.fragments", issues))) {
+    const path = `team.fragments.${name}`;
+    if (!ROLE_SLUG_RE.test(name)) {
+      issues.push({ path, message: `invalid fragment name "${name}" — must match ${ROLE_SLUG_RE}` });
+    } else if (typeof text !== "string" || text.length === 0) {
+      report(issues, path, "must be a non-empty string");
+    } else if (text.length > MAX_INSTRUCTIONS_LENGTH) {
+      report(issues, path, `exceeds ${MAX_INSTRUCTIONS_LENGTH} characters`);
+    } else {
+      checkTemplate(text, path, issues);
+      fragments[name] = text;
     }
   }
+  return fragments;
+}
 
-  if (!team.roles || typeof team.roles !== "object" || Object.keys(team.roles).length === 0) {
-    throw new CliError(
-      "Config error: team.roles must contain at least one role",
-      "INVALID_CONFIG",
-      1,
-    );
+function collectRole(
+  slug: string,
+  raw: unknown,
+  fragments: Record<string, string>,
+  files: ConfigFiles,
+  issues: ConfigIssue[],
+): RoleSource | undefined {
+  const path = `team.roles.${slug}`;
+  let valid = true;
+  const fail = (at: string, message: string): void => {
+    issues.push({ path: at, message });
+    valid = false;
+  };
+
+  if (!ROLE_SLUG_RE.test(slug)) {
+    fail(path, `invalid role slug "${slug}" — must match ${ROLE_SLUG_RE}`);
   }
 
-  const validatedRoles: Record<string, RoleConfig> = {};
+  if (!isObject(raw)) {
+    fail(path, `role "${slug}" must be an object`);
+    return undefined;
+  }
 
-  for (const [slug, role] of Object.entries(team.roles)) {
-    if (!ROLE_SLUG_RE.test(slug)) {
-      throw new CliError(
-        `Config error: invalid role slug "${slug}" — must match /^[a-z][a-z0-9_]{0,49}$/`,
-        "INVALID_CONFIG",
-        1,
-      );
+  // Both may come from the extended role or fragments instead; in that case
+  // presence is checked once resolved
+  if (raw.description !== undefined || raw.extends === undefined) {
+    if (typeof raw.description !== "string" || raw.description.length === 0) {
+      fail(`${path}.description`, `role "${slug}" is missing a description`);
+    } else if (raw.description.length > MAX_DESCRIPTION_LENGTH) {
+      fail(`${path}.description`, `role "${slug}" description exceeds ${MAX_DESCRIPTION_LENGTH} characters`);
     }
+  }
 
-    if (typeof role !== "object" || role === null) {
-      throw new CliError(
-        `Config error: role "${slug}" must be an object`,
-        "INVALID_CONFIG",
-        1,
-      );
+  let instructions = raw.instructions;
+  const field = raw.instructionsFile !== undefined ? "instructionsFile" : "instructions";
+  if (raw.instructionsFile !== undefined) {
+    const file = raw.instructionsFile;
+    if (raw.instructions !== undefined) {
+      fail(`${path}.instructionsFile`, `role "${slug}" sets both instructions and instructionsFile`);
+    } else if (!isRepoPath(file)) {
+      fail(`${path}.instructionsFile`, `${path}.instructionsFile must be a relative path inside the repo`);
+    } else if (files.get(file) === undefined) {
+      fail(`${path}.instructionsFile`, `role "${slug}" instructionsFile "${file}" does not exist`);
+    } else {
+      instructions = files.get(file);
     }
+  }
 
-    const r = role as unknown as Record<string, unknown>;
+  if (
+    instructions !== undefined ||
+    (raw.instructionsFile === undefined && raw.extends === undefined && raw.include === undefined)
+  ) {
+    if (typeof instructions !== "string" || instructions.length === 0) {
+      fail(`${path}.${field}`, `role "${slug}" is missing instructions`);
+    } else if (instructions.length > MAX_INSTRUCTIONS_LENGTH) {
+      fail(`${path}.${field}`, `role "${slug}" ${field} exceeds ${MAX_INSTRUCTIONS_LENGTH} characters`);
+    } else {
+      checkTemplate(instructions, `${path}.${field}`, issues);
+    }
+  }
 
-    if (typeof r.description !== "string" || r.description.length === 0) {
-      throw new CliError(
-        `Config error: role "${slug}" is missing a description`,
-        "INVALID_CONFIG",
-        1,
-      );
+  if (raw.extends !== undefined && typeof raw.extends !== "string") {
+    fail(`${path}.extends`, `${path}.extends must be a role name`);
+  }
+
+  const include: string[] = [];
+  if (raw.include !== undefined) {
+    if (!Array.isArray(raw.include)) {
+      fail(`${path}.include`, `${path}.include must be a list of fragment names`);
+    } else {
+      raw.include.forEach((name: unknown, i) => {
+        if (typeof name !== "string" || !Object.hasOwn(fragments, name)) {
+          fail(`${path}.include[${i}]`, `role "${slug}" includes unknown fragment ${JSON.stringify(name)}`);
+        } else {
+          include.push(name);
+        }
+      });
     }
+  }
 
-    if (r.description.length > MAX_DESCRIPTION_LENGTH) {
-      throw new CliError(
-        `Config error: role "${slug}" description exceeds ${MAX_DESCRIPTION_LENGTH} characters`,
-        "INVALID_CONFIG",
-        1,
-      );
+  if (!valid) return undefined;
+  return {
+    description: raw.description as string | undefined,
+    instructions: instructions as string | undefined,
+    instructionsFile: raw.instructionsFile as string | undefined,
+    extends: raw.extends as string | undefined,
+    include,
+  };
+}
+
+interface ResolvedRole {
+  description?: string;
+  instructionsFile?: string;
+  parts: string[];          // instruction blocks, ancestors' first
+  included: Set<string>;    // fragments already in `parts`
+}
+
+/**
+ * Resolve `extends` chains and `include`d fragments into plain roles. A role
+ * inherits its parent's description unless it sets its own, and its
+ * instructions are the parent's, then its fragments, then its own text.
+ */
+function resolveRoles(
+  declared: string[],
+  sources: Record<string, RoleSource>,
+  fragments: Record<string, string>,
+  issues: ConfigIssue[],
+): Record<string, RoleConfig> {
+  const done = new Map<string, ResolvedRole | undefined>();
+  const resolving: string[] = [];
+
+  const resolve = (slug: string): ResolvedRole | undefined => {
+    if (done.has(slug)) return done.get(slug);
+    const cycleStart = resolving.indexOf(slug);
+    if (cycleStart !== -1) {
+      const closing = resolving[resolving.length - 1];
+      issues.push({
+        path: `team.roles.${closing}.extends`,
+        message: `role "${closing}" has an extends cycle: ${[...resolving.slice(cycleStart), slug].join(" → ")}`,
+      });
+      return undefined;
     }
 
-    if (typeof r.instructions !== "string" || r.instructions.length === 0) {
-      throw new CliError(
-        `Config error: role "${slug}" is missing instructions`,
-        "INVALID_CONFIG",
-        1,
-      );
+    const source = sources[slug];
+    let resolved: ResolvedRole | undefined = { parts: [], included: new Set() };
+    resolving.push(slug);
+    if (source.extends !== undefined) {
+      if (!declared.includes(source.extends)) {
+        issues.push({
+          path: `team.roles.${slug}.extends`,
+          message: `role "${slug}" extends unknown role "${source.extends}"`,
+        });
+        resolved = undefined;
+      } else {
+        // A parent that is itself invalid has already been reported
+        const parent = Object.hasOwn(sources, source.extends) ? resolve(source.extends) : undefined;
+        resolved = parent && { ...parent, parts: [...parent.parts], included: new Set(parent.included) };
+      }
     }
+    resolving.pop();
 
-    if (r.instructions.length > MAX_INSTRUCTIONS_LENGTH) {
-      throw new CliError(
-        `Config error: role "${slug}" instructions exceeds ${MAX_INSTRUCTIONS_LENGTH} characters`,
-        "INVALID_CONFIG",
-        1,
-      );
+    if (resolved) {
+      for (const name of source.include) {
+        if (resolved.included.has(name)) continue;
+        resolved.included.add(name);
+        resolved.parts.push(fragments[name]);
+      }
+      if (source.instructions !== undefined) resolved.parts.push(source.instructions);
+      resolved.instructionsFile = source.instructionsFile;
+      if (source.description !== undefined) resolved.description = source.description;
     }
+    done.set(slug, resolved);
+    return resolved;
+  };
 
-    validatedRoles[slug] = {
-      description: r.description,
-      instructions: r.instructions,
+  const roles: Record<string, RoleConfig> = {};
+  for (const slug of Object.keys(sources)) {
+    const resolved = resolve(slug);
+    if (!resolved) continue;
+
+    const path = `team.roles.${slug}`;
+    if (resolved.description === undefined) {
+      issues.push({ path: `${path}.description`, message: `role "${slug}" is missing a description` });
+    }
+    if (resolved.parts.length === 0) {
+      issues.push({ path: `${path}.instructions`, message: `role "${slug}" is missing instructions` });
+    }
+    if (resolved.description === undefined || resolved.parts.length === 0) continue;
+
+    // A role written without extends or include keeps its text untouched
+    const instructions =
+      resolved.parts.length === 1
+        ? resolved.parts[0]
+        : resolved.parts.map((part) => part.trimEnd()).join("\n\n");
+    // Each part was checked on its own; the merged text must fit the same limit
+    if (instructions.length > MAX_INSTRUCTIONS_LENGTH) {
+      issues.push({
+        path: `${path}.instructions`,
+        message: `role "${slug}" instructions exceeds ${MAX_INSTRUCTIONS_LENGTH} characters after merging extends and include (${instructions.length})`,
+      });
+      continue;
+    }
+
+    roles[slug] = {
+      description: resolved.description,
+      instructions,
+      ...(resolved.instructionsFile !== undefined && { instructionsFile: resolved.instructionsFile }),
     };
   }
+  return roles;
+}
+
+function collectMembers(
+  raw: unknown,
+  roles: string[],
+  issues: ConfigIssue[],
+): Record<string, string[]> | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  const members: Record<string, string[]> = {};
+  for (const [login, value] of Object.entries(optionalSection(raw, "team.members", issues))) {
+    const path = `team.members.${login}`;
+    if (!GITHUB_LOGIN_RE.test(login)) {
+      issues.push({ path, message: `invalid GitHub login "${login}" in team.members` });
+      continue;
+    }
+    const names = typeof value === "string" ? [value] : value;
+    if (!Array.isArray(names) || names.length === 0 || !names.every((name) => typeof name === "string")) {
+      report(issues, path, "must be a role name or a non-empty list of role names");
+      continue;
+    }
+    names.forEach((name: string, i) => {
+      if (!roles.includes(name)) {
+        issues.push({
+          path: typeof value === "string" ? path : `${path}[${i}]`,
+          message: `member "${login}" has unknown role "${name}"`,
+        });
+      }
+    });
+    members[login] = [...new Set(names as string[])].filter((name) => roles.includes(name));
+  }
+  return members;
+}
+
+function collectTeam(raw: unknown, files: ConfigFiles, issues: ConfigIssue[]): TeamConfig {
+  const team = isObject(raw) ? raw : {};
+  if (!isObject(raw)) report(issues, "team", "must be a mapping");
+
+  let onboarding = team.onboarding;
+  const field = team.onboardingFile !== undefined ? "onboardingFile" : "onboarding";
+  if (team.onboardingFile !== undefined) {
+    const file = team.onboardingFile;
+    if (team.onboarding !== undefined) {
+      issues.push({ path: "team.onboardingFile", message: "team sets both onboarding and onboardingFile" });
+    } else if (!isRepoPath(file)) {
+      report(issues, "team.onboardingFile", "must be a relative path inside the repo");
+    } else if (files.get(file) === undefined) {
+      issues.push({ path: "team.onboardingFile", message: `team.onboardingFile "${file}" does not exist` });
+    } else {
+      onboarding = files.get(file);
+    }
+  }
+
+  if (onboarding !== undefined) {
+    if (typeof onboarding !== "string") {
+      issues.push({ path: `team.${field}`, message: `team.${field} must be a string` });
+      onboarding = undefined;
+    } else if (onboarding.length > MAX_ONBOARDING_LENGTH) {
+      issues.push({
+        path: `team.${field}`,
+        message: `team.${field} exceeds ${MAX_ONBOARDING_LENGTH} characters`,
+      });
+    } else {
+      checkTemplate(onboarding, `team.${field}`, issues);
+    }
+  }
+
+  const fragments = collectFragments(team.fragments, issues);
+
+  let validatedRoles: Record<string, RoleConfig> = {};
+  if (!isObject(team.roles) || Object.keys(team.roles).length === 0) {
+    issues.push({ path: "team.roles", message: "team.roles must contain at least one role" });
+  } else {
+    const sources: Record<string, RoleSource> = {};
+    for (const [slug, role] of Object.entries(team.roles)) {
+      const source = collectRole(slug, role, fragments, files, issues);
+      if (source) sources[slug] = source;
+    }
+    validatedRoles = resolveRoles(Object.keys(team.roles), sources, fragments, issues);
+  }
+  const members = collectMembers(team.members, isObject(team.roles) ? Object.keys(team.roles) : [], issues);
 
   return {
     name: typeof team.name === "string" ? team.name : undefined,
-    onboarding: typeof team.onboarding === "string" ? team.onboarding : undefined,
+    onboarding: onboarding as string | undefined,
+    ...(typeof team.onboardingFile === "string" && { onboardingFile: team.onboardingFile }),
     roles: validatedRoles,
+    ...(members && { members }),
   };
 }
 
-export async function loadTeamConfig(repo: RepoRef): Promise<TeamConfig> {
-  let rawJson: string;
+/**
+ * Validate a parsed hivemoot.yml, collecting every problem rather than
+ * stopping at the first. The governance and labels blocks are always
+ * validated; the team block only when present. `files` holds the contents of the files the
+ * config references (see referencedFiles). `config` is only usable when
+ * `issues` is empty.
+ */
+export function validateRepoConfig(
+  raw: unknown,
+  files: ConfigFiles = new Map(),
+): { config: RepoConfig; issues: ConfigIssue[] } {
+  const issues: ConfigIssue[] = [];
+  if (!isObject(raw)) {
+    issues.push({ path: "", message: ".github/hivemoot.yml must be a YAML object" });
+    return { config: { governance: DEFAULT_GOVERNANCE, labels: DEFAULT_GOVERNANCE_LABELS }, issues };
+  }
+
+  let version: number | undefined;
+  if (Number.isInteger(raw.version)) version = raw.version as number;
+  else if (raw.version !== undefined) report(issues, "version", "must be an integer");
+  const config: RepoConfig = {
+    version,
+    governance: collectGovernance(raw.governance, issues),
+    labels: collectLabels(raw.labels, issues),
+    team: raw.team === undefined || raw.team === null ? undefined : collectTeam(raw.team, files, issues),
+  };
+  // An invalid version is already an issue; don't also call it outdated
+  const warning = raw.version === undefined || version !== undefined ? versionWarning(version) : undefined;
+  if (warning) config.warnings = [warning];
+  return { config, issues };
+}
+
+function versionWarning(version: number | undefined): string | undefined {
+  if (version !== undefined && version >= CONFIG_VERSION) return undefined;
+  const state = version === undefined ? "sets no version" : `is on config version ${version}`;
+  return `.github/hivemoot.yml ${state} (current: ${CONFIG_VERSION}) — run: hivemoot config migrate`;
+}
 
+/**
+ * Validate hivemoot.yml source text, locating each problem by YAML line and
+ * column. A syntax error is the only problem reported, since nothing after it
+ * can be checked.
+ */
+async function validateSource(
+  content: string,
+  read: ReadRepoFile,
+): Promise<{ config?: RepoConfig; issues: ConfigIssue[] }> {
+  let parsed: ParsedYaml;
   try {
-    rawJson = await gh([
-      "api",
-      `repos/${repo.owner}/${repo.repo}/contents/.github/hivemoot.yml`,
-    ]);
+    parsed = parseYaml(content);
   } catch (err) {
-    if (err instanceof Error && /404|Not Found/i.test(err.message)) {
-      throw new CliError(
-        "No .github/hivemoot.yml found. Run: hivemoot init",
-        "CONFIG_NOT_FOUND",
-        1,
-      );
+    if (err instanceof yaml.YAMLException) {
+      return {
+        issues: [{
+          path: "",
+          message: `invalid YAML: ${err.reason}`,
+          line: err.mark.line + 1,
+          column: err.mark.column + 1,
+        }],
+      };
     }
     throw err;
   }
 
-  let content: string;
+  const { config, issues } = validateRepoConfig(parsed.value, await readReferencedFiles(parsed.value, read));
+  return { config, issues: issues.map((issue) => ({ ...issue, ...parsed.positionOf(issue.path) })) };
+}
+
+export async function validateConfigSource(content: string, read: ReadRepoFile): Promise<ConfigIssue[]> {
+  return (await validateSource(content, read)).issues;
+}
+
+/**
+ * Files referenced by a local config resolve against the repo root: the
+ * parent of the .github directory holding the config, else its own directory.
+ */
+export function localFileReader(configPath: string): ReadRepoFile {
+  const dir = dirname(resolvePath(configPath));
+  const root = basename(dir) === ".github" ? dirname(dir) : dir;
+  return async (path) => {
+    try {
+      return await readFile(join(root, path), "utf-8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw err;
+    }
+  };
+}
+
+export async function readConfigFile(path: string): Promise<string> {
+  try {
+    return await readFile(path, "utf-8");
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      throw new CliError(`No config file at ${path}. Run: hivemoot init`, "CONFIG_NOT_FOUND", 1);
+    }
+    throw err;
+  }
+}
+
+/** Read and validate a local hivemoot.yml, failing on its first problem. */
+export async function loadLocalConfig(path: string): Promise<RepoConfig> {
+  const { config, issues } = await validateSource(await readConfigFile(path), localFileReader(path));
+  if (issues.length > 0 || !config) {
+    const [issue] = issues;
+    throw new CliError(
+      `Config error: ${issue.message} (${path}:${issue.line}:${issue.column})`,
+      "INVALID_CONFIG",
+      1,
+    );
+  }
+  return config;
+}
+
+/** Read a file from the repo at `ref` (default branch when unset) through the contents API. */
+async function fetchRepoFile(repo: RepoRef, path: string, ref: string | undefined): Promise<string | undefined> {
+  const encoded = path.split("/").map(encodeURIComponent).join("/");
+  const endpoint = `repos/${repo.owner}/${repo.repo}/contents/${encoded}`;
+  let rawJson: string;
+
+  try {
+    rawJson = await gh(["api", ref ? `${endpoint}?ref=${encodeURIComponent(ref)}` : endpoint]);
+  } catch (err) {
+    if (err instanceof Error && /404|Not Found/i.test(err.message)) return undefined;
+    throw err;
+  }
+
   try {
     const parsed = JSON.parse(rawJson);
-    content = Buffer.from(parsed.content, "base64").toString("utf-8");
+    return Buffer.from(parsed.content, "base64").toString("utf-8");
   } catch (err) {
     const detail = err instanceof Error ? `: ${err.message}` : "";
     throw new CliError(
-      `Config error: failed to decode .github/hivemoot.yml content${detail}`,
+      `Config error: failed to decode ${path} content${detail}`,
       "INVALID_CONFIG",
       1,
     );
   }
+}
+
+const CONFIG_PATH = ".github/hivemoot.yml";
 
-  let config: HivemootConfig;
+// Org-wide defaults live in the org's .github repository, as for other GitHub bots
+const ORG_CONFIG_REPO = ".github";
+
+/**
+ * The org's default hivemoot.yml; undefined when the org has no .github repo
+ * or no config in it. Any other failure (auth, SSO, rate limit, network) is
+ * an error, so roles never silently go missing.
+ */
+async function fetchOrgConfig(orgRepo: RepoRef): Promise<string | undefined> {
   try {
-    config = yaml.load(content, { schema: yaml.JSON_SCHEMA }) as HivemootConfig;
+    return await fetchRepoFile(orgRepo, CONFIG_PATH, undefined);
+  } catch (err) {
+    const label = `${orgRepo.owner}/${orgRepo.repo}`;
+    if (err instanceof CliError) {
+      throw new CliError(`Cannot read org defaults from ${label}: ${err.message}`, err.code, err.exitCode, err.details);
+    }
+    const detail = err instanceof Error ? err.message : String(err);
+    throw new CliError(`Cannot read org defaults from ${label}: ${detail}`, "GH_ERROR", 1);
+  }
+}
+
+function parseConfigYaml(content: string, label: string): unknown {
+  try {
+    return yaml.load(content, { schema: yaml.JSON_SCHEMA });
   } catch (err) {
     const detail = err instanceof Error ? `: ${err.message}` : "";
     throw new CliError(
-      `Config error: invalid YAML in .github/hivemoot.yml${detail}`,
+      `Config error: invalid YAML in ${label}${detail}`,
       "INVALID_CONFIG",
       1,
     );
   }
+}
+
+/** Deep-merge mappings with `override` winning; lists and scalars are replaced whole. */
+function deepMerge(base: unknown, override: unknown): unknown {
+  if (!isObject(base) || !isObject(override)) return override === undefined ? base : override;
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = deepMerge(base[key], value);
+  }
+  return merged;
+}
 
-  if (typeof config !== "object" || config === null) {
+/**
+ * Layer a repo config over the org defaults. A repo role replaces the org
+ * role of the same name whole, and repo onboarding replaces org onboarding,
+ * so inline text and file keys from the two never mix.
+ */
+function mergeOrgConfig(org: unknown, repo: unknown): unknown {
+  const merged = deepMerge(org, repo);
+  if (!isObject(merged) || !isObject(merged.team) || !isObject(repo) || !isObject(repo.team)) return merged;
+
+  const orgTeam = isObject(org) && isObject(org.team) ? org.team : {};
+  const team: Record<string, unknown> = { ...merged.team };
+  if (isObject(orgTeam.roles) && isObject(repo.team.roles)) {
+    team.roles = { ...orgTeam.roles, ...repo.team.roles };
+  }
+  if (repo.team.onboarding !== undefined || repo.team.onboardingFile !== undefined) {
+    delete team.onboarding;
+    delete team.onboardingFile;
+    if (repo.team.onboarding !== undefined) team.onboarding = repo.team.onboarding;
+    if (repo.team.onboardingFile !== undefined) team.onboardingFile = repo.team.onboardingFile;
+  }
+  return { ...merged, team };
+}
+
+/**
+ * Prefix the files an org config references with its repo, so they are read
+ * from there (and reported as such) once merged with the repo config.
+ */
+function qualifyOrgFiles(raw: unknown, prefix: string): unknown {
+  if (!isObject(raw) || !isObject(raw.team)) return raw;
+  const qualify = (path: unknown): unknown => (isRepoPath(path) ? `${prefix}${path}` : path);
+
+  const team: Record<string, unknown> = { ...raw.team };
+  if (team.onboardingFile !== undefined) team.onboardingFile = qualify(team.onboardingFile);
+  if (isObject(team.roles)) {
+    team.roles = Object.fromEntries(
+      Object.entries(team.roles).map(([slug, role]) => [
+        slug,
+        isObject(role) && role.instructionsFile !== undefined
+          ? { ...role, instructionsFile: qualify(role.instructionsFile) }
+          : role,
+      ]),
+    );
+  }
+  return { ...raw, team };
+}
+
+/**
+ * Load and validate hivemoot.yml, failing on its first problem. It comes from
+ * the repo's default branch unless `source` names a ref or a local file, and
+ * is layered over the org's default config when the org has one. A local
+ * file is used as is.
+ */
+export async function loadRepoConfig(repo: RepoRef, source: ConfigSource = {}): Promise<RepoConfig> {
+  if (source.config) return loadLocalConfig(source.config);
+
+  const ref = source.configRef;
+  const orgRepo: RepoRef = { owner: repo.owner, repo: ORG_CONFIG_REPO };
+  const orgLabel = `${orgRepo.owner}/${orgRepo.repo}`;
+  const [content, orgContent] = await Promise.all([
+    fetchRepoFile(repo, CONFIG_PATH, ref),
+    repo.repo === ORG_CONFIG_REPO ? undefined : fetchOrgConfig(orgRepo),
+  ]);
+  // --config-ref asks for the repo's config at that ref; org defaults alone don't answer it
+  if (content === undefined && ref) {
     throw new CliError(
-      "Config error: .github/hivemoot.yml must be a YAML object",
-      "INVALID_CONFIG",
+      `No .github/hivemoot.yml found at ref '${ref}'. Check the branch or SHA passed to --config-ref`,
+      "CONFIG_NOT_FOUND",
       1,
     );
   }
+  if (content === undefined && orgContent === undefined) {
+    throw new CliError("No .github/hivemoot.yml found. Run: hivemoot init", "CONFIG_NOT_FOUND", 1);
+  }
+
+  const orgPrefix = `${orgLabel}:`;
+  const repoRaw = content === undefined ? undefined : parseConfigYaml(content, CONFIG_PATH);
+  const orgRaw =
+    orgContent === undefined
+      ? undefined
+      : qualifyOrgFiles(parseConfigYaml(orgContent, `${orgLabel}:${CONFIG_PATH}`), orgPrefix);
+  const raw = orgRaw === undefined ? repoRaw : repoRaw === undefined ? orgRaw : mergeOrgConfig(orgRaw, repoRaw);
+
+  // Referenced files come from the same repo and ref as the config naming them
+  const files = await readReferencedFiles(raw, (path) =>
+    path.startsWith(orgPrefix)
+      ? fetchRepoFile(orgRepo, path.slice(orgPrefix.length), undefined)
+      : fetchRepoFile(repo, path, ref),
+  );
+  const { config, issues } = validateRepoConfig(raw, files);
+  if (issues.length > 0) throw configError(issues[0]);
+
+  if (config.team) {
+    const repoTeam = isObject(repoRaw) && isObject(repoRaw.team) ? repoRaw.team : {};
+    for (const [slug, role] of Object.entries(config.team.roles)) {
+      role.source = isObject(repoTeam.roles) && Object.hasOwn(repoTeam.roles, slug) ? "repo" : "org";
+    }
+  }
+  return config;
+}
+
+export function requireTeamConfig(config: RepoConfig): TeamConfig {
+  if (!config.team) {
+    throw new CliError(
+      "No team config in .github/hivemoot.yml. Run: hivemoot init",
+      "NO_TEAM_CONFIG",
+      1,
+    );
+  }
+  return config.team;
+}
+
+/** hivemoot.yml from `source`. `repo` may be omitted when `source` names a local file. */
+export async function loadConfig(repo: RepoRef | undefined, source: ConfigSource = {}): Promise<RepoConfig> {
+  if (source.config) return loadLocalConfig(source.config);
+  if (!repo) throw new Error("loadConfig needs a repo unless reading a local config file");
+  return loadRepoConfig(repo, source);
+}
 
-  return validateTeamConfig(config);
+/** The team block. `repo` may be omitted when `source` names a local file. */
+export async function loadTeamConfig(repo: RepoRef | undefined, source: ConfigSource = {}): Promise<TeamConfig> {
+  return requireTeamConfig(await loadConfig(repo, source));
 }
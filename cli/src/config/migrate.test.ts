@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import yaml from "js-yaml";
+import { migrateConfigSource } from "./migrate.js";
+import { validateRepoConfig } from "./loader.js";
+
+// An unversioned file as written before version 1: the `hivemoot init`
+// header, the old governance key names, and labels keyed by phase:* name
+const legacy = `# Hivemoot team configuration
+# Place this file at .github/hivemoot.yml in your repository.
+
+team:
+  roles:
+    engineer:
+      description: "Software engineer focused on clean implementation"   # keep me
+      instructions: |
+        Build on existing conventions in the codebase.
+
+governance:
+  pr:
+    staleAfterDays: 5   # a week minus the weekend
+    maxCompetingPRs: 2
+
+labels:
+  "phase:voting": status/voting
+  phase:ready-to-implement: [status/ready, status/accepted]
+  hivemoot:merge-ready: state/approved
+`;
+
+describe("migrateConfigSource", () => {
+  it("renames legacy keys and adds the version, keeping comments and layout", () => {
+    const { content, changes, skipped } = migrateConfigSource(legacy);
+
+    expect(content).toBe(`# Hivemoot team configuration
+# Place this file at .github/hivemoot.yml in your repository.
+
+version: 1
+team:
+  roles:
+    engineer:
+      description: "Software engineer focused on clean implementation"   # keep me
+      instructions: |
+        Build on existing conventions in the codebase.
+
+governance:
+  pr:
+    staleDays: 5   # a week minus the weekend
+    maxPRsPerIssue: 2
+
+labels:
+  voting: status/voting
+  readyToImplement: [status/ready, status/accepted]
+  mergeReady: state/approved
+`);
+    expect(changes).toEqual([
+      "governance.pr.staleAfterDays → governance.pr.staleDays",
+      "governance.pr.maxCompetingPRs → governance.pr.maxPRsPerIssue",
+      "labels.phase:voting → labels.voting",
+      "labels.phase:ready-to-implement → labels.readyToImplement",
+      "labels.hivemoot:merge-ready → labels.mergeReady",
+      "version: 1 added",
+    ]);
+    expect(skipped).toEqual([]);
+  });
+
+  it("produces a config the loader accepts without warnings", () => {
+    const { config, issues } = validateRepoConfig(yaml.load(migrateConfigSource(legacy).content));
+
+    expect(issues).toEqual([]);
+    expect(config.warnings).toBeUndefined();
+    expect(config.governance.pr).toEqual({ staleDays: 5, maxPRsPerIssue: 2 });
+    expect(config.labels.VOTING).toEqual(["status/voting"]);
+    expect(config.labels.READY_TO_IMPLEMENT).toEqual(["status/ready", "status/accepted"]);
+  });
+
+  it("migrates a version 0 file and updates its version in place", () => {
+    const { content, changes } = migrateConfigSource(
+      "version: 0  # old\ngovernance:\n  pr:\n    staleAfterDays: 4\n",
+    );
+
+    expect(content).toBe("version: 1  # old\ngovernance:\n  pr:\n    staleDays: 4\n");
+    expect(changes).toEqual(["governance.pr.staleAfterDays → governance.pr.staleDays", "version 0 → 1"]);
+  });
+
+  it("only adds the version to an unversioned file with nothing to rename", () => {
+    const { content, changes } = migrateConfigSource("# Team\nteam:\n  roles: {}\n");
+
+    expect(content).toBe("# Team\nversion: 1\nteam:\n  roles: {}\n");
+    expect(changes).toEqual(["version: 1 added"]);
+  });
+
+  it("changes nothing in a config on the current version", () => {
+    const current = "version: 1\ngovernance:\n  pr:\n    staleDays: 5\n";
+
+    expect(migrateConfigSource(current)).toEqual({ content: current, changes: [], skipped: [] });
+  });
+
+  it("leaves a legacy key alone when its replacement is already set", () => {
+    const { content, changes, skipped } = migrateConfigSource(
+      "governance:\n  pr:\n    staleDays: 3\n    staleAfterDays: 5\n",
+    );
+
+    expect(content).toBe("version: 1\ngovernance:\n  pr:\n    staleDays: 3\n    staleAfterDays: 5\n");
+    expect(changes).toEqual(["version: 1 added"]);
+    expect(skipped).toEqual(["governance.pr.staleAfterDays: governance.pr.staleDays is already set"]);
+  });
+
+  it("leaves a flow mapping for the user to edit", () => {
+    const flow = "{team: {roles: {a: {description: d, instructions: i}}}}\n";
+
+    expect(migrateConfigSource(flow)).toEqual({
+      content: flow,
+      changes: [],
+      skipped: ["version: add version: 1 to the flow mapping by hand"],
+    });
+  });
+
+  it("does not guess at a version that is not an integer", () => {
+    const file = 'version: "1"\ngovernance:\n  pr:\n    staleAfterDays: 5\n';
+
+    expect(migrateConfigSource(file)).toEqual({
+      content: file,
+      changes: [],
+      skipped: ["version: must be an integer; set it by hand before migrating"],
+    });
+  });
+
+  it("rejects invalid YAML and non-mapping documents", () => {
+    expect(() => migrateConfigSource("team: [")).toThrow(/^Config error: invalid YAML/);
+    expect(() => migrateConfigSource("- a\n- b\n")).toThrow("Config error: .github/hivemoot.yml must be a YAML object");
+  });
+});
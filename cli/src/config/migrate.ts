@@ -0,0 +1,180 @@
+import { CliError, DEFAULT_GOVERNANCE_LABELS, type GovernanceLabelKey } from "./types.js";
+import { CONFIG_VERSION, LABEL_CONFIG_KEYS } from "./loader.js";
+import { parseYaml, type ParsedYaml } from "./yaml.js";
+
+/** Governance keys from before version 1, by path, with the key that replaced them. */
+const LEGACY_GOVERNANCE_KEYS: Record<string, string> = {
+  "governance.pr.staleAfterDays": "staleDays",
+  "governance.pr.maxCompetingPRs": "maxPRsPerIssue",
+};
+
+/** `labels:` keys written as a label name (phase:voting), by the governance key that replaced them (voting). */
+const LEGACY_LABEL_KEYS = new Map(
+  Object.entries(LABEL_CONFIG_KEYS).flatMap(([name, key]: [string, GovernanceLabelKey]) =>
+    DEFAULT_GOVERNANCE_LABELS[key].map((label): [string, string] => [label, name]),
+  ),
+);
+
+// A mapping key at the start of the text: quoted, or plain up to the ": " that ends it
+const KEY_RE = /^(?:"(?:[^"\\\n]|\\.)*"|'(?:[^'\n]|'')*'|[^\s#'"{}[\],][^\n]*?)(?=[ \t]*:(?:[ \t]|\r?\n|$))/;
+const VERSION_VALUE_RE = /^(version[ \t]*:[ \t]*)([^\s#,}]+)/;
+
+interface Edit {
+  offset: number;
+  length: number;
+  text: string;
+}
+
+interface Rename {
+  path: string;     // dotted path of the legacy key
+  from: string;
+  to: string;
+}
+
+/** The key renames that bring a config up to version `to`; steps run in order, each on the previous one's output. */
+interface MigrationStep {
+  to: number;
+  renames(raw: Record<string, unknown>): Rename[];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+const MIGRATION_STEPS: MigrationStep[] = [
+  {
+    to: 1,
+    renames(raw) {
+      const renames: Rename[] = [];
+      const pr = isObject(raw.governance) && isObject(raw.governance.pr) ? raw.governance.pr : {};
+      for (const [path, to] of Object.entries(LEGACY_GOVERNANCE_KEYS)) {
+        const from = path.slice(path.lastIndexOf(".") + 1);
+        if (Object.hasOwn(pr, from)) renames.push({ path, from, to });
+      }
+      for (const name of Object.keys(isObject(raw.labels) ? raw.labels : {})) {
+        const to = LEGACY_LABEL_KEYS.get(name.toLowerCase());
+        if (to) renames.push({ path: `labels.${name}`, from: name, to });
+      }
+      return renames;
+    },
+  },
+];
+
+function toOffset(content: string, line: number, column: number): number {
+  let offset = 0;
+  for (let i = 1; i < line; i++) offset = content.indexOf("\n", offset) + 1;
+  return offset + column - 1;
+}
+
+function keyOffset(content: string, parsed: ParsedYaml, path: string): number {
+  const { line, column } = parsed.positionOf(path);
+  return toOffset(content, line, column);
+}
+
+/** Where a `version:` line goes: before the first line that isn't blank, a comment or `---`. */
+function versionInsertOffset(content: string): number {
+  let offset = 0;
+  while (offset < content.length) {
+    const end = content.indexOf("\n", offset);
+    const line = content.slice(offset, end === -1 ? content.length : end).trim();
+    if (line !== "" && !line.startsWith("#") && line !== "---") return offset;
+    if (end === -1) return content.length;
+    offset = end + 1;
+  }
+  return offset;
+}
+
+function parseMapping(content: string): { parsed: ParsedYaml; raw: Record<string, unknown> } {
+  let parsed: ParsedYaml;
+  try {
+    parsed = parseYaml(content);
+  } catch (err) {
+    const reason = err instanceof Error && "reason" in err ? String(err.reason) : String(err);
+    throw new CliError(`Config error: invalid YAML: ${reason}`, "INVALID_CONFIG", 1);
+  }
+  if (!isObject(parsed.value)) {
+    throw new CliError("Config error: .github/hivemoot.yml must be a YAML object", "INVALID_CONFIG", 1);
+  }
+  return { parsed, raw: parsed.value };
+}
+
+function applyEdits(content: string, edits: Edit[]): string {
+  let edited = content;
+  for (const edit of [...edits].sort((a, b) => b.offset - a.offset)) {
+    edited = edited.slice(0, edit.offset) + edit.text + edited.slice(edit.offset + edit.length);
+  }
+  return edited;
+}
+
+/** Rename one step's legacy keys in place; a key whose replacement is already set is left alone. */
+function runStep(
+  content: string,
+  step: MigrationStep,
+  changes: string[],
+  skipped: string[],
+): string {
+  const { parsed, raw } = parseMapping(content);
+  const edits: Edit[] = [];
+  for (const rename of step.renames(raw)) {
+    const parent = rename.path.slice(0, rename.path.length - rename.from.length - 1);
+    const siblings = parent.split(".").reduce<unknown>((node, key) => (isObject(node) ? node[key] : undefined), raw);
+    if (isObject(siblings) && Object.hasOwn(siblings, rename.to)) {
+      skipped.push(`${rename.path}: ${parent}.${rename.to} is already set`);
+      continue;
+    }
+    const offset = keyOffset(content, parsed, rename.path);
+    const key = KEY_RE.exec(content.slice(offset))?.[0];
+    if (key === undefined) {
+      skipped.push(`${rename.path}: could not find the key in the file`);
+      continue;
+    }
+    edits.push({ offset, length: key.length, text: rename.to });
+    changes.push(`${rename.path} → ${parent}.${rename.to}`);
+  }
+  return applyEdits(content, edits);
+}
+
+/** Set `version:` to the current version, in place when the file has one. */
+function setVersion(content: string, from: number | undefined, changes: string[], skipped: string[]): string {
+  const { parsed, raw } = parseMapping(content);
+  if (Object.hasOwn(raw, "version")) {
+    const offset = keyOffset(content, parsed, "version");
+    const match = VERSION_VALUE_RE.exec(content.slice(offset));
+    if (!match) {
+      skipped.push("version: could not find its value in the file");
+      return content;
+    }
+    changes.push(`version ${from} → ${CONFIG_VERSION}`);
+    return applyEdits(content, [{ offset: offset + match[1].length, length: match[2].length, text: String(CONFIG_VERSION) }]);
+  }
+  const offset = versionInsertOffset(content);
+  if (content.slice(offset).startsWith("{")) {
+    skipped.push(`version: add version: ${CONFIG_VERSION} to the flow mapping by hand`);
+    return content;
+  }
+  changes.push(`version: ${CONFIG_VERSION} added`);
+  return applyEdits(content, [{ offset, length: 0, text: `version: ${CONFIG_VERSION}\n` }]);
+}
+
+/**
+ * Rewrite hivemoot.yml source to the current config version, running each
+ * migration step above the file's version (none set counts as 0). Keys are
+ * renamed in place so comments, ordering and formatting are kept.
+ */
+export function migrateConfigSource(content: string): { content: string; changes: string[]; skipped: string[] } {
+  const { raw } = parseMapping(content);
+  if (raw.version !== undefined && !Number.isInteger(raw.version)) {
+    return { content, changes: [], skipped: ["version: must be an integer; set it by hand before migrating"] };
+  }
+  const from = raw.version as number | undefined;
+  if (from !== undefined && from >= CONFIG_VERSION) return { content, changes: [], skipped: [] };
+
+  const changes: string[] = [];
+  const skipped: string[] = [];
+  let migrated = content;
+  for (const step of MIGRATION_STEPS) {
+    if ((from ?? 0) < step.to) migrated = runStep(migrated, step, changes, skipped);
+  }
+  migrated = setVersion(migrated, from, changes, skipped);
+  return { content: migrated, changes, skipped };
+}
@@ -0,0 +1,13 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_PRESET, PRESETS, ROLE_LIBRARY } from "./presets.js";
+
+describe("PRESETS", () => {
+  it.each(Object.entries(PRESETS))("%s only uses roles from the library", (_name, preset) => {
+    expect(preset.roles.length).toBeGreaterThan(0);
+    for (const role of preset.roles) expect(Object.hasOwn(ROLE_LIBRARY, role)).toBe(true);
+  });
+
+  it("includes the default preset", () => {
+    expect(Object.hasOwn(PRESETS, DEFAULT_PRESET)).toBe(true);
+  });
+});
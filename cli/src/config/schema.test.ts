@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { configSchema } from "./schema.js";
+import { REPO_PATH_RE, ROLE_SLUG_RE } from "./loader.js";
+import { DEFAULT_GOVERNANCE } from "./defaults.js";
+
+// Minimal views of the generated schema for assertions
+type Node = Record<string, any>;
+
+describe("configSchema", () => {
+  const schema = configSchema() as Node;
+  const team = schema.properties.team;
+  const role = schema.definitions.role;
+
+  it("is a draft-07 object schema covering version, team, governance and labels", () => {
+    expect(schema.$schema).toBe("http://json-schema.org/draft-07/schema#");
+    expect(Object.keys(schema.properties)).toEqual(["version", "team", "governance", "labels"]);
+    expect(team.required).toEqual(["roles"]);
+  });
+
+  it("uses the loader's slug pattern for role and fragment names", () => {
+    expect(team.properties.roles.propertyNames.pattern).toBe(ROLE_SLUG_RE.source);
+    expect(team.properties.fragments.propertyNames.pattern).toBe(ROLE_SLUG_RE.source);
+    expect(role.properties.extends.pattern).toBe(ROLE_SLUG_RE.source);
+  });
+
+  it("uses the loader's length limits", () => {
+    expect(role.properties.description.maxLength).toBe(500);
+    expect(role.properties.instructions.maxLength).toBe(10_000);
+    expect(team.properties.onboarding.maxLength).toBe(10_000);
+  });
+
+  it("takes governance defaults from DEFAULT_GOVERNANCE", () => {
+    const governance = schema.properties.governance.properties;
+    expect(governance.pr.properties.staleDays.default).toBe(DEFAULT_GOVERNANCE.pr.staleDays);
+    expect(governance.pr.properties.maxPRsPerIssue.default).toBe(DEFAULT_GOVERNANCE.pr.maxPRsPerIssue);
+    expect(governance.proposals.properties.voting.default).toEqual(DEFAULT_GOVERNANCE.proposals.voting);
+  });
+
+  it("maps member logins to a role or a list of roles", () => {
+    const members = team.properties.members;
+    const login = new RegExp(members.propertyNames.pattern);
+    expect(login.test("alice")).toBe(true);
+    expect(login.test("review-bot[bot]")).toBe(true);
+    expect(login.test("-alice")).toBe(false);
+    expect(members.additionalProperties.oneOf[1].items.pattern).toBe(ROLE_SLUG_RE.source);
+  });
+
+  it("lists every governance label key with its default names", () => {
+    const labels = schema.properties.labels;
+    expect(labels.additionalProperties).toBe(false);
+    expect(labels.properties.readyToImplement.default).toEqual(["hivemoot:ready-to-implement", "phase:ready-to-implement"]);
+    expect(Object.keys(labels.properties)).toHaveLength(11);
+  });
+
+  it("has a file path pattern that accepts repo paths and rejects escapes", () => {
+    const pattern = new RegExp(role.properties.instructionsFile.pattern);
+    expect(pattern.source).toBe(REPO_PATH_RE.source);
+    expect(pattern.test(".agent/roles/reviewer.md")).toBe(true);
+    expect(pattern.test("docs/..notes.md")).toBe(true);
+    expect(pattern.test("/etc/passwd")).toBe(false);
+    expect(pattern.test("../secrets.md")).toBe(false);
+    expect(pattern.test("docs/../../secrets.md")).toBe(false);
+  });
+
+  it("resolves every $ref", () => {
+    const refs = JSON.stringify(schema).match(/"\$ref":"[^"]+"/g) ?? [];
+    for (const ref of refs) {
+      const name = ref.replace(/.*#\/definitions\/(\w+)"$/, "$1");
+      expect(schema.definitions).toHaveProperty(name);
+    }
+    expect(refs.length).toBeGreaterThan(0);
+  });
+});
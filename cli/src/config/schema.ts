@@ -0,0 +1,178 @@
+import {
+  GITHUB_LOGIN_RE,
+  LABEL_CONFIG_KEYS,
+  MAX_DESCRIPTION_LENGTH,
+  MAX_INSTRUCTIONS_LENGTH,
+  MAX_ONBOARDING_LENGTH,
+  REPO_PATH_RE,
+  ROLE_SLUG_RE,
+} from "./loader.js";
+import { DEFAULT_GOVERNANCE } from "./defaults.js";
+import { DEFAULT_GOVERNANCE_LABELS } from "./types.js";
+
+type JsonSchema = Record<string, unknown>;
+
+const slug = (description: string): JsonSchema => ({ type: "string", pattern: ROLE_SLUG_RE.source, description });
+
+const text = (maxLength: number, description: string): JsonSchema => ({
+  type: "string",
+  minLength: 1,
+  maxLength,
+  description,
+});
+
+const repoPath = (description: string): JsonSchema => ({ type: "string", pattern: REPO_PATH_RE.source, description });
+
+const positiveInteger = (fallback: number, description: string): JsonSchema => ({
+  type: "integer",
+  minimum: 1,
+  default: fallback,
+  description,
+});
+
+const role: JsonSchema = {
+  type: "object",
+  properties: {
+    description: text(MAX_DESCRIPTION_LENGTH, "One-line summary of the role"),
+    instructions: text(MAX_INSTRUCTIONS_LENGTH, "Instructions given to an agent in this role"),
+    instructionsFile: repoPath("Repo path of a file holding the instructions, instead of inline text"),
+    extends: slug("Role whose description and instructions this role starts from"),
+    include: {
+      type: "array",
+      items: slug("Fragment name"),
+      description: "Fragments from team.fragments added after the extended role's instructions",
+    },
+  },
+  // Without extends, a role needs its own description
+  if: { not: { required: ["extends"] } },
+  then: { required: ["description"] },
+  anyOf: [
+    { required: ["instructions"] },
+    { required: ["instructionsFile"] },
+    { required: ["extends"] },
+    { required: ["include"] },
+  ],
+  not: { required: ["instructions", "instructionsFile"] },
+};
+
+const phaseExit: JsonSchema = {
+  oneOf: [
+    {
+      type: "object",
+      properties: {
+        type: { const: "auto" },
+        afterMinutes: { type: "integer", minimum: 1, description: "Minutes before the bot moves the issue on" },
+      },
+      required: ["type", "afterMinutes"],
+    },
+    {
+      type: "object",
+      properties: { type: { const: "manual" } },
+      required: ["type"],
+      not: { required: ["afterMinutes"] },
+    },
+  ],
+};
+
+const labelNames = (fallback: readonly string[]): JsonSchema => ({
+  oneOf: [
+    { type: "string", minLength: 1 },
+    { type: "array", minItems: 1, items: { type: "string", minLength: 1 } },
+  ],
+  default: fallback,
+});
+
+const phase = (fallback: unknown, description: string): JsonSchema => ({
+  type: "object",
+  properties: {
+    exits: { type: "array", minItems: 1, items: { $ref: "#/definitions/phaseExit" } },
+  },
+  default: fallback,
+  description,
+});
+
+/**
+ * JSON Schema (draft-07) for .github/hivemoot.yml, built from the loader's
+ * own limits and patterns. Unknown keys are allowed, as the loader ignores them.
+ */
+export function configSchema(): JsonSchema {
+  return {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    title: "hivemoot.yml",
+    description: "Hivemoot team and governance configuration (.github/hivemoot.yml)",
+    type: "object",
+    properties: {
+      version: { type: "integer", minimum: 1, description: "Config format version" },
+      team: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          onboarding: {
+            type: "string",
+            maxLength: MAX_ONBOARDING_LENGTH,
+            description: "Free-form text shown to all agents",
+          },
+          onboardingFile: repoPath("Repo path of a file holding the onboarding text, instead of inline text"),
+          fragments: {
+            type: "object",
+            propertyNames: { pattern: ROLE_SLUG_RE.source },
+            additionalProperties: text(MAX_INSTRUCTIONS_LENGTH, "Instruction block roles can include"),
+          },
+          roles: {
+            type: "object",
+            minProperties: 1,
+            propertyNames: { pattern: ROLE_SLUG_RE.source },
+            additionalProperties: { $ref: "#/definitions/role" },
+          },
+          members: {
+            type: "object",
+            description: "GitHub logins and the roles they hold; buzz picks the role when --role is omitted",
+            propertyNames: { pattern: GITHUB_LOGIN_RE.source },
+            additionalProperties: {
+              oneOf: [
+                slug("Role name"),
+                { type: "array", minItems: 1, items: slug("Role name") },
+              ],
+            },
+          },
+        },
+        required: ["roles"],
+        not: { required: ["onboarding", "onboardingFile"] },
+      },
+      governance: {
+        type: "object",
+        properties: {
+          proposals: {
+            type: "object",
+            properties: {
+              discussion: phase(DEFAULT_GOVERNANCE.proposals.discussion, "How issues leave the discussion phase"),
+              voting: phase(DEFAULT_GOVERNANCE.proposals.voting, "How issues leave the voting phase"),
+            },
+          },
+          pr: {
+            type: "object",
+            properties: {
+              staleDays: positiveInteger(
+                DEFAULT_GOVERNANCE.pr.staleDays,
+                "Days without activity before a PR is marked stale",
+              ),
+              maxPRsPerIssue: positiveInteger(
+                DEFAULT_GOVERNANCE.pr.maxPRsPerIssue,
+                "Competing implementation PRs allowed per issue",
+              ),
+            },
+          },
+        },
+      },
+      labels: {
+        type: "object",
+        description: "Label names the governance bot uses for each state, replacing the defaults",
+        properties: Object.fromEntries(
+          Object.entries(LABEL_CONFIG_KEYS).map(([name, key]) => [name, labelNames(DEFAULT_GOVERNANCE_LABELS[key])]),
+        ),
+        additionalProperties: false,
+      },
+    },
+    definitions: { role, phaseExit },
+  };
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { memberRoles, roleMembers } from "./team.js";
+import type { TeamConfig } from "./types.js";
+
+const team: TeamConfig = {
+  roles: {
+    engineer: { description: "Builds", instructions: "Ship it." },
+    reviewer: { description: "Reviews", instructions: "Check it." },
+  },
+  members: {
+    Alice: ["engineer"],
+    "review-bot[bot]": ["reviewer", "engineer"],
+  },
+};
+
+describe("memberRoles", () => {
+  it("returns a member's roles in config order", () => {
+    expect(memberRoles(team, "review-bot[bot]")).toEqual(["reviewer", "engineer"]);
+  });
+
+  it("matches logins case-insensitively", () => {
+    expect(memberRoles(team, "alice")).toEqual(["engineer"]);
+  });
+
+  it("returns no roles for non-members or a team without members", () => {
+    expect(memberRoles(team, "mallory")).toEqual([]);
+    expect(memberRoles({ roles: team.roles }, "alice")).toEqual([]);
+  });
+});
+
+describe("roleMembers", () => {
+  it("returns the logins holding a role", () => {
+    expect(roleMembers(team, "engineer")).toEqual(["Alice", "review-bot[bot]"]);
+    expect(roleMembers(team, "reviewer")).toEqual(["review-bot[bot]"]);
+    expect(roleMembers({ roles: team.roles }, "engineer")).toEqual([]);
+  });
+});
@@ -0,0 +1,15 @@
+import type { TeamConfig } from "./types.js";
+import { sameLogin } from "../github/login.js";
+
+/** Roles team.members gives a GitHub login, in config order; logins match case-insensitively. */
+export function memberRoles(team: TeamConfig, login: string): string[] {
+  const entry = Object.entries(team.members ?? {}).find(([member]) => sameLogin(member, login));
+  return entry ? entry[1] : [];
+}
+
+/** Logins team.members assigns to a role. */
+export function roleMembers(team: TeamConfig, role: string): string[] {
+  return Object.entries(team.members ?? {})
+    .filter(([, roles]) => roles.includes(role))
+    .map(([member]) => member);
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { renderTemplate, templateVars, unknownTemplateVariables } from "./template.js";
+import { DEFAULT_GOVERNANCE } from "./defaults.js";
+
+describe("renderTemplate", () => {
+  it("substitutes known variables, allowing spaces inside the braces", () => {
+    expect(renderTemplate("{{repo}} / {{ role }} / {{governance.pr.staleDays}}", {
+      repo: "hivemoot/colony",
+      role: "engineer",
+      "governance.pr.staleDays": 3,
+    })).toBe("hivemoot/colony / engineer / 3");
+  });
+
+  it("keeps placeholders without a value as written", () => {
+    expect(renderTemplate("Hi {{user}}, see {{docs}}", { repo: "a/b" })).toBe("Hi {{user}}, see {{docs}}");
+  });
+
+  it("does not render placeholders that come from substituted values", () => {
+    expect(renderTemplate("{{user}}", { user: "{{repo}}", repo: "a/b" })).toBe("{{repo}}");
+  });
+
+  it("leaves GitHub Actions expressions as written", () => {
+    expect(renderTemplate("token: ${{ secrets.GITHUB_TOKEN }} in {{repo}}", { repo: "a/b" }))
+      .toBe("token: ${{ secrets.GITHUB_TOKEN }} in a/b");
+  });
+
+  it("writes an escaped \\{{ as literal braces", () => {
+    expect(renderTemplate("\\{{repo}} is {{repo}}", { repo: "a/b" })).toBe("{{repo}} is a/b");
+  });
+
+  it("treats placeholders as names, never as expressions", () => {
+    expect(renderTemplate("{{constructor}} {{user.toString}} {{__proto__}}", { user: "alice" }))
+      .toBe("{{constructor}} {{user.toString}} {{__proto__}}");
+  });
+});
+
+describe("unknownTemplateVariables", () => {
+  it("lists each unknown name once", () => {
+    expect(unknownTemplateVariables("{{repo}} {{ owner }} {{owner}} {{team.size}}")).toEqual(["owner", "team.size"]);
+  });
+
+  it("skips GitHub Actions expressions and escaped braces", () => {
+    expect(unknownTemplateVariables("${{ secrets.X }} \\{{literal}} ${{github.actor}}")).toEqual([]);
+  });
+
+  it("ignores text without placeholders", () => {
+    expect(unknownTemplateVariables("Use { and } freely, even {single}.")).toEqual([]);
+  });
+});
+
+describe("templateVars", () => {
+  it("maps command context to variables", () => {
+    expect(templateVars({
+      repo: { owner: "hivemoot", repo: "colony" },
+      user: "",
+      role: "engineer",
+      teamName: "colony",
+      governance: DEFAULT_GOVERNANCE,
+    })).toEqual({
+      repo: "hivemoot/colony",
+      user: undefined,
+      role: "engineer",
+      "team.name": "colony",
+      "governance.pr.staleDays": 3,
+      "governance.pr.maxPRsPerIssue": 3,
+    });
+  });
+});
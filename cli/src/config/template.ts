@@ -0,0 +1,60 @@
+import type { GovernanceConfig, RepoRef } from "./types.js";
+
+/** Variables role instructions and onboarding may use as {{name}}. */
+export const TEMPLATE_VARIABLES = [
+  "repo",
+  "user",
+  "role",
+  "team.name",
+  "governance.pr.staleDays",
+  "governance.pr.maxPRsPerIssue",
+] as const;
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+
+/** Values to substitute; a variable left out is kept as written. */
+export type TemplateVars = Partial<Record<TemplateVariable, string | number>>;
+
+// `${{ ... }}` (GitHub Actions expressions) is never a placeholder, and `\{{` writes a literal `{{`
+const PLACEHOLDER_RE = /([$\\]?)\{\{\s*([^{}]*?)\s*\}\}/g;
+
+function isTemplateVariable(name: string): name is TemplateVariable {
+  return (TEMPLATE_VARIABLES as readonly string[]).includes(name);
+}
+
+/** Names of the {{...}} placeholders in `text` that are not template variables. */
+export function unknownTemplateVariables(text: string): string[] {
+  const names = [...text.matchAll(PLACEHOLDER_RE)].filter((match) => match[1] === "").map((match) => match[2]);
+  return [...new Set(names.filter((name) => !isTemplateVariable(name)))];
+}
+
+/**
+ * Substitute {{name}} placeholders. This is plain lookup, never evaluation,
+ * and substituted values are not scanned again.
+ */
+export function renderTemplate(text: string, vars: TemplateVars): string {
+  return text.replace(PLACEHOLDER_RE, (placeholder, prefix: string, name: string) => {
+    if (prefix === "\\") return placeholder.slice(1);
+    if (prefix === "$") return placeholder;
+    const value = isTemplateVariable(name) ? vars[name] : undefined;
+    return value === undefined ? placeholder : String(value);
+  });
+}
+
+/** Template values from what a command knows; unknown ones stay undefined. */
+export function templateVars(context: {
+  repo?: RepoRef;
+  user?: string;
+  role?: string;
+  teamName?: string;
+  governance?: GovernanceConfig;
+}): TemplateVars {
+  return {
+    repo: context.repo && `${context.repo.owner}/${context.repo.repo}`,
+    user: context.user || undefined,
+    role: context.role,
+    "team.name": context.teamName,
+    "governance.pr.staleDays": context.governance?.pr.staleDays,
+    "governance.pr.maxPRsPerIssue": context.governance?.pr.maxPRsPerIssue,
+  };
+}
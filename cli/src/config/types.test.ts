@@ -0,0 +1,35 @@
+import { describe, it, expect } from "vitest";
+import { CliError, ERROR_REMEDIATION } from "./types.js";
+
+describe("CliError.toJSON()", () => {
+  it("includes the code's default hint and docs URL", () => {
+    const err = new CliError("Could not resolve repository o/r", "REPO_ACCESS_DENIED");
+
+    expect(err.toJSON()).toEqual({
+      code: "REPO_ACCESS_DENIED",
+      message: "Could not resolve repository o/r",
+      ...ERROR_REMEDIATION.REPO_ACCESS_DENIED,
+    });
+  });
+
+  it("lets details override the hint and add structured fields", () => {
+    const err = new CliError("GitHub rate limited.", "RATE_LIMITED", 3, {
+      resetAt: "2025-01-01T00:00:00.000Z",
+      hint: "Wait an hour.",
+    });
+
+    expect(err.toJSON()).toMatchObject({
+      code: "RATE_LIMITED",
+      resetAt: "2025-01-01T00:00:00.000Z",
+      hint: "Wait an hour.",
+      docsUrl: ERROR_REMEDIATION.RATE_LIMITED.docsUrl,
+    });
+  });
+
+  it("has remediation for every code", () => {
+    for (const remediation of Object.values(ERROR_REMEDIATION)) {
+      expect(remediation.hint).not.toBe("");
+      expect(remediation.docsUrl).toMatch(/^https:\/\//);
+    }
+  });
+});
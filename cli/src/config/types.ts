@@ -3,12 +3,37 @@
 export interface RoleConfig {
   description: string;
   instructions: string;
+  instructionsFile?: string;  // repo path the instructions were read from
+  source?: "org" | "repo";    // whether the org default config or the repo config defined the role
 }
 
 export interface TeamConfig {
   name?: string;
   onboarding?: string;
+  onboardingFile?: string;    // repo path the onboarding text was read from
   roles: Record<string, RoleConfig>;
+  members?: Record<string, string[]>;  // GitHub login → the roles it holds
+}
+
+/** How an issue leaves a governance phase: by the bot after a delay, or by a maintainer. */
+export interface PhaseExit {
+  type: "auto" | "manual";
+  afterMinutes?: number;     // required for auto exits
+}
+
+export interface PhaseConfig {
+  exits: PhaseExit[];
+}
+
+export interface GovernanceConfig {
+  proposals: {
+    discussion: PhaseConfig;
+    voting: PhaseConfig;
+  };
+  pr: {
+    staleDays: number;       // days without activity before a PR is marked stale
+    maxPRsPerIssue: number;  // competing implementation PRs allowed per issue
+  };
 }
 
 export interface HivemootConfig {
@@ -17,6 +42,67 @@ export interface HivemootConfig {
   team?: TeamConfig;
 }
 
+/** The validated contents of .github/hivemoot.yml. */
+export interface RepoConfig {
+  version?: number;
+  governance: GovernanceConfig;   // defaults filled in for omitted settings
+  labels: GovernanceLabels;       // default label names for unmapped keys
+  team?: TeamConfig;
+  warnings?: string[];            // e.g. an outdated version; the config is still usable
+}
+
+/** Where to read hivemoot.yml from; the repo's default branch when both are unset. */
+export interface ConfigSource {
+  config?: string;      // local file path (--config)
+  configRef?: string;   // branch, tag or SHA in the repo (--config-ref)
+}
+
+/** One problem in hivemoot.yml; `path` locates it, e.g. team.roles.engineer.description. */
+export interface ConfigIssue {
+  path: string;       // "" for the document itself
+  message: string;
+  line?: number;      // 1-based, when validated from source text
+  column?: number;
+}
+
+// ── Governance Label Types ─────────────────────────────────────────
+
+export const GOVERNANCE_LABEL_ALIASES = {
+  DISCUSSION: ["hivemoot:discussion", "phase:discussion"],
+  VOTING: ["hivemoot:voting", "phase:voting"],
+  EXTENDED_VOTING: ["hivemoot:extended-voting", "phase:extended-voting"],
+  READY_TO_IMPLEMENT: ["hivemoot:ready-to-implement", "phase:ready-to-implement"],
+  NEEDS_HUMAN: ["hivemoot:needs-human", "needs:human"],
+  IMPLEMENTATION: ["hivemoot:candidate", "implementation"],
+  REJECTED: ["hivemoot:rejected", "rejected"],
+  INCONCLUSIVE: ["hivemoot:inconclusive", "inconclusive"],
+  STALE: ["hivemoot:stale", "stale"],
+  IMPLEMENTED: ["hivemoot:implemented", "implemented"],
+  MERGE_READY: ["hivemoot:merge-ready", "merge-ready"],
+} as const;
+
+export type GovernanceLabelKey = keyof typeof GOVERNANCE_LABEL_ALIASES;
+
+/** Label names that mark each governance state; set per repo by the `labels:` section of hivemoot.yml. */
+export type GovernanceLabels = Record<GovernanceLabelKey, readonly string[]>;
+
+export const DEFAULT_GOVERNANCE_LABELS: GovernanceLabels = GOVERNANCE_LABEL_ALIASES;
+
+// ── Credentials File Types ─────────────────────────────────────────
+
+export interface AgentAppCredentials {
+  appId: string;
+  privateKey: string;        // path to a .pem file (relative to the credentials file) or the PEM itself
+  installationId?: string;
+}
+
+/** One identity in the local credentials file: a token or GitHub App credentials. */
+export interface AgentCredentials {
+  login?: string;            // skips the `api user` lookup when set
+  token?: string;
+  app?: AgentAppCredentials;
+}
+
 // ── GitHub Data Types ──────────────────────────────────────────────
 
 export interface GitHubIssue {
@@ -64,6 +150,7 @@ export interface GitHubPR {
   statusCheckRollup: StatusCheck[] | null;
   closingIssuesReferences: Array<{ number: number }>;
   commits: PRCommit[];
+  reviewRequests?: Array<{ login: string }>;  // users, bots, or "org/team" slugs
 }
 
 // ── Repo Identity ──────────────────────────────────────────────────
@@ -92,6 +179,7 @@ export interface SummaryItem {
   // Issue-specific
   assigned?: string;           // comma-separated logins, or undefined (= unassigned)
   competingPRs?: number;       // only on implement items with competing PRs
+  prLimitReached?: boolean;    // issue already has governance.pr.maxPRsPerIssue PRs
   // PR-specific
   status?: string;             // "pending" | "approved" | "changes-requested" | "draft"
   checks?: string | null;      // "passing" | "failing" | "pending" | null
@@ -106,6 +194,7 @@ export interface SummaryItem {
   lastCommit?: string;                // "2 hours ago" — when the latest commit landed
   lastComment?: string;               // "5 hours ago" — when the latest comment was posted
   updated?: string;                   // "30 minutes ago" — pr.updatedAt (catch-all)
+  stale?: boolean;                    // no commit, comment or review for governance.pr.staleDays
   // Notification fields
   unread?: boolean;                   // true if there's an unread notification
   unreadReason?: string;              // "comment" | "mention" | "author" | "ci_activity"
@@ -146,7 +235,7 @@ export interface RepoSummary {
 
 // ── CLI Options ────────────────────────────────────────────────────
 
-export interface BuzzOptions {
+export interface BuzzOptions extends ConfigSource {
   role?: string;
   json?: boolean;
   limit?: number;
@@ -154,12 +243,12 @@ export interface BuzzOptions {
   repo?: string;
 }
 
-export interface RolesOptions {
+export interface RolesOptions extends ConfigSource {
   json?: boolean;
   repo?: string;
 }
 
-export interface RoleOptions {
+export interface RoleOptions extends ConfigSource {
   json?: boolean;
   repo?: string;
 }
@@ -176,6 +265,58 @@ export interface AckOptions {
   stateFile: string;
 }
 
+export interface DoctorOptions {
+  json?: boolean;
+  repo?: string;
+}
+
+export interface InitOptions {
+  interactive?: boolean;
+  preset?: string;
+  force?: boolean;
+}
+
+export interface ConfigValidateOptions {
+  json?: boolean;
+}
+
+export interface ConfigMigrateOptions {
+  dryRun?: boolean;
+}
+
+/** The result of `hivemoot config migrate` on one file. */
+export interface ConfigMigrationReport {
+  path: string;
+  before: string;
+  after: string;          // equal to `before` when nothing needed migrating
+  changes: string[];      // e.g. "governance.pr.staleAfterDays → governance.pr.staleDays"
+  skipped: string[];      // changes left for the user to make by hand, with the reason
+  written: boolean;
+}
+
+export interface ConfigValidationReport {
+  path: string;       // the file that was checked
+  valid: boolean;
+  issues: ConfigIssue[];
+}
+
+// ── Doctor Report ──────────────────────────────────────────────────
+
+export type CheckStatus = "pass" | "warn" | "fail" | "skip";
+
+export interface DoctorCheck {
+  name: string;       // "gh" | "token" | "repo" | "notifications" | "config" | "labels" | "rateLimit"
+  status: CheckStatus;
+  detail: string;
+  hint?: string;      // what to do about a warn/fail
+}
+
+export interface DoctorReport {
+  repo?: string;      // owner/repo, when it could be resolved
+  ok: boolean;        // no check failed
+  checks: DoctorCheck[];
+}
+
 export interface MentionEvent {
   agent: string;      // authenticated user login
   repo: string;       // owner/repo
@@ -194,21 +335,127 @@ export interface MentionEvent {
 export type ErrorCode =
   | "GH_NOT_FOUND"
   | "GH_NOT_AUTHENTICATED"
+  | "GH_MISSING_SCOPES"
+  | "GH_SSO_REQUIRED"
+  | "GH_TIMEOUT"
   | "NOT_GIT_REPO"
+  | "REPO_ACCESS_DENIED"
   | "CONFIG_NOT_FOUND"
+  | "CONFIG_EXISTS"
   | "NO_TEAM_CONFIG"
   | "ROLE_NOT_FOUND"
+  | "AGENT_NOT_FOUND"
   | "INVALID_CONFIG"
   | "RATE_LIMITED"
+  | "GRAPHQL_NODE_LIMIT"
+  | "MALFORMED_RESPONSE"
+  | "FIXTURE_WRITE_FAILED"
   | "GH_ERROR";
 
+/** Structured extras included in the `--json` error object. */
+export interface CliErrorDetails {
+  resetAt?: string;           // ISO 8601 — when an exhausted rate limit resets
+  requiredScopes?: string[];  // token scopes GitHub asked for
+  hint?: string;              // overrides the code's default remediation hint
+  docsUrl?: string;
+}
+
+interface Remediation {
+  hint: string;
+  docsUrl: string;
+}
+
+const TEAM_CONFIG_DOCS = "https://github.com/hivemoot/hivemoot#1-define-your-team";
+
+/** Default next step and reference for each error code. */
+export const ERROR_REMEDIATION: Record<ErrorCode, Remediation> = {
+  GH_NOT_FOUND: {
+    hint: "Install the gh CLI, or use --transport http with --github-token.",
+    docsUrl: "https://cli.github.com",
+  },
+  GH_NOT_AUTHENTICATED: {
+    hint: "Pass --github-token, set GITHUB_TOKEN, use --as <agent>, or run: gh auth login",
+    docsUrl: "https://docs.github.com/en/authentication/keeping-your-account-and-data-secure/managing-your-personal-access-tokens",
+  },
+  GH_MISSING_SCOPES: {
+    hint: "Grant the token the missing scopes (gh auth refresh -s <scope>) or issue a new token.",
+    docsUrl: "https://docs.github.com/en/apps/oauth-apps/building-oauth-apps/scopes-for-oauth-apps",
+  },
+  GH_SSO_REQUIRED: {
+    hint: "Authorize the token for the organization's SAML single sign-on, then retry.",
+    docsUrl: "https://docs.github.com/en/authentication/authenticating-with-saml-single-sign-on/authorizing-a-personal-access-token-for-use-with-saml-single-sign-on",
+  },
+  GH_TIMEOUT: {
+    hint: "Retry later, or lower --fetch-limit to make queries cheaper.",
+    docsUrl: "https://docs.github.com/en/graphql/overview/rate-limits-and-node-limits-for-the-graphql-api#timeouts",
+  },
+  NOT_GIT_REPO: {
+    hint: "Run inside a clone of the repository or pass --repo OWNER/REPO.",
+    docsUrl: "https://cli.github.com/manual/gh_repo_view",
+  },
+  REPO_ACCESS_DENIED: {
+    hint: "Check the repository name and that the token (or app installation) has access to it.",
+    docsUrl: "https://docs.github.com/en/rest/overview/troubleshooting-the-rest-api#404-not-found-for-an-existing-resource",
+  },
+  CONFIG_NOT_FOUND: {
+    hint: "Add .github/hivemoot.yml to the repository (hivemoot init prints a starter).",
+    docsUrl: TEAM_CONFIG_DOCS,
+  },
+  CONFIG_EXISTS: {
+    hint: "Pass --force to overwrite it, or edit the existing file.",
+    docsUrl: TEAM_CONFIG_DOCS,
+  },
+  NO_TEAM_CONFIG: {
+    hint: "Add a team.roles section to .github/hivemoot.yml.",
+    docsUrl: TEAM_CONFIG_DOCS,
+  },
+  ROLE_NOT_FOUND: {
+    hint: "Run hivemoot roles to list the roles this repository defines.",
+    docsUrl: TEAM_CONFIG_DOCS,
+  },
+  AGENT_NOT_FOUND: {
+    hint: "Add the agent to the credentials file or pass a different --as.",
+    docsUrl: "https://github.com/hivemoot/hivemoot#3-run-your-agents",
+  },
+  INVALID_CONFIG: {
+    hint: "Fix the reported field in the config file and retry.",
+    docsUrl: TEAM_CONFIG_DOCS,
+  },
+  RATE_LIMITED: {
+    hint: "Wait for the reset (resetAt), or raise --rate-limit-wait to wait automatically.",
+    docsUrl: "https://docs.github.com/en/rest/using-the-rest-api/rate-limits-for-the-rest-api",
+  },
+  GRAPHQL_NODE_LIMIT: {
+    hint: "Lower --fetch-limit so each query requests fewer nodes.",
+    docsUrl: "https://docs.github.com/en/graphql/overview/rate-limits-and-node-limits-for-the-graphql-api#node-limit",
+  },
+  MALFORMED_RESPONSE: {
+    hint: "Retry; if it persists, check for a proxy or outdated gh CLI altering responses.",
+    docsUrl: "https://www.githubstatus.com",
+  },
+  FIXTURE_WRITE_FAILED: {
+    hint: "Check that the --record directory is writable and the disk has free space.",
+    docsUrl: "https://nodejs.org/api/errors.html#common-system-errors",
+  },
+  GH_ERROR: {
+    hint: "Check the message above; run the failing gh command directly for more detail.",
+    docsUrl: "https://www.githubstatus.com",
+  },
+};
+
 export class CliError extends Error {
   constructor(
     message: string,
     public readonly code: ErrorCode,
     public readonly exitCode: number = 1,
+    public readonly details: CliErrorDetails = {},
   ) {
     super(message);
     this.name = "CliError";
   }
+
+  /** The `error` object printed for `--json` output. */
+  toJSON(): { code: ErrorCode; message: string; hint: string; docsUrl: string } & CliErrorDetails {
+    return { code: this.code, message: this.message, ...ERROR_REMEDIATION[this.code], ...this.details };
+  }
 }
@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import yaml from "js-yaml";
+import { parseYaml } from "./yaml.js";
+
+const source = `version: 1
+team:
+  # roles below
+  roles:
+    engineer:
+      description: "Builds things"
+      tags:
+        - backend
+        - name: infra
+          owner: ops
+      flow: {a: 1, b: [x, y]}
+`;
+
+describe("parseYaml", () => {
+  it("returns the parsed value", () => {
+    expect(parseYaml(source).value).toEqual(yaml.load(source));
+  });
+
+  it("locates mapping keys", () => {
+    const parsed = parseYaml(source);
+
+    expect(parsed.positionOf("version")).toEqual({ line: 1, column: 1 });
+    expect(parsed.positionOf("team.roles")).toEqual({ line: 4, column: 3 });
+    expect(parsed.positionOf("team.roles.engineer.description")).toEqual({ line: 6, column: 7 });
+  });
+
+  it("locates sequence items, including scalars and nested mappings", () => {
+    const parsed = parseYaml(source);
+
+    expect(parsed.positionOf("team.roles.engineer.tags[0]")).toEqual({ line: 8, column: 11 });
+    expect(parsed.positionOf("team.roles.engineer.tags[1]")).toEqual({ line: 9, column: 11 });
+    expect(parsed.positionOf("team.roles.engineer.tags[1].owner")).toEqual({ line: 10, column: 11 });
+  });
+
+  it("locates entries of flow collections", () => {
+    const parsed = parseYaml(source);
+
+    expect(parsed.positionOf("team.roles.engineer.flow.b")).toEqual({ line: 11, column: 20 });
+    expect(parsed.positionOf("team.roles.engineer.flow.b[1]")).toEqual({ line: 11, column: 27 });
+  });
+
+  it("falls back to the closest ancestor for paths that are not written", () => {
+    const parsed = parseYaml(source);
+
+    expect(parsed.positionOf("team.roles.engineer.instructions")).toEqual({ line: 5, column: 5 });
+    expect(parsed.positionOf("governance.pr")).toEqual({ line: 1, column: 1 });
+    expect(parsed.positionOf("")).toEqual({ line: 1, column: 1 });
+  });
+
+  it("throws YAMLException with a mark on syntax errors", () => {
+    expect(() => parseYaml("team:\n  roles: [\n")).toThrow(yaml.YAMLException);
+  });
+});
@@ -0,0 +1,106 @@
+import yaml from "js-yaml";
+
+/** A 1-based location in a YAML document. */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export interface ParsedYaml {
+  value: unknown;
+  /** Where `path` (e.g. team.roles.engineer.description) is written, or its closest written ancestor. */
+  positionOf(path: string): SourcePosition;
+}
+
+// One composeNode() call as seen through js-yaml's load listener
+interface NodeFrame {
+  offset: number;
+  result?: unknown;
+  children: NodeFrame[];
+}
+
+function childPath(parent: string, key: string | number): string {
+  if (typeof key === "number") return `${parent}[${key}]`;
+  return parent ? `${parent}.${key}` : key;
+}
+
+/**
+ * Parse YAML keeping the source location of every mapping key and sequence
+ * item. Throws js-yaml's YAMLException (which carries a `mark`) on syntax errors.
+ */
+export function parseYaml(content: string): ParsedYaml {
+  const root: NodeFrame = { offset: 0, children: [] };
+  const stack: NodeFrame[] = [root];
+
+  const value = yaml.load(content, {
+    schema: yaml.JSON_SCHEMA,
+    listener(event, state) {
+      if (event === "open") {
+        const frame: NodeFrame = { offset: state.position, children: [] };
+        stack[stack.length - 1].children.push(frame);
+        stack.push(frame);
+      } else {
+        const frame = stack.pop()!;
+        frame.result = state.result;
+      }
+    },
+  });
+
+  const offsets = new Map<string, number>();
+  const visit = (frame: NodeFrame, path: string): void => {
+    // A block node composes its first plain scalar as a would-be mapping key;
+    // when no ':' follows, that inner node is the node itself
+    while (frame.children.length === 1 && frame.children[0].result === frame.result) {
+      frame = frame.children[0];
+    }
+    if (Array.isArray(frame.result)) {
+      frame.children.forEach((item, i) => {
+        const itemPath = childPath(path, i);
+        offsets.set(itemPath, item.offset);
+        visit(item, itemPath);
+      });
+    } else if (typeof frame.result === "object" && frame.result !== null && frame.children.length % 2 === 0) {
+      for (let i = 0; i < frame.children.length; i += 2) {
+        const key = frame.children[i];
+        const entryPath = childPath(path, String(key.result));
+        offsets.set(entryPath, key.offset);
+        visit(frame.children[i + 1], entryPath);
+      }
+    }
+  };
+  if (root.children.length > 0) visit(root.children[0], "");
+
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === "\n") lineStarts.push(i + 1);
+  }
+
+  const toPosition = (offset: number): SourcePosition => {
+    // Listener offsets can sit on the whitespace or comments before a node
+    for (;;) {
+      const ch = content[offset];
+      if (ch === " " || ch === "\t" || ch === "\r" || ch === "\n") offset++;
+      else if (ch === "#") {
+        while (offset < content.length && content[offset] !== "\n") offset++;
+      } else break;
+    }
+    offset = Math.min(offset, content.length);
+    let line = lineStarts.length - 1;
+    while (lineStarts[line] > offset) line--;
+    return { line: line + 1, column: offset - lineStarts[line] + 1 };
+  };
+
+  return {
+    value,
+    positionOf(path: string): SourcePosition {
+      let current = path;
+      while (current) {
+        const offset = offsets.get(current);
+        if (offset !== undefined) return toPosition(offset);
+        const parent = current.replace(/(\.[^.[\]]*|\[\d+\])$/, "");
+        current = parent === current ? "" : parent;
+      }
+      return toPosition(0);
+    },
+  };
+}
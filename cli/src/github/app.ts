@@ -0,0 +1,214 @@
+import { createHash, createSign } from "node:crypto";
+import { chmod, mkdir, readFile, rename, stat, writeFile } from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
+import { CliError, type RepoRef } from "../config/types.js";
+import { apiBaseUrl } from "./http.js";
+
+const REQUEST_TIMEOUT_MS = 30_000;
+// GitHub rejects app JWTs that live longer than 10 minutes
+const JWT_LIFETIME_S = 9 * 60;
+// Backdate iat to tolerate clock drift between us and GitHub
+const JWT_CLOCK_SKEW_S = 60;
+// Installation tokens last an hour; refresh well before that
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export interface AppCredentials {
+  appId: string;
+  privateKey: string;        // PEM-encoded RSA key
+  installationId?: string;   // skips the per-repo installation lookup
+}
+
+export interface InstallationTokenOptions {
+  host: string;
+  /** Repo whose installation to use when no installation ID is given. */
+  resolveRepo: () => Promise<RepoRef>;
+  /** Where minted tokens are kept between runs; memory only when unset. */
+  cacheDir?: string;
+  now?: () => number;
+}
+
+/**
+ * Mints installation tokens for a GitHub App. Tokens are reused across runs
+ * from `cacheDir` and refreshed shortly before they expire, so long-running
+ * `watch` sessions never present a stale token.
+ */
+export interface InstallationTokenProvider {
+  token(): Promise<string>;
+  /** The app's bot login (`<slug>[bot]`), used where `api user` would be. */
+  login(): Promise<string>;
+}
+
+/**
+ * Accept the key inline (e.g. from an env var, with `\n` escapes) or as a
+ * path to a .pem file, resolved against `baseDir` when relative.
+ */
+export async function readAppPrivateKey(value: string, baseDir = "."): Promise<string> {
+  if (value.includes("-----BEGIN")) return value.replace(/\\n/g, "\n");
+  const path = resolve(baseDir, value);
+  try {
+    return await readFile(path, "utf-8");
+  } catch {
+    throw new CliError(`Cannot read GitHub App private key: ${path}`, "GH_NOT_AUTHENTICATED", 2);
+  }
+}
+
+function base64url(input: string | Buffer): string {
+  return Buffer.from(input).toString("base64url");
+}
+
+/** Build an RS256-signed JWT authenticating as the app itself. */
+export function createAppJwt(appId: string, privateKey: string, nowMs: number = Date.now()): string {
+  const iat = Math.floor(nowMs / 1000) - JWT_CLOCK_SKEW_S;
+  const header = base64url(JSON.stringify({ alg: "RS256", typ: "JWT" }));
+  const payload = base64url(JSON.stringify({ iat, exp: iat + JWT_LIFETIME_S, iss: appId }));
+  let signature: string;
+  try {
+    signature = createSign("RSA-SHA256").update(`${header}.${payload}`).sign(privateKey, "base64url");
+  } catch {
+    throw new CliError(
+      "Invalid GitHub App private key. Expected a PEM-encoded RSA key (--app-private-key).",
+      "GH_NOT_AUTHENTICATED",
+      2,
+    );
+  }
+  return `${header}.${payload}.${signature}`;
+}
+
+async function appRequest<T>(url: string, jwt: string, method = "GET"): Promise<T> {
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method,
+      headers: {
+        Accept: "application/vnd.github+json",
+        Authorization: `Bearer ${jwt}`,
+        "User-Agent": "hivemoot-cli",
+        "X-GitHub-Api-Version": "2022-11-28",
+      },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (err) {
+    const detail = err instanceof Error ? err.message : String(err);
+    throw new CliError(`GitHub App authentication failed: ${detail}`, "GH_NOT_AUTHENTICATED", 2);
+  }
+
+  const body = await res.text();
+  if (!res.ok) {
+    let message = res.statusText || "request failed";
+    try {
+      const parsed = JSON.parse(body) as { message?: string };
+      if (parsed.message) message = parsed.message;
+    } catch {
+      // Non-JSON error body — keep the status text
+    }
+    throw new CliError(
+      `GitHub App authentication failed: ${message} (HTTP ${res.status})`,
+      "GH_NOT_AUTHENTICATED",
+      2,
+    );
+  }
+  return JSON.parse(body) as T;
+}
+
+interface CachedToken {
+  token: string;
+  expiresAt: number;
+}
+
+/** One file per host, app and installation; the IDs are only stored hashed in the name. */
+function tokenCachePath(dir: string, host: string, appId: string, installationId: string): string {
+  const digest = createHash("sha256").update(`${host}\0${appId}\0${installationId}`).digest("hex");
+  return join(dir, `${digest}.json`);
+}
+
+async function readCachedToken(path: string): Promise<CachedToken | undefined> {
+  try {
+    // A token file others can read may have been tampered with or leaked; mint a fresh one
+    if (process.platform !== "win32" && ((await stat(path)).mode & 0o077) !== 0) return undefined;
+    const parsed = JSON.parse(await readFile(path, "utf-8")) as Partial<CachedToken>;
+    if (typeof parsed.token !== "string" || typeof parsed.expiresAt !== "number") return undefined;
+    return { token: parsed.token, expiresAt: parsed.expiresAt };
+  } catch {
+    // Missing or corrupted entry — mint a new token
+    return undefined;
+  }
+}
+
+async function writeCachedToken(path: string, token: CachedToken): Promise<void> {
+  // Best-effort: failing to cache must never fail authentication
+  try {
+    await mkdir(dirname(path), { recursive: true, mode: 0o700 });
+    const tmpPath = `${path}.${process.pid}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(token), { encoding: "utf-8", mode: 0o600 });
+    // mode is ignored when the file already exists
+    await chmod(tmpPath, 0o600);
+    await rename(tmpPath, path);
+  } catch {
+    // ignore
+  }
+}
+
+export function createInstallationTokenProvider(
+  credentials: AppCredentials,
+  options: InstallationTokenOptions,
+): InstallationTokenProvider {
+  const now = options.now ?? Date.now;
+  const apiBase = apiBaseUrl(options.host);
+  let current: CachedToken | undefined;
+  let pending: Promise<string> | undefined;
+  let botLogin: string | undefined;
+  let resolvedInstallationId = credentials.installationId;
+
+  const jwt = (): string => createAppJwt(credentials.appId, credentials.privateKey, now());
+
+  async function installationId(): Promise<string> {
+    if (resolvedInstallationId) return resolvedInstallationId;
+    const { owner, repo } = await options.resolveRepo();
+    const installation = await appRequest<{ id: number }>(`${apiBase}/repos/${owner}/${repo}/installation`, jwt());
+    resolvedInstallationId = String(installation.id);
+    return resolvedInstallationId;
+  }
+
+  const fresh = (token: CachedToken | undefined): token is CachedToken =>
+    token !== undefined && token.expiresAt - now() > REFRESH_MARGIN_MS;
+
+  async function refresh(): Promise<string> {
+    const id = await installationId();
+    const cachePath = options.cacheDir && tokenCachePath(options.cacheDir, options.host, credentials.appId, id);
+    if (cachePath) {
+      const cached = await readCachedToken(cachePath);
+      if (fresh(cached)) {
+        current = cached;
+        return cached.token;
+      }
+    }
+
+    const minted = await appRequest<{ token: string; expires_at: string }>(
+      `${apiBase}/app/installations/${id}/access_tokens`,
+      jwt(),
+      "POST",
+    );
+    current = { token: minted.token, expiresAt: Date.parse(minted.expires_at) };
+    if (cachePath) await writeCachedToken(cachePath, current);
+    return minted.token;
+  }
+
+  return {
+    async token() {
+      if (fresh(current)) return current.token;
+      // Concurrent requests share a single exchange
+      pending ??= refresh().finally(() => {
+        pending = undefined;
+      });
+      return pending;
+    },
+
+    async login() {
+      if (!botLogin) {
+        const app = await appRequest<{ slug: string }>(`${apiBase}/app`, jwt());
+        botLogin = `${app.slug}[bot]`;
+      }
+      return botLogin;
+    },
+  };
+}
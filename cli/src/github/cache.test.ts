@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readdir, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { conditionalHeaders, createResponseCache, defaultCacheDir } from "./cache.js";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "hivemoot-cache-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("createResponseCache()", () => {
+  it("round-trips an entry", async () => {
+    const cache = createResponseCache(dir);
+    await cache.store("GET user", "tok", { etag: '"abc"', body: '{"login":"alice"}' });
+
+    expect(await cache.lookup("GET user", "tok")).toEqual({
+      etag: '"abc"',
+      lastModified: undefined,
+      link: undefined,
+      body: '{"login":"alice"}',
+    });
+  });
+
+  it("keeps entries separate per token", async () => {
+    const cache = createResponseCache(dir);
+    await cache.store("GET user", "tok-a", { etag: '"a"', body: "a" });
+
+    expect(await cache.lookup("GET user", "tok-b")).toBeUndefined();
+    expect(await cache.lookup("GET user", undefined)).toBeUndefined();
+  });
+
+  it("never writes the token to disk", async () => {
+    const cache = createResponseCache(dir);
+    await cache.store("GET user", "super-secret-token", { etag: '"a"', body: "a" });
+
+    const [file] = await readdir(dir);
+    expect(file).not.toContain("super-secret-token");
+    expect(await readFile(join(dir, file), "utf-8")).not.toContain("super-secret-token");
+  });
+
+  it("skips responses without validators", async () => {
+    const cache = createResponseCache(dir);
+    await cache.store("GET user", "tok", { body: "a" });
+
+    expect(await cache.lookup("GET user", "tok")).toBeUndefined();
+  });
+
+  it("treats a missing directory as empty", async () => {
+    const cache = createResponseCache(join(dir, "does-not-exist"));
+
+    expect(await cache.lookup("GET user", "tok")).toBeUndefined();
+  });
+
+  it("counts hits and misses", () => {
+    const cache = createResponseCache(dir);
+    cache.recordHit();
+    cache.recordMiss();
+    cache.recordMiss();
+
+    expect(cache.stats()).toEqual({ hits: 1, misses: 2 });
+  });
+});
+
+describe("conditionalHeaders()", () => {
+  it("maps validators to conditional request headers", () => {
+    expect(conditionalHeaders({ etag: '"x"', lastModified: "Tue, 01 Jan 2030 00:00:00 GMT", body: "" })).toEqual({
+      "If-None-Match": '"x"',
+      "If-Modified-Since": "Tue, 01 Jan 2030 00:00:00 GMT",
+    });
+  });
+});
+
+describe("defaultCacheDir()", () => {
+  it("honors XDG_CACHE_HOME", () => {
+    const saved = process.env.XDG_CACHE_HOME;
+    process.env.XDG_CACHE_HOME = "/tmp/xdg";
+    try {
+      expect(defaultCacheDir()).toBe(join("/tmp/xdg", "hivemoot"));
+    } finally {
+      if (saved === undefined) delete process.env.XDG_CACHE_HOME;
+      else process.env.XDG_CACHE_HOME = saved;
+    }
+  });
+});
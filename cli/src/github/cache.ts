@@ -0,0 +1,96 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { join } from "node:path";
+
+export interface CachedResponse {
+  etag?: string;
+  lastModified?: string;
+  link?: string;      // pagination header, replayed alongside the body
+  body: string;
+}
+
+export interface CacheStats {
+  hits: number;     // 304s served from the cache
+  misses: number;   // cacheable requests that needed a full response
+}
+
+/**
+ * On-disk store for conditional GET requests. Entries are keyed by request
+ * and token so responses are never shared across identities; the token
+ * itself is only ever stored as a hash.
+ */
+export interface ResponseCache {
+  lookup(key: string, token?: string): Promise<CachedResponse | undefined>;
+  store(key: string, token: string | undefined, entry: CachedResponse): Promise<void>;
+  recordHit(): void;
+  recordMiss(): void;
+  stats(): CacheStats;
+}
+
+/** Default cache location: $XDG_CACHE_HOME/hivemoot, falling back to ~/.cache/hivemoot. */
+export function defaultCacheDir(): string {
+  const base = process.env.XDG_CACHE_HOME || join(homedir(), ".cache");
+  return join(base, "hivemoot");
+}
+
+/** Headers that turn a GET into a conditional request for a cached entry. */
+export function conditionalHeaders(entry: CachedResponse): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (entry.etag) headers["If-None-Match"] = entry.etag;
+  if (entry.lastModified) headers["If-Modified-Since"] = entry.lastModified;
+  return headers;
+}
+
+export function createResponseCache(dir: string): ResponseCache {
+  let hits = 0;
+  let misses = 0;
+
+  const entryPath = (key: string, token?: string): string => {
+    const digest = createHash("sha256")
+      .update(token ? createHash("sha256").update(token).digest("hex") : "anonymous")
+      .update("\0")
+      .update(key)
+      .digest("hex");
+    return join(dir, `${digest}.json`);
+  };
+
+  return {
+    async lookup(key, token) {
+      try {
+        const parsed = JSON.parse(await readFile(entryPath(key, token), "utf-8")) as Partial<CachedResponse>;
+        if (typeof parsed.body !== "string" || (!parsed.etag && !parsed.lastModified)) return undefined;
+        return { etag: parsed.etag, lastModified: parsed.lastModified, link: parsed.link, body: parsed.body };
+      } catch {
+        // Missing or corrupted entry — treat as a miss
+        return undefined;
+      }
+    },
+
+    async store(key, token, entry) {
+      if (!entry.etag && !entry.lastModified) return;
+      // Best-effort: a cache write failure must never fail the request
+      try {
+        await mkdir(dir, { recursive: true });
+        const path = entryPath(key, token);
+        const tmpPath = `${path}.${process.pid}.tmp`;
+        await writeFile(tmpPath, JSON.stringify(entry), "utf-8");
+        await rename(tmpPath, path);
+      } catch {
+        // ignore
+      }
+    },
+
+    recordHit() {
+      hits++;
+    },
+
+    recordMiss() {
+      misses++;
+    },
+
+    stats() {
+      return { hits, misses };
+    },
+  };
+}
@@ -17,7 +17,7 @@ import { promisify } from "util";
 const execFilePromisified = promisify(execFile) as unknown as ReturnType<typeof vi.fn>;
 
 // Dynamic import so the module picks up our mock
-const { gh, setGhToken } = await import("./client.js");
+const { gh, setGhToken, configureRetries } = await import("./client.js");
 
 function mockSuccess(stdout: string) {
   execFilePromisified.mockResolvedValue({ stdout, stderr: "" });
@@ -30,6 +30,8 @@ function mockFailure(err: Error & { code?: string | number; stderr?: string }) {
 describe("gh()", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    // Classification only; retries are covered in retry.test.ts
+    configureRetries({ maxRetries: 0 });
   });
 
   it("returns trimmed stdout on success", async () => {
@@ -102,7 +104,7 @@ describe("gh()", () => {
     );
 
     await expect(gh(["api", "/repos"])).rejects.toMatchObject({
-      code: "GH_ERROR",
+      code: "REPO_ACCESS_DENIED",
     });
   });
 
@@ -189,3 +191,241 @@ describe("gh()", () => {
     );
   });
 });
+
+describe("failure classification", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    configureRetries({ maxRetries: 0 });
+  });
+
+  function failWith(stderr: string, extra: Record<string, unknown> = {}) {
+    mockFailure(Object.assign(new Error("failed"), { code: 1 as string | number, stderr, ...extra }));
+  }
+
+  it("names missing scopes from gh's REST message", async () => {
+    failWith('This API operation needs the "admin:org" scope. To request it, run:  gh auth refresh -h github.com -s admin:org');
+
+    await expect(gh(["api", "orgs/o/teams"])).rejects.toMatchObject({
+      code: "GH_MISSING_SCOPES",
+      exitCode: 2,
+      details: { requiredScopes: ["admin:org"], hint: expect.stringContaining("gh auth refresh -s admin:org") },
+    });
+  });
+
+  it("names missing scopes from GraphQL's message", async () => {
+    failWith("GraphQL: Your token has not been granted the required scopes to execute this query. The 'login' field requires one of the following scopes: ['read:org', 'read:discussion'].");
+
+    await expect(gh(["api", "graphql"])).rejects.toMatchObject({
+      code: "GH_MISSING_SCOPES",
+      details: { requiredScopes: ["read:org", "read:discussion"] },
+    });
+  });
+
+  it("detects SAML SSO enforcement", async () => {
+    failWith("gh: Resource protected by organization SAML enforcement. You must grant your Personal Access token access to this organization. (HTTP 403)");
+
+    await expect(gh(["api", "repos/o/r"])).rejects.toMatchObject({ code: "GH_SSO_REQUIRED", exitCode: 2 });
+  });
+
+  it("detects repositories the token cannot see", async () => {
+    failWith("GraphQL: Could not resolve to a Repository with the name 'o/r'. (repository)");
+
+    await expect(gh(["api", "graphql"])).rejects.toMatchObject({ code: "REPO_ACCESS_DENIED" });
+  });
+
+  it("detects GraphQL node-limit failures", async () => {
+    failWith("GraphQL: By the time this query traverses to the reactions connection, it is requesting up to 1,000,000 possible nodes which exceeds the maximum limit of 500,000.");
+
+    await expect(gh(["api", "graphql"])).rejects.toMatchObject({ code: "GRAPHQL_NODE_LIMIT" });
+  });
+
+  it("detects a gh subprocess killed by its timeout", async () => {
+    failWith("", { killed: true, signal: "SIGTERM" });
+
+    await expect(gh(["api", "user"])).rejects.toMatchObject({
+      code: "GH_TIMEOUT",
+      message: "GitHub request timed out",
+    });
+  });
+
+  it("carries a hint and docs URL in the JSON error object", async () => {
+    failWith("GraphQL: Could not resolve to a Repository with the name 'o/r'. (repository)");
+
+    const err = await gh(["api", "graphql"]).catch((e: CliError) => e);
+
+    expect(JSON.parse(JSON.stringify(err))).toEqual({
+      code: "REPO_ACCESS_DENIED",
+      message: "GraphQL: Could not resolve to a Repository with the name 'o/r'. (repository)",
+      hint: expect.any(String),
+      docsUrl: expect.stringMatching(/^https:\/\//),
+    });
+  });
+});
+
+describe("setGhTransport()", () => {
+  it("routes calls through the http transport and classifies its failures", async () => {
+    vi.resetModules();
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ message: "Bad credentials" }), { status: 401 }),
+    );
+    vi.stubGlobal("fetch", fetchMock);
+
+    try {
+      const client = await import("./client.js");
+      client.setGhToken("bad-token");
+      client.setGhTransport("http");
+
+      await expect(client.gh(["api", "user"])).rejects.toMatchObject({
+        code: "GH_NOT_AUTHENTICATED",
+        exitCode: 2,
+      });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
+
+describe("setGhAppAuth()", () => {
+  it("authenticates with the installation token instead of the static token", async () => {
+    vi.resetModules();
+    const client = await import("./client.js");
+    const provider = { token: vi.fn().mockResolvedValue("ghs_installation"), login: vi.fn() };
+    client.setGhToken("static-token");
+    client.setGhAppAuth(provider);
+    mockSuccess("ok");
+
+    await client.gh(["api", "repos/o/r"]);
+
+    const opts = execFilePromisified.mock.calls.at(-1)![2] as { env?: NodeJS.ProcessEnv };
+    expect(opts.env!.GH_TOKEN).toBe("ghs_installation");
+  });
+
+  it("asks the provider for a token on every attempt, so waits cannot outlive it", async () => {
+    vi.resetModules();
+    const client = await import("./client.js");
+    const provider = {
+      token: vi.fn().mockResolvedValueOnce("ghs_first").mockResolvedValueOnce("ghs_refreshed"),
+      login: vi.fn(),
+    };
+    client.setGhAppAuth(provider);
+    client.configureRetries({ baseDelayMs: 0, onRetry: () => {} });
+    execFilePromisified
+      .mockRejectedValueOnce(Object.assign(new Error("Command failed"), { stderr: "HTTP 502: Bad Gateway" }))
+      .mockResolvedValueOnce({ stdout: "ok", stderr: "" });
+
+    await expect(client.gh(["api", "repos/o/r"])).resolves.toBe("ok");
+
+    expect(provider.token).toHaveBeenCalledTimes(2);
+    const opts = execFilePromisified.mock.calls.at(-1)![2] as { env?: NodeJS.ProcessEnv };
+    expect(opts.env!.GH_TOKEN).toBe("ghs_refreshed");
+  });
+
+  it("passes token provider errors through unchanged", async () => {
+    vi.resetModules();
+    const client = await import("./client.js");
+    // Fresh module graph: the error must come from the same CliError class
+    const types = await import("../config/types.js");
+    const failure = new types.CliError("GitHub App authentication failed: Not Found (HTTP 404)", "GH_NOT_AUTHENTICATED", 2);
+    client.setGhAppAuth({ token: vi.fn().mockRejectedValue(failure), login: vi.fn() });
+
+    await expect(client.gh(["api", "repos/o/r"])).rejects.toBe(failure);
+  });
+});
+
+describe("rate limit errors", () => {
+  it("reports the reset timestamp in CliError details", async () => {
+    vi.resetModules();
+    const resetSeconds = Math.floor(Date.now() / 1000) + 7200;
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ message: "API rate limit exceeded for user ID 1." }), {
+        status: 403,
+        headers: { "x-ratelimit-remaining": "0", "x-ratelimit-reset": String(resetSeconds) },
+      }),
+    ));
+
+    try {
+      const client = await import("./client.js");
+      client.setGhToken("t");
+      client.setGhTransport("http");
+      client.configureRateLimits({ maxWaitMs: 0 });
+
+      await expect(client.gh(["api", "user"])).rejects.toMatchObject({
+        code: "RATE_LIMITED",
+        exitCode: 3,
+        details: { resetAt: new Date(resetSeconds * 1000).toISOString() },
+      });
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it("reports the reset time on the gh transport from gh api rate_limit", async () => {
+    vi.resetModules();
+    vi.clearAllMocks();
+    const resetSeconds = Math.floor(Date.now() / 1000) + 7200;
+    execFilePromisified
+      .mockRejectedValueOnce(Object.assign(new Error("Command failed"), {
+        stderr: "GraphQL: API rate limit exceeded for user ID 1.",
+      }))
+      .mockResolvedValueOnce({
+        stdout: JSON.stringify({ resources: { graphql: { remaining: 0, reset: resetSeconds } } }),
+        stderr: "",
+      });
+
+    const client = await import("./client.js");
+    client.configureRateLimits({ maxWaitMs: 0 });
+
+    await expect(client.gh(["issue", "list", "--json", "number"])).rejects.toMatchObject({
+      code: "RATE_LIMITED",
+      details: { resetAt: new Date(resetSeconds * 1000).toISOString() },
+    });
+  });
+
+  it("holds the gh transport's next request until the reset", async () => {
+    vi.resetModules();
+    vi.clearAllMocks();
+    const resetSeconds = Math.floor(Date.now() / 1000) + 30;
+    execFilePromisified
+      .mockRejectedValueOnce(Object.assign(new Error("Command failed"), { stderr: "API rate limit exceeded" }))
+      .mockResolvedValueOnce({
+        stdout: JSON.stringify({ resources: { core: { remaining: 0, reset: resetSeconds } } }),
+        stderr: "",
+      })
+      .mockResolvedValueOnce({ stdout: '{"login":"alice"}', stderr: "" });
+    const sleep = vi.fn().mockResolvedValue(undefined);
+
+    const client = await import("./client.js");
+    client.configureRateLimits({ maxWaitMs: 60_000, sleep });
+
+    await expect(client.gh(["api", "user"])).resolves.toBe('{"login":"alice"}');
+    expect(sleep).toHaveBeenCalledTimes(1);
+    expect(sleep.mock.calls[0][0]).toBeGreaterThan(0);
+  });
+});
+
+describe("configureRetries()", () => {
+  it("retries transient failures and reports them", async () => {
+    vi.resetModules();
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(new Response("bad gateway", { status: 502 }))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ login: "alice" }), { status: 200 }));
+    vi.stubGlobal("fetch", fetchMock);
+    const stderr = vi.spyOn(process.stderr, "write").mockImplementation(() => true);
+
+    try {
+      const client = await import("./client.js");
+      client.setGhToken("t");
+      client.setGhTransport("http");
+      client.configureRetries({ baseDelayMs: 0 });
+
+      await expect(client.gh(["api", "user"])).resolves.toBe('{"login":"alice"}');
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(client.getRetryStats()).toEqual({ retries: 1, budgetExhausted: false });
+      expect(stderr).toHaveBeenCalledWith(expect.stringContaining("retrying gh api user"));
+    } finally {
+      stderr.mockRestore();
+      vi.unstubAllGlobals();
+    }
+  });
+});
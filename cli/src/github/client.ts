@@ -1,62 +1,235 @@
-import { execFile } from "child_process";
-import { promisify } from "util";
 import { CliError } from "../config/types.js";
-
-const execFileAsync = promisify(execFile);
+import {
+  DEFAULT_HOST,
+  ghCliTransport,
+  type GhTransport,
+  type TransportFailure,
+  type TransportName,
+} from "./transport.js";
+import { httpTransport } from "./http.js";
+import { recordingTransport, replayTransport } from "./replay.js";
+import type { CacheStats, ResponseCache } from "./cache.js";
+import type { InstallationTokenProvider } from "./app.js";
+import type { SnapshotStore } from "./store.js";
+import {
+  createRateLimitScheduler,
+  DEFAULT_SCHEDULER_OPTIONS,
+  rateLimitResource,
+  type RateLimitScheduler,
+  type SchedulerOptions,
+} from "./ratelimit.js";
+import {
+  createRetryPolicy,
+  DEFAULT_RETRY_OPTIONS,
+  type RetryEvent,
+  type RetryOptions,
+  type RetryPolicy,
+  type RetryStats,
+} from "./retry.js";
 
 let ghToken: string | undefined;
+let ghLogin: string | undefined;
+let appAuth: InstallationTokenProvider | undefined;
+let ghHost: string = DEFAULT_HOST;
+let transport: GhTransport = ghCliTransport;
+let responseCache: ResponseCache | undefined;
+let snapshotStore: SnapshotStore | undefined;
+let scheduler: RateLimitScheduler = createRateLimitScheduler(DEFAULT_SCHEDULER_OPTIONS);
+let retryPolicy: RetryPolicy = createRetryPolicy({ ...DEFAULT_RETRY_OPTIONS, onRetry: logRetry });
+
+function logRetry({ args, attempt, delayMs, reason }: RetryEvent): void {
+  const command = args[0] === "api" ? `api ${args[1]}` : args.slice(0, 2).join(" ");
+  process.stderr.write(`hivemoot: retrying gh ${command} in ${(delayMs / 1000).toFixed(1)}s (${reason}, retry ${attempt})\n`);
+}
 
 /** Set the GitHub token used for all subsequent `gh` calls. */
 export function setGhToken(token: string): void {
   ghToken = token;
 }
 
+/** Authenticate all subsequent `gh` calls as a GitHub App installation. */
+export function setGhAppAuth(provider: InstallationTokenProvider | undefined): void {
+  appAuth = provider;
+}
+
+/** Pin the login of the selected identity, skipping the `api user` lookup. */
+export function setGhLogin(login: string | undefined): void {
+  ghLogin = login;
+}
+
+/**
+ * The login of the selected identity when it is known without asking
+ * `api user`: a pinned login, or the app's bot login for GitHub Apps.
+ */
+export async function getGhLogin(): Promise<string | undefined> {
+  return ghLogin ?? appAuth?.login();
+}
+
+/** Set the GitHub host (github.com or an Enterprise Server hostname). */
+export function setGhHost(host: string): void {
+  ghHost = host;
+}
+
+export function getGhHost(): string {
+  return ghHost;
+}
+
+/** Base URL for github.com-style web links on the configured host. */
+export function githubWebUrl(): string {
+  return `https://${ghHost}`;
+}
+
+/** Select the backend used for all subsequent `gh` calls. */
+export function setGhTransport(name: TransportName): void {
+  transport = name === "http" ? httpTransport : ghCliTransport;
+}
+
+/** Name of the active backend: "gh", "http", or "replay". */
+export function getGhTransportName(): string {
+  return transport.name;
+}
+
+/** Record every request/response pair from now on as fixture files in `dir`. */
+export function recordGhTraffic(dir: string): void {
+  transport = recordingTransport(transport, dir);
+}
+
+/** Serve all requests from fixtures previously recorded into `dir`. */
+export function replayGhTraffic(dir: string): void {
+  transport = replayTransport(dir);
+}
+
+/** Enable conditional requests backed by the given cache (undefined disables). */
+export function setResponseCache(cache: ResponseCache | undefined): void {
+  responseCache = cache;
+}
+
+/** Hit/miss counts for this run, or undefined when caching is disabled. */
+export function getResponseCacheStats(): CacheStats | undefined {
+  return responseCache?.stats();
+}
+
+/** Keep a local per-repo snapshot for incremental syncs (undefined disables). */
+export function setSnapshotStore(store: SnapshotStore | undefined): void {
+  snapshotStore = store;
+}
+
+export function getSnapshotStore(): SnapshotStore | undefined {
+  return snapshotStore;
+}
+
+/** Replace the rate-limit scheduler, overriding the default limits. */
+export function configureRateLimits(options: Partial<SchedulerOptions>): void {
+  scheduler = createRateLimitScheduler({ ...DEFAULT_SCHEDULER_OPTIONS, ...options });
+}
+
+/** Replace the retry policy for transient failures, overriding the defaults. */
+export function configureRetries(options: Partial<RetryOptions>): void {
+  retryPolicy = createRetryPolicy({ ...DEFAULT_RETRY_OPTIONS, onRetry: logRetry, ...options });
+}
+
+/** Retries spent so far this run. */
+export function getRetryStats(): RetryStats {
+  return retryPolicy.stats();
+}
+
 /**
  * Execute a `gh` CLI command and return stdout.
- * All GitHub I/O goes through this single function.
+ * All GitHub I/O goes through this single function, whichever transport
+ * ends up serving the request.
  */
 export async function gh(args: string[]): Promise<string> {
   try {
-    const opts: { timeout: number; env?: NodeJS.ProcessEnv } = {
-      timeout: 30_000,
-    };
-    if (ghToken) {
-      opts.env = { ...process.env, GH_TOKEN: ghToken };
-    }
-    const { stdout } = await execFileAsync("gh", args, opts);
+    const stdout = await retryPolicy.run(args, () =>
+      scheduler.schedule(rateLimitResource(args), async () =>
+        transport.run(args, {
+          // Installation tokens expire hourly, so fetch one per attempt:
+          // backoff and rate-limit waits can outlast the previous token
+          token: appAuth ? await appAuth.token() : ghToken,
+          host: ghHost === DEFAULT_HOST ? undefined : ghHost,
+          cache: responseCache,
+          onRateLimit: (info) => scheduler.observe(info),
+        }),
+      ),
+    );
     return stdout.trim();
   } catch (err: unknown) {
-    const error = err as NodeJS.ErrnoException & {
-      stderr?: string;
-      code?: string | number;
-    };
-
-    if (error.code === "ENOENT") {
-      throw new CliError(
-        "gh CLI not found. Install: https://cli.github.com",
-        "GH_NOT_FOUND",
-        2,
-      );
-    }
-
-    const stderr = error.stderr ?? error.message ?? "";
-
-    if (/gh auth login|not logged in|authentication required/i.test(stderr)) {
-      throw new CliError(
-        "Not authenticated. Pass --github-token <token>, set GITHUB_TOKEN, or run: gh auth login",
-        "GH_NOT_AUTHENTICATED",
-        2,
-      );
-    }
-
-    if (/rate.?limit|API rate limit/i.test(stderr)) {
-      throw new CliError(
-        "GitHub rate limited. Try again later.",
-        "RATE_LIMITED",
-        3,
-      );
-    }
-
-    throw new CliError(stderr || "gh command failed", "GH_ERROR", 1);
+    if (err instanceof CliError) throw err;
+    throw classifyFailure(err as TransportFailure);
   }
 }
+
+/** GitHub's scope names from a missing-scopes message, REST or GraphQL wording. */
+function requiredScopes(message: string): string[] {
+  const rest = message.match(/needs the "([^"]+)" scope/);
+  if (rest) return [rest[1]];
+  const graphql = message.match(/requires one of the following scopes: \[([^\]]*)\]/);
+  if (graphql) return graphql[1].split(",").map((s) => s.trim().replace(/^['"]|['"]$/g, "")).filter(Boolean);
+  return [];
+}
+
+/** Map a transport failure to the most specific CliError. */
+function classifyFailure(error: TransportFailure): CliError {
+  if (error.code === "ENOENT") {
+    return new CliError(
+      "gh CLI not found. Install: https://cli.github.com (or use --transport http with a token)",
+      "GH_NOT_FOUND",
+      2,
+    );
+  }
+
+  // The http transport parses bodies itself; gh would have printed them
+  if (error instanceof SyntaxError) {
+    return new CliError(`Malformed response from GitHub: ${error.message}`, "MALFORMED_RESPONSE", 1);
+  }
+
+  const stderr = error.stderr ?? error.message ?? "";
+
+  if (/SAML enforcement|single sign-on|\bSSO\b/i.test(stderr)) {
+    return new CliError(stderr, "GH_SSO_REQUIRED", 2);
+  }
+
+  if (/required scopes|needs the "[^"]+" scope|INSUFFICIENT_SCOPES/i.test(stderr)) {
+    const scopes = requiredScopes(stderr);
+    return new CliError(
+      scopes.length > 0 ? `GitHub token is missing scopes: ${scopes.join(", ")}` : stderr,
+      "GH_MISSING_SCOPES",
+      2,
+      scopes.length > 0
+        ? { requiredScopes: scopes, hint: `Grant the token ${scopes.join(", ")} (gh auth refresh -s ${scopes[0]}) or issue a new token.` }
+        : {},
+    );
+  }
+
+  if (error.status === 401 || /gh auth login|not logged in|authentication required/i.test(stderr)) {
+    return new CliError(
+      "Not authenticated. Pass --github-token <token>, set GITHUB_TOKEN, or run: gh auth login",
+      "GH_NOT_AUTHENTICATED",
+      2,
+    );
+  }
+
+  if (/rate.?limit|API rate limit/i.test(stderr)) {
+    const resetAt = error.resetAt ? new Date(error.resetAt).toISOString() : undefined;
+    return new CliError(
+      resetAt ? `GitHub rate limited. Resets at ${resetAt}.` : "GitHub rate limited. Try again later.",
+      "RATE_LIMITED",
+      3,
+      resetAt ? { resetAt } : {},
+    );
+  }
+
+  if (/exceeds the maximum limit of [\d,]+|MAX_NODE_LIMIT_EXCEEDED/i.test(stderr)) {
+    return new CliError(stderr, "GRAPHQL_NODE_LIMIT", 1);
+  }
+
+  if (/Could not resolve to a Repository|Resource not accessible by (integration|personal access token)|Repository access blocked/i.test(stderr)) {
+    return new CliError(stderr, "REPO_ACCESS_DENIED", 1);
+  }
+
+  if (error.killed || /timed? ?out|timeout|ETIMEDOUT/i.test(stderr)) {
+    return new CliError(stderr || "GitHub request timed out", "GH_TIMEOUT", 1);
+  }
+
+  return new CliError(stderr || "gh command failed", "GH_ERROR", 1);
+}
@@ -0,0 +1,302 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+vi.mock("child_process", () => {
+  const { promisify } = require("util");
+  const mockFn = vi.fn();
+  mockFn[promisify.custom] = vi.fn();
+  return { execFile: mockFn };
+});
+
+import { execFile } from "child_process";
+import { promisify } from "util";
+import type { CachedResponse, ResponseCache } from "./cache.js";
+import { httpTransport, parseApiArgs } from "./http.js";
+import { parseIncludedResponse } from "./transport.js";
+
+const execFilePromisified = promisify(execFile) as unknown as ReturnType<typeof vi.fn>;
+const fetchMock = vi.fn();
+
+function jsonResponse(body: unknown, init: { status?: number; headers?: Record<string, string> } = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status: init.status ?? 200,
+    headers: { "Content-Type": "application/json", ...init.headers },
+  });
+}
+
+function lastRequest(index = -1): { url: string; init: RequestInit; body: Record<string, unknown> | undefined } {
+  const call = fetchMock.mock.calls.at(index)!;
+  const init = call[1] as RequestInit;
+  return {
+    url: call[0] as string,
+    init,
+    body: init.body ? JSON.parse(init.body as string) : undefined,
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  fetchMock.mockReset();
+  vi.stubGlobal("fetch", fetchMock);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("parseApiArgs()", () => {
+  it("parses endpoint, method, and typed fields", () => {
+    const request = parseApiArgs([
+      "--method", "PATCH", "/notifications/threads/1",
+      "-f", "name=42", "-F", "count=42", "-F", "flag=true", "-F", "none=null",
+    ]);
+
+    expect(request).toEqual({
+      endpoint: "/notifications/threads/1",
+      method: "PATCH",
+      paginate: false,
+      fields: { name: "42", count: 42, flag: true, none: null },
+      headers: {},
+    });
+  });
+
+  it("rejects flags the http transport cannot honor", () => {
+    expect(() => parseApiArgs(["user", "--jq", ".login"])).toThrow(/--jq/);
+  });
+});
+
+describe("httpTransport", () => {
+  it("requires a token", async () => {
+    const saved = process.env.GH_TOKEN;
+    delete process.env.GH_TOKEN;
+    try {
+      await expect(httpTransport.run(["api", "user"], {})).rejects.toMatchObject({ status: 401 });
+    } finally {
+      if (saved !== undefined) process.env.GH_TOKEN = saved;
+    }
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("sends REST GETs with the bearer token", async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ login: "alice" }));
+
+    const out = await httpTransport.run(["api", "user"], { token: "t0k" });
+
+    expect(JSON.parse(out)).toEqual({ login: "alice" });
+    const { url, init } = lastRequest();
+    expect(url).toBe("https://api.github.com/user");
+    expect(init.method).toBe("GET");
+    expect((init.headers as Record<string, string>).Authorization).toBe("Bearer t0k");
+  });
+
+  it("prefixes the status line and headers with -i, like gh", async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ login: "alice" }, { headers: { "X-OAuth-Scopes": "repo, read:org" } }));
+
+    const out = await httpTransport.run(["api", "-i", "user"], { token: "t" });
+
+    const response = parseIncludedResponse(out);
+    expect(response?.status).toBe(200);
+    expect(response?.headers.get("x-oauth-scopes")).toBe("repo, read:org");
+    expect(JSON.parse(response!.body)).toEqual({ login: "alice" });
+  });
+
+  it("passes absolute API URLs through unchanged", async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ body: "hi" }));
+
+    await httpTransport.run(["api", "https://api.github.com/repos/o/r/issues/comments/9"], { token: "t" });
+
+    expect(lastRequest().url).toBe("https://api.github.com/repos/o/r/issues/comments/9");
+  });
+
+  it("follows Link headers and merges pages with --paginate", async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse([{ id: "1" }], {
+        headers: { Link: '<https://api.github.com/repos/o/r/notifications?page=2>; rel="next"' },
+      }))
+      .mockResolvedValueOnce(jsonResponse([{ id: "2" }]));
+
+    const out = await httpTransport.run(["api", "--paginate", "/repos/o/r/notifications?all=false"], { token: "t" });
+
+    expect(JSON.parse(out)).toEqual([{ id: "1" }, { id: "2" }]);
+    expect(lastRequest().url).toBe("https://api.github.com/repos/o/r/notifications?page=2");
+  });
+
+  it("sends graphql fields as variables", async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ data: { ok: true } }));
+
+    await httpTransport.run(
+      ["api", "graphql", "-f", "query=query { ok }", "-F", "number=7", "-F", "owner=hivemoot"],
+      { token: "t" },
+    );
+
+    const { url, init, body } = lastRequest();
+    expect(url).toBe("https://api.github.com/graphql");
+    expect(init.method).toBe("POST");
+    expect(body).toEqual({ query: "query { ok }", variables: { number: 7, owner: "hivemoot" } });
+  });
+
+  it("fails like gh on GraphQL errors", async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ errors: [{ message: "Something went wrong" }] }));
+
+    await expect(
+      httpTransport.run(["api", "graphql", "-f", "query=query { ok }"], { token: "t" }),
+    ).rejects.toMatchObject({ stderr: "GraphQL: Something went wrong" });
+  });
+
+  it("reports HTTP errors with status and gh-style message", async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ message: "Not Found" }, { status: 404 }));
+
+    await expect(
+      httpTransport.run(["api", "repos/o/r/contents/.github/hivemoot.yml"], { token: "t" }),
+    ).rejects.toMatchObject({ status: 404, stderr: "gh: Not Found (HTTP 404)" });
+  });
+
+  it("emulates gh issue list with a paginated GraphQL query", async () => {
+    fetchMock.mockResolvedValue(jsonResponse({
+      data: {
+        repository: {
+          issues: {
+            pageInfo: { hasNextPage: false, endCursor: null },
+            nodes: [{
+              number: 1,
+              title: "Bug",
+              labels: { nodes: [{ name: "bug" }] },
+              assignees: { nodes: [] },
+              author: { login: "bob" },
+              comments: { nodes: [{ createdAt: "2025-01-01T00:00:00Z", author: { login: "amy" } }] },
+            }],
+          },
+        },
+      },
+    }));
+
+    const out = await httpTransport.run(
+      ["issue", "list", "-R", "hivemoot/cli", "--state", "open", "--json", "number,title,labels,assignees,author,comments", "--limit", "200"],
+      { token: "t" },
+    );
+
+    expect(JSON.parse(out)).toEqual([{
+      number: 1,
+      title: "Bug",
+      labels: [{ name: "bug" }],
+      assignees: [],
+      author: { login: "bob" },
+      comments: [{ createdAt: "2025-01-01T00:00:00Z", author: { login: "amy" } }],
+    }]);
+    const { body } = lastRequest();
+    expect(body?.variables).toMatchObject({ owner: "hivemoot", name: "cli", pageSize: 100, states: ["OPEN"] });
+  });
+
+  it("emulates gh pr list, flattening the status check rollup", async () => {
+    fetchMock.mockResolvedValue(jsonResponse({
+      data: {
+        repository: {
+          pullRequests: {
+            pageInfo: { hasNextPage: false, endCursor: null },
+            nodes: [{
+              number: 42,
+              reviewDecision: null,
+              statusCheckRollup: {
+                nodes: [{
+                  commit: {
+                    statusCheckRollup: {
+                      contexts: { nodes: [{ __typename: "StatusContext", context: "ci", state: "SUCCESS" }] },
+                    },
+                  },
+                }],
+              },
+            }],
+          },
+        },
+      },
+    }));
+
+    const out = await httpTransport.run(
+      ["pr", "list", "-R", "hivemoot/cli", "--json", "number,reviewDecision,statusCheckRollup", "--limit", "5"],
+      { token: "t" },
+    );
+
+    expect(JSON.parse(out)).toEqual([{
+      number: 42,
+      reviewDecision: "",
+      statusCheckRollup: [{ __typename: "StatusContext", context: "ci", state: "SUCCESS" }],
+    }]);
+  });
+
+  it("rejects --json fields it cannot emulate", async () => {
+    await expect(
+      httpTransport.run(["pr", "list", "-R", "o/r", "--json", "files"], { token: "t" }),
+    ).rejects.toMatchObject({ stderr: expect.stringContaining("files") });
+  });
+
+  it("detects the repo from the git origin remote for repo view", async () => {
+    execFilePromisified.mockResolvedValue({ stdout: "git@github.com:hivemoot/cli.git\n", stderr: "" });
+
+    const out = await httpTransport.run(["repo", "view", "--json", "owner,name"], {});
+
+    expect(JSON.parse(out)).toEqual({ owner: { login: "hivemoot" }, name: "cli" });
+  });
+});
+
+describe("httpTransport on GitHub Enterprise Server", () => {
+  it("sends REST requests to the host's /api/v3 base", async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ login: "alice" }));
+
+    await httpTransport.run(["api", "user"], { token: "t", host: "ghe.example.com" });
+
+    expect(lastRequest().url).toBe("https://ghe.example.com/api/v3/user");
+  });
+
+  it("sends GraphQL requests to /api/graphql", async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ data: { ok: true } }));
+
+    await httpTransport.run(["api", "graphql", "-f", "query=query { ok }"], { token: "t", host: "ghe.example.com" });
+
+    expect(lastRequest().url).toBe("https://ghe.example.com/api/graphql");
+  });
+
+  it("detects the repo from a remote on the enterprise host", async () => {
+    execFilePromisified.mockResolvedValue({ stdout: "https://ghe.example.com/hivemoot/cli.git\n", stderr: "" });
+
+    const out = await httpTransport.run(["repo", "view", "--json", "owner,name"], { host: "ghe.example.com" });
+
+    expect(JSON.parse(out)).toEqual({ owner: { login: "hivemoot" }, name: "cli" });
+  });
+});
+
+describe("httpTransport response cache", () => {
+  function memoryCache(): ResponseCache {
+    const entries = new Map<string, CachedResponse>();
+    let hits = 0;
+    let misses = 0;
+    return {
+      lookup: async (key) => entries.get(key),
+      store: async (key, _token, entry) => { if (entry.etag || entry.lastModified) entries.set(key, entry); },
+      recordHit: () => { hits++; },
+      recordMiss: () => { misses++; },
+      stats: () => ({ hits, misses }),
+    };
+  }
+
+  it("sends If-None-Match and serves the cached body on 304", async () => {
+    const cache = memoryCache();
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse({ login: "alice" }, { headers: { ETag: '"v1"' } }))
+      .mockResolvedValueOnce(new Response(null, { status: 304 }));
+
+    const first = await httpTransport.run(["api", "user"], { token: "t", cache });
+    const second = await httpTransport.run(["api", "user"], { token: "t", cache });
+
+    expect(second).toBe(first);
+    expect((lastRequest().init.headers as Record<string, string>)["If-None-Match"]).toBe('"v1"');
+    expect(cache.stats()).toEqual({ hits: 1, misses: 1 });
+  });
+
+  it("never makes POSTs conditional", async () => {
+    const cache = memoryCache();
+    fetchMock.mockResolvedValue(jsonResponse({ data: {} }));
+
+    await httpTransport.run(["api", "graphql", "-f", "query=q"], { token: "t", cache });
+
+    expect(cache.stats()).toEqual({ hits: 0, misses: 0 });
+  });
+});
@@ -0,0 +1,481 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { conditionalHeaders, type ResponseCache } from "./cache.js";
+import { DEFAULT_HOST, transportFailure, type GhTransport, type RateLimitInfo } from "./transport.js";
+
+const execFileAsync = promisify(execFile);
+
+const REQUEST_TIMEOUT_MS = 30_000;
+const PAGE_SIZE = 100;
+
+// ── Argument parsing ─────────────────────────────────────────────
+
+interface ApiRequest {
+  endpoint: string;
+  method?: string;
+  paginate: boolean;
+  include?: boolean;
+  fields: Record<string, unknown>;
+  headers: Record<string, string>;
+}
+
+/** Convert a `-F key=value` value the way gh does (booleans, null, integers). */
+function typedFieldValue(value: string): unknown {
+  if (value === "true") return true;
+  if (value === "false") return false;
+  if (value === "null") return null;
+  if (/^-?\d+$/.test(value)) return Number(value);
+  return value;
+}
+
+function splitField(field: string): [string, string] {
+  const eq = field.indexOf("=");
+  if (eq < 1) {
+    throw transportFailure(`invalid field format: "${field}"`);
+  }
+  return [field.slice(0, eq), field.slice(eq + 1)];
+}
+
+/** Parse the subset of `gh api` flags the CLI uses. */
+export function parseApiArgs(args: string[]): ApiRequest {
+  const request: ApiRequest = { endpoint: "", paginate: false, fields: {}, headers: {} };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const next = (): string => {
+      const value = args[++i];
+      if (value === undefined) throw transportFailure(`flag needs an argument: ${arg}`);
+      return value;
+    };
+
+    if (arg === "--method" || arg === "-X") {
+      request.method = next().toUpperCase();
+    } else if (arg === "--paginate") {
+      request.paginate = true;
+    } else if (arg === "-i" || arg === "--include") {
+      request.include = true;
+    } else if (arg === "-f" || arg === "--raw-field") {
+      const [key, value] = splitField(next());
+      request.fields[key] = value;
+    } else if (arg === "-F" || arg === "--field") {
+      const [key, value] = splitField(next());
+      request.fields[key] = typedFieldValue(value);
+    } else if (arg === "-H" || arg === "--header") {
+      const header = next();
+      const colon = header.indexOf(":");
+      if (colon < 1) throw transportFailure(`invalid header format: "${header}"`);
+      request.headers[header.slice(0, colon).trim()] = header.slice(colon + 1).trim();
+    } else if (arg.startsWith("-")) {
+      throw transportFailure(`unsupported gh api flag for http transport: ${arg}`);
+    } else if (!request.endpoint) {
+      request.endpoint = arg;
+    } else {
+      throw transportFailure(`unexpected argument: ${arg}`);
+    }
+  }
+
+  if (!request.endpoint) {
+    throw transportFailure("gh api requires an endpoint");
+  }
+  return request;
+}
+
+function flagValue(args: string[], ...names: string[]): string | undefined {
+  for (let i = 0; i < args.length - 1; i++) {
+    if (names.includes(args[i])) return args[i + 1];
+  }
+  return undefined;
+}
+
+// ── HTTP plumbing ────────────────────────────────────────────────
+
+interface HttpResponse {
+  status: number;
+  link: string | null;
+  body: string;
+}
+
+interface RequestContext {
+  token: string;
+  host: string;
+  apiBase: string;
+  cache?: ResponseCache;
+  onRateLimit?: (info: RateLimitInfo) => void;
+}
+
+interface SendInit {
+  method: string;
+  body?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Send a request, turning GETs into conditional requests when a response
+ * cache is available. A 304 is answered from the cache.
+ */
+async function send(url: string, ctx: RequestContext, init: SendInit): Promise<HttpResponse> {
+  const { token, cache } = ctx;
+  if (!cache || init.method !== "GET") {
+    return sendOnce(url, ctx, init);
+  }
+
+  const key = `GET ${url}`;
+  const cached = await cache.lookup(key, token);
+  const res = await sendOnce(url, ctx, {
+    ...init,
+    headers: { ...(cached && conditionalHeaders(cached)), ...init.headers },
+  });
+
+  if (res.status === 304 && cached) {
+    cache.recordHit();
+    return { status: 200, link: cached.link ?? null, body: cached.body };
+  }
+
+  cache.recordMiss();
+  await cache.store(key, token, {
+    etag: res.etag ?? undefined,
+    lastModified: res.lastModified ?? undefined,
+    link: res.link ?? undefined,
+    body: res.body,
+  });
+  return res;
+}
+
+/** Read GitHub's rate-limit headers, if present. */
+function rateLimitFromHeaders(headers: Headers): RateLimitInfo | undefined {
+  const remaining = headers.get("x-ratelimit-remaining");
+  const reset = headers.get("x-ratelimit-reset");
+  if (remaining === null || reset === null) return undefined;
+  return {
+    resource: headers.get("x-ratelimit-resource") ?? "core",
+    remaining: Number(remaining),
+    resetAt: Number(reset) * 1000,
+  };
+}
+
+async function sendOnce(
+  url: string,
+  ctx: RequestContext,
+  init: SendInit,
+): Promise<HttpResponse & { etag: string | null; lastModified: string | null; headers: Headers }> {
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      method: init.method,
+      body: init.body,
+      headers: {
+        Accept: "application/vnd.github+json",
+        Authorization: `Bearer ${ctx.token}`,
+        "User-Agent": "hivemoot-cli",
+        "X-GitHub-Api-Version": "2022-11-28",
+        ...(init.body !== undefined && { "Content-Type": "application/json" }),
+        ...init.headers,
+      },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (err) {
+    const detail = err instanceof Error ? err.message : String(err);
+    throw transportFailure(`error connecting to ${new URL(url).host}: ${detail}`);
+  }
+
+  const rateLimit = rateLimitFromHeaders(res.headers);
+  if (rateLimit) ctx.onRateLimit?.(rateLimit);
+
+  const body = await res.text();
+  if (res.status >= 400) {
+    let message = res.statusText || "request failed";
+    try {
+      const parsed = JSON.parse(body) as { message?: string };
+      if (parsed.message) message = parsed.message;
+    } catch {
+      // Non-JSON error body — keep the status text
+    }
+    const failure = transportFailure(`gh: ${message} (HTTP ${res.status})`, res.status);
+    const retryAfter = res.headers.get("retry-after");
+    if (retryAfter !== null && /^\d+$/.test(retryAfter)) failure.retryAfter = Number(retryAfter);
+    throw failure;
+  }
+
+  return {
+    status: res.status,
+    link: res.headers.get("link"),
+    etag: res.headers.get("etag"),
+    lastModified: res.headers.get("last-modified"),
+    headers: res.headers,
+    body,
+  };
+}
+
+/** REST base URL: api.github.com for github.com, /api/v3 on Enterprise Server. */
+export function apiBaseUrl(host: string): string {
+  return host === DEFAULT_HOST ? "https://api.github.com" : `https://${host}/api/v3`;
+}
+
+/** GraphQL endpoint: /graphql on api.github.com, /api/graphql on Enterprise Server. */
+function graphqlUrl(apiBase: string): string {
+  return apiBase.endsWith("/api/v3") ? `${apiBase.slice(0, -"/v3".length)}/graphql` : `${apiBase}/graphql`;
+}
+
+function resolveUrl(endpoint: string, apiBase: string): string {
+  if (/^https?:\/\//.test(endpoint)) return endpoint;
+  return `${apiBase}/${endpoint.replace(/^\//, "")}`;
+}
+
+function nextPageUrl(link: string | null): string | undefined {
+  if (!link) return undefined;
+  const match = link.match(/<([^>]+)>;\s*rel="next"/);
+  return match ? match[1] : undefined;
+}
+
+/** POST a GraphQL payload and return the raw body, failing like gh when `errors` is set. */
+async function postGraphQL(
+  ctx: RequestContext,
+  payload: Record<string, unknown>,
+  headers?: Record<string, string>,
+): Promise<string> {
+  const res = await send(graphqlUrl(ctx.apiBase), ctx, {
+    method: "POST",
+    body: JSON.stringify(payload),
+    headers,
+  });
+  const parsed = JSON.parse(res.body) as { errors?: Array<{ message: string }> };
+  if (parsed.errors && parsed.errors.length > 0) {
+    throw transportFailure(`GraphQL: ${parsed.errors.map((e) => e.message).join(", ")}`);
+  }
+  return res.body;
+}
+
+// ── gh api ───────────────────────────────────────────────────────
+
+async function runApi(args: string[], ctx: RequestContext): Promise<string> {
+  const request = parseApiArgs(args);
+
+  if (request.endpoint === "graphql") {
+    const { query, operationName, ...variables } = request.fields;
+    return postGraphQL(
+      ctx,
+      { query, ...(operationName !== undefined && { operationName }), variables },
+      request.headers,
+    );
+  }
+
+  const hasFields = Object.keys(request.fields).length > 0;
+  const method = request.method ?? (hasFields ? "POST" : "GET");
+  let url = resolveUrl(request.endpoint, ctx.apiBase);
+  let body: string | undefined;
+
+  if (hasFields && method === "GET") {
+    const parsed = new URL(url);
+    for (const [key, value] of Object.entries(request.fields)) {
+      parsed.searchParams.set(key, String(value));
+    }
+    url = parsed.toString();
+  } else if (hasFields) {
+    body = JSON.stringify(request.fields);
+  }
+
+  if (request.include) {
+    // Like `gh api -i`: status line and headers ahead of the body, uncached
+    const res = await sendOnce(url, ctx, { method, body, headers: request.headers });
+    const headerLines = [...res.headers].map(([name, value]) => `${name}: ${value}`);
+    return [`HTTP/1.1 ${res.status}`, ...headerLines, "", res.body].join("\r\n");
+  }
+
+  const first = await send(url, ctx, { method, body, headers: request.headers });
+  if (!request.paginate) return first.body;
+
+  // Merge array pages into a single JSON array so callers can parse once.
+  const pages: unknown[] = [];
+  let res: HttpResponse | undefined = first;
+  while (res) {
+    const page = res.body ? JSON.parse(res.body) : [];
+    if (!Array.isArray(page)) return res.body;
+    pages.push(...page);
+    const next = nextPageUrl(res.link);
+    res = next ? await send(next, ctx, { method: "GET", headers: request.headers }) : undefined;
+  }
+  return JSON.stringify(pages);
+}
+
+// ── gh issue list / gh pr list ───────────────────────────────────
+
+interface FieldSpec {
+  selection: string;
+  transform?: (value: unknown) => unknown;
+}
+
+type Connection<T> = { nodes: T[] } | null;
+
+const nodes = (value: unknown): unknown[] => (value as Connection<unknown>)?.nodes ?? [];
+
+const COMMON_FIELDS: Record<string, FieldSpec> = {
+  number: { selection: "number" },
+  title: { selection: "title" },
+  state: { selection: "state" },
+  url: { selection: "url" },
+  createdAt: { selection: "createdAt" },
+  updatedAt: { selection: "updatedAt" },
+  author: { selection: "author { login }" },
+  labels: { selection: "labels(first: 100) { nodes { name } }", transform: nodes },
+  assignees: { selection: "assignees(first: 100) { nodes { login } }", transform: nodes },
+  comments: { selection: "comments(first: 100) { nodes { createdAt author { login } } }", transform: nodes },
+};
+
+const ISSUE_FIELDS: Record<string, FieldSpec> = COMMON_FIELDS;
+
+const PR_FIELDS: Record<string, FieldSpec> = {
+  ...COMMON_FIELDS,
+  isDraft: { selection: "isDraft" },
+  mergeable: { selection: "mergeable" },
+  // gh reports a missing review decision as an empty string
+  reviewDecision: { selection: "reviewDecision", transform: (v) => v ?? "" },
+  reviews: { selection: "reviews(first: 100) { nodes { state submittedAt author { login } } }", transform: nodes },
+  closingIssuesReferences: { selection: "closingIssuesReferences(first: 100) { nodes { number } }", transform: nodes },
+  statusCheckRollup: {
+    selection: `statusCheckRollup: commits(last: 1) { nodes { commit { statusCheckRollup { contexts(first: 100) { nodes {
+      __typename
+      ... on CheckRun { name status conclusion }
+      ... on StatusContext { context state }
+    } } } } } }`,
+    transform: (v) => {
+      const commit = nodes(v)[0] as { commit: { statusCheckRollup: { contexts: Connection<unknown> } | null } } | undefined;
+      return nodes(commit?.commit.statusCheckRollup?.contexts ?? null);
+    },
+  },
+};
+
+const LIST_KINDS = {
+  issue: {
+    connection: "issues",
+    stateType: "IssueState",
+    fields: ISSUE_FIELDS,
+    states: { open: ["OPEN"], closed: ["CLOSED"], all: ["OPEN", "CLOSED"] } as Record<string, string[]>,
+  },
+  pr: {
+    connection: "pullRequests",
+    stateType: "PullRequestState",
+    fields: PR_FIELDS,
+    states: { open: ["OPEN"], closed: ["CLOSED", "MERGED"], merged: ["MERGED"], all: ["OPEN", "CLOSED", "MERGED"] } as Record<string, string[]>,
+  },
+} as const;
+
+/** Emulate `gh issue list` / `gh pr list --json ...` with a paginated GraphQL query. */
+async function runList(kind: keyof typeof LIST_KINDS, args: string[], ctx: RequestContext): Promise<string> {
+  const spec = LIST_KINDS[kind];
+  const repoArg = flagValue(args, "-R", "--repo") ?? (await detectRepoFromGit(ctx.host)).fullName;
+  // gh accepts HOST/OWNER/REPO; the host is already fixed by the context
+  const [owner, name] = repoArg.split("/").slice(-2);
+  const stateArg = flagValue(args, "-s", "--state") ?? "open";
+  const states = spec.states[stateArg];
+  if (!states) throw transportFailure(`invalid state: ${stateArg}`);
+  const limit = Number(flagValue(args, "-L", "--limit") ?? 30);
+  const requested = (flagValue(args, "--json") ?? "").split(",").filter(Boolean);
+  if (requested.length === 0) throw transportFailure(`${kind} list requires --json fields for http transport`);
+
+  for (const field of requested) {
+    if (!Object.hasOwn(spec.fields, field)) {
+      throw transportFailure(`unsupported --json field for http transport: ${field}`);
+    }
+  }
+
+  const query = `
+    query($owner: String!, $name: String!, $pageSize: Int!, $cursor: String, $states: [${spec.stateType}!]) {
+      repository(owner: $owner, name: $name) {
+        ${spec.connection}(first: $pageSize, after: $cursor, states: $states, orderBy: {field: CREATED_AT, direction: DESC}) {
+          pageInfo { hasNextPage endCursor }
+          nodes { ${requested.map((f) => spec.fields[f].selection).join("\n")} }
+        }
+      }
+    }`;
+
+  const items: Array<Record<string, unknown>> = [];
+  let cursor: string | null = null;
+  while (items.length < limit) {
+    const raw = await postGraphQL(ctx, {
+      query,
+      variables: { owner, name, pageSize: Math.min(limit - items.length, PAGE_SIZE), cursor, states },
+    });
+    const repository = JSON.parse(raw).data?.repository as Record<string, unknown> | null;
+    if (!repository) throw transportFailure(`GraphQL: Could not resolve to a Repository with the name '${repoArg}'.`);
+    const page = repository[spec.connection] as {
+      pageInfo: { hasNextPage: boolean; endCursor: string | null };
+      nodes: Array<Record<string, unknown>>;
+    };
+
+    for (const node of page.nodes) {
+      const item: Record<string, unknown> = {};
+      for (const field of requested) {
+        const transform = spec.fields[field].transform;
+        item[field] = transform ? transform(node[field]) : node[field];
+      }
+      items.push(item);
+    }
+
+    if (!page.pageInfo.hasNextPage || page.nodes.length === 0) break;
+    cursor = page.pageInfo.endCursor;
+  }
+
+  return JSON.stringify(items);
+}
+
+// ── gh repo view ─────────────────────────────────────────────────
+
+function gitRemotePattern(host: string): RegExp {
+  const escaped = host.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`${escaped}[:/]([^/]+)\\/([^/]+?)(?:\\.git)?\\/?$`);
+}
+
+export async function detectRepoFromGit(host: string): Promise<{ owner: string; name: string; fullName: string }> {
+  let remote: string;
+  try {
+    const { stdout } = await execFileAsync("git", ["remote", "get-url", "origin"], { timeout: REQUEST_TIMEOUT_MS });
+    remote = stdout.trim();
+  } catch (err) {
+    const error = err as { stderr?: string; message?: string };
+    throw transportFailure(`failed to run git: ${(error.stderr || error.message || "").trim()}`);
+  }
+  const match = remote.match(gitRemotePattern(host));
+  if (!match) {
+    throw transportFailure(`none of the git remotes point to a known GitHub host: ${remote}`);
+  }
+  return { owner: match[1], name: match[2], fullName: `${match[1]}/${match[2]}` };
+}
+
+async function runRepoView(host: string): Promise<string> {
+  const { owner, name } = await detectRepoFromGit(host);
+  return JSON.stringify({ owner: { login: owner }, name });
+}
+
+/**
+ * Native HTTP backend. Speaks to the REST and GraphQL APIs directly and
+ * emulates the handful of gh subcommands the CLI relies on, so no `gh`
+ * binary is needed.
+ */
+export const httpTransport: GhTransport = {
+  name: "http",
+  async run(args, options) {
+    const [command, subcommand] = args;
+    const host = options.host ?? DEFAULT_HOST;
+    if (command === "repo" && subcommand === "view") {
+      return runRepoView(host);
+    }
+
+    const token = options.token ?? process.env.GH_TOKEN;
+    if (!token) {
+      throw transportFailure("authentication required: no GitHub token for http transport", 401);
+    }
+
+    const ctx: RequestContext = {
+      token,
+      host,
+      apiBase: apiBaseUrl(host),
+      cache: options.cache,
+      onRateLimit: options.onRateLimit,
+    };
+    if (command === "api") return runApi(args.slice(1), ctx);
+    if (command === "issue" && subcommand === "list") return runList("issue", args.slice(2), ctx);
+    if (command === "pr" && subcommand === "list") return runList("pr", args.slice(2), ctx);
+
+    throw transportFailure(`unsupported command for http transport: ${args.slice(0, 2).join(" ")}`);
+  },
+};
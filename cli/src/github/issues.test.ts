@@ -72,7 +72,7 @@ describe("fetchIssues()", () => {
 
     await expect(fetchIssues({ owner: "hivemoot", repo: "cli" })).rejects.toThrow(CliError);
     await expect(fetchIssues({ owner: "hivemoot", repo: "cli" })).rejects.toMatchObject({
-      code: "GH_ERROR",
+      code: "MALFORMED_RESPONSE",
       message: expect.stringContaining("Failed to parse"),
     });
   });
@@ -88,7 +88,7 @@ describe("fetchIssues()", () => {
 
     await expect(fetchIssues({ owner: "hivemoot", repo: "cli" })).rejects.toThrow(CliError);
     await expect(fetchIssues({ owner: "hivemoot", repo: "cli" })).rejects.toMatchObject({
-      code: "GH_ERROR",
+      code: "MALFORMED_RESPONSE",
       message: expect.stringContaining("Unexpected"),
     });
   });
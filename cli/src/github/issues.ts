@@ -21,14 +21,14 @@ export async function fetchIssues(repo: RepoRef, limit = 200): Promise<GitHubIss
   } catch {
     throw new CliError(
       "Failed to parse issues response from gh CLI",
-      "GH_ERROR",
+      "MALFORMED_RESPONSE",
       1,
     );
   }
   if (!Array.isArray(parsed)) {
     throw new CliError(
       "Unexpected issues response format from gh CLI",
-      "GH_ERROR",
+      "MALFORMED_RESPONSE",
       1,
     );
   }
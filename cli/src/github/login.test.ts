@@ -0,0 +1,27 @@
+import { describe, it, expect } from "vitest";
+import { normalizeLogin, sameLogin } from "./login.js";
+
+describe("normalizeLogin()", () => {
+  it("reduces every spelling of a bot login to its slug", () => {
+    expect(normalizeLogin("my-app[bot]")).toBe("my-app");
+    expect(normalizeLogin("app/my-app")).toBe("my-app");
+    expect(normalizeLogin("My-App")).toBe("my-app");
+  });
+});
+
+describe("sameLogin()", () => {
+  it("matches a bot across REST, GraphQL and gh --json spellings", () => {
+    expect(sameLogin("my-app[bot]", "my-app")).toBe(true);
+    expect(sameLogin("my-app[bot]", "app/my-app")).toBe(true);
+  });
+
+  it("compares user logins case-insensitively", () => {
+    expect(sameLogin("Alice", "alice")).toBe(true);
+    expect(sameLogin("alice", "bob")).toBe(false);
+  });
+
+  it("never matches an empty login", () => {
+    expect(sameLogin("", "")).toBe(false);
+    expect(sameLogin(undefined, "alice")).toBe(false);
+  });
+});
@@ -0,0 +1,15 @@
+/**
+ * GitHub spells an App's bot account three ways: `slug[bot]` (REST and the
+ * app's own identity), `slug` (GraphQL) and `app/slug` (gh --json). Compare
+ * logins through these helpers so a bot recognises its own issues, PRs,
+ * comments and votes whichever API reported them.
+ */
+export function normalizeLogin(login: string): string {
+  return login.toLowerCase().replace(/^app\//, "").replace(/\[bot\]$/, "");
+}
+
+/** Whether two logins name the same account; an empty login matches nothing. */
+export function sameLogin(a: string | undefined, b: string | undefined): boolean {
+  if (!a || !b) return false;
+  return normalizeLogin(a) === normalizeLogin(b);
+}
@@ -2,9 +2,10 @@ import { describe, it, expect, vi, beforeEach } from "vitest";
 
 vi.mock("./client.js", () => ({
   gh: vi.fn(),
+  githubWebUrl: vi.fn(() => "https://github.com"),
 }));
 
-import { gh } from "./client.js";
+import { gh, githubWebUrl } from "./client.js";
 import {
   fetchNotifications,
   fetchMentionNotifications,
@@ -78,6 +79,15 @@ describe("fetchNotifications()", () => {
     });
   });
 
+  it("builds html URLs on the configured host", async () => {
+    vi.mocked(githubWebUrl).mockReturnValueOnce("https://ghe.example.com");
+    mockedGh.mockResolvedValue(JSON.stringify([makeNotification()]));
+
+    const result = await fetchNotifications(repo);
+
+    expect(result.get(42)?.url).toBe("https://ghe.example.com/hivemoot/colony/issues/42");
+  });
+
   it("calls gh with correct API path", async () => {
     mockedGh.mockResolvedValue("[]");
 
@@ -312,8 +322,8 @@ describe("fetchCommentBody()", () => {
   it("returns comment detail for a valid URL", async () => {
     mockedGh.mockResolvedValue(JSON.stringify({
       body: "Hello world",
-      author: "dmitry",
-      htmlUrl: "https://github.com/hivemoot/colony/issues/42#issuecomment-999",
+      user: { login: "dmitry" },
+      html_url: "https://github.com/hivemoot/colony/issues/42#issuecomment-999",
     }));
 
     const result = await fetchCommentBody("https://api.github.com/repos/hivemoot/colony/issues/comments/999");
@@ -322,6 +332,21 @@ describe("fetchCommentBody()", () => {
       author: "dmitry",
       htmlUrl: "https://github.com/hivemoot/colony/issues/42#issuecomment-999",
     });
+    expect(mockedGh).toHaveBeenCalledWith([
+      "api",
+      "https://api.github.com/repos/hivemoot/colony/issues/comments/999",
+    ]);
+  });
+
+  it("falls back to unknown author when the comment has no user", async () => {
+    mockedGh.mockResolvedValue(JSON.stringify({
+      body: "Hello world",
+      user: null,
+      html_url: "https://github.com/hivemoot/colony/issues/42#issuecomment-999",
+    }));
+
+    const result = await fetchCommentBody("https://api.github.com/repos/hivemoot/colony/issues/comments/999");
+    expect(result?.author).toBe("unknown");
   });
 
   it("returns null for empty URL", async () => {
@@ -424,6 +449,10 @@ describe("isAgentMentioned()", () => {
     expect(isAgentMentioned("@Hivemoot-Worker look at this", "hivemoot-worker")).toBe(true);
   });
 
+  it("matches a GitHub App bot by its slug", () => {
+    expect(isAgentMentioned("@hivemoot-worker look at this", "hivemoot-worker[bot]")).toBe(true);
+  });
+
   it("does not match suffix username (boundary check)", () => {
     expect(isAgentMentioned("@hivemoot-worker-extra", "hivemoot-worker")).toBe(false);
   });
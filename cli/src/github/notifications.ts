@@ -1,5 +1,6 @@
 import type { RepoRef, MentionEvent } from "../config/types.js";
-import { gh } from "./client.js";
+import { gh, githubWebUrl } from "./client.js";
+import { normalizeLogin } from "./login.js";
 
 export interface NotificationInfo {
   threadId: string;   // GitHub notification thread ID — needed for ack
@@ -45,10 +46,11 @@ function subjectHtmlUrl(
   subjectType: "Issue" | "PullRequest",
   number: number,
 ): string {
+  const base = `${githubWebUrl()}/${repo.owner}/${repo.repo}`;
   if (subjectType === "Issue") {
-    return `https://github.com/${repo.owner}/${repo.repo}/issues/${number}`;
+    return `${base}/issues/${number}`;
   }
-  return `https://github.com/${repo.owner}/${repo.repo}/pull/${number}`;
+  return `${base}/pull/${number}`;
 }
 
 /**
@@ -141,16 +143,17 @@ export async function fetchCommentBody(commentUrl: string): Promise<CommentDetai
   if (!commentUrl) return null;
 
   try {
-    const raw = await gh([
-      "api",
-      commentUrl,
-      "--jq", '{ body: .body, author: (.user.login // .author.login // "unknown"), htmlUrl: .html_url }',
-    ]);
-    const parsed = JSON.parse(raw) as { body: string; author: string; htmlUrl: string };
+    const raw = await gh(["api", commentUrl]);
+    const parsed = JSON.parse(raw) as {
+      body: string;
+      html_url: string;
+      user?: { login?: string } | null;
+      author?: { login?: string } | null;
+    };
     return {
       body: parsed.body,
-      author: parsed.author,
-      htmlUrl: parsed.htmlUrl,
+      author: parsed.user?.login ?? parsed.author?.login ?? "unknown",
+      htmlUrl: parsed.html_url,
     };
   } catch {
     return null;
@@ -164,7 +167,8 @@ export async function fetchCommentBody(commentUrl: string): Promise<CommentDetai
  *   Right: rejects suffix usernames (@agent-extra)
  */
 export function isAgentMentioned(body: string, agent: string): boolean {
-  const escaped = agent.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  // App bots are mentioned by slug: "@my-app", not "@my-app[bot]"
+  const escaped = normalizeLogin(agent).replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
   return new RegExp(`(?<![a-zA-Z0-9._+-])@${escaped}(?![a-zA-Z0-9-])`, "i").test(body);
 }
 
@@ -127,7 +127,7 @@ describe("fetchPulls()", () => {
       .mockResolvedValueOnce("not valid json")
       .mockResolvedValueOnce(emptyGraphQL);
     await expect(fetchPulls({ owner: "hivemoot", repo: "cli" })).rejects.toMatchObject({
-      code: "GH_ERROR",
+      code: "MALFORMED_RESPONSE",
       message: expect.stringContaining("Failed to parse"),
     });
   });
@@ -142,7 +142,7 @@ describe("fetchPulls()", () => {
       .mockResolvedValueOnce('{"not": "an array"}')
       .mockResolvedValueOnce(emptyGraphQL);
     await expect(fetchPulls({ owner: "hivemoot", repo: "cli" })).rejects.toMatchObject({
-      code: "GH_ERROR",
+      code: "MALFORMED_RESPONSE",
       message: expect.stringContaining("Unexpected"),
     });
   });
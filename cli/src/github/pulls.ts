@@ -90,14 +90,14 @@ export async function fetchPulls(repo: RepoRef, limit = 200): Promise<GitHubPR[]
   } catch {
     throw new CliError(
       "Failed to parse pull requests response from gh CLI",
-      "GH_ERROR",
+      "MALFORMED_RESPONSE",
       1,
     );
   }
   if (!Array.isArray(parsed)) {
     throw new CliError(
       "Unexpected pull requests response format from gh CLI",
-      "GH_ERROR",
+      "MALFORMED_RESPONSE",
       1,
     );
   }
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi } from "vitest";
+import { transportFailure } from "./transport.js";
+import {
+  createRateLimitScheduler,
+  isPrimaryRateLimit,
+  isSecondaryRateLimit,
+  rateLimitResource,
+  type SchedulerOptions,
+} from "./ratelimit.js";
+
+function fakeClock(start = 1_000_000) {
+  let t = start;
+  return {
+    now: () => t,
+    sleep: vi.fn(async (ms: number) => { t += ms; }),
+  };
+}
+
+function makeScheduler(overrides: Partial<SchedulerOptions> = {}) {
+  const clock = fakeClock();
+  const scheduler = createRateLimitScheduler({
+    maxWaitMs: 60_000,
+    maxRetries: 3,
+    baseDelayMs: 1000,
+    now: clock.now,
+    sleep: clock.sleep,
+    ...overrides,
+  });
+  return { clock, scheduler };
+}
+
+function secondaryLimit() {
+  return transportFailure("gh: You have exceeded a secondary rate limit. (HTTP 403)", 403);
+}
+
+describe("rateLimitResource()", () => {
+  it("maps GraphQL-backed calls to the graphql bucket", () => {
+    expect(rateLimitResource(["api", "graphql", "-f", "query=q"])).toBe("graphql");
+    expect(rateLimitResource(["issue", "list", "-R", "o/r"])).toBe("graphql");
+    expect(rateLimitResource(["pr", "list", "-R", "o/r"])).toBe("graphql");
+  });
+
+  it("maps REST calls to the core bucket", () => {
+    expect(rateLimitResource(["api", "user"])).toBe("core");
+  });
+});
+
+describe("rate limit classification", () => {
+  it("distinguishes primary and secondary limits", () => {
+    const primary = transportFailure("gh: API rate limit exceeded for user ID 1. (HTTP 403)", 403);
+    expect(isPrimaryRateLimit(primary)).toBe(true);
+    expect(isSecondaryRateLimit(primary)).toBe(false);
+    expect(isSecondaryRateLimit(secondaryLimit())).toBe(true);
+  });
+
+  it("treats a 429 with Retry-After as secondary", () => {
+    const failure = Object.assign(transportFailure("gh: Too Many Requests (HTTP 429)", 429), { retryAfter: 5 });
+    expect(isSecondaryRateLimit(failure)).toBe(true);
+  });
+});
+
+describe("createRateLimitScheduler()", () => {
+  it("runs tasks immediately when budget remains", async () => {
+    const { clock, scheduler } = makeScheduler();
+    scheduler.observe({ resource: "core", remaining: 10, resetAt: clock.now() + 30_000 });
+
+    await expect(scheduler.schedule("core", async () => "ok")).resolves.toBe("ok");
+    expect(clock.sleep).not.toHaveBeenCalled();
+  });
+
+  it("holds requests until reset when the bucket is exhausted", async () => {
+    const { clock, scheduler } = makeScheduler();
+    scheduler.observe({ resource: "core", remaining: 0, resetAt: clock.now() + 30_000 });
+
+    await scheduler.schedule("core", async () => "ok");
+
+    expect(clock.sleep).toHaveBeenCalledWith(30_000);
+  });
+
+  it("does not hold other buckets", async () => {
+    const { clock, scheduler } = makeScheduler();
+    scheduler.observe({ resource: "core", remaining: 0, resetAt: clock.now() + 30_000 });
+
+    await scheduler.schedule("graphql", async () => "ok");
+
+    expect(clock.sleep).not.toHaveBeenCalled();
+  });
+
+  it("fails fast with the reset time when the wait exceeds maxWaitMs", async () => {
+    const { clock, scheduler } = makeScheduler({ maxWaitMs: 10_000 });
+    const resetAt = clock.now() + 30_000;
+    scheduler.observe({ resource: "core", remaining: 0, resetAt });
+    const task = vi.fn(async () => "ok");
+
+    await expect(scheduler.schedule("core", task)).rejects.toMatchObject({ resetAt });
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  it("retries secondary limits with exponential backoff", async () => {
+    const { clock, scheduler } = makeScheduler();
+    const task = vi.fn()
+      .mockRejectedValueOnce(secondaryLimit())
+      .mockRejectedValueOnce(secondaryLimit())
+      .mockResolvedValueOnce("ok");
+
+    await expect(scheduler.schedule("core", task)).resolves.toBe("ok");
+    expect(clock.sleep.mock.calls.map((c) => c[0])).toEqual([1000, 2000]);
+  });
+
+  it("honors Retry-After for secondary limits", async () => {
+    const { clock, scheduler } = makeScheduler();
+    const task = vi.fn()
+      .mockRejectedValueOnce(Object.assign(secondaryLimit(), { retryAfter: 7 }))
+      .mockResolvedValueOnce("ok");
+
+    await scheduler.schedule("core", task);
+
+    expect(clock.sleep).toHaveBeenCalledWith(7000);
+  });
+
+  it("gives up after maxRetries secondary limits and reports when to retry", async () => {
+    const { scheduler } = makeScheduler({ maxRetries: 1 });
+    const task = vi.fn().mockRejectedValue(secondaryLimit());
+
+    await expect(scheduler.schedule("core", task)).rejects.toMatchObject({
+      resetAt: expect.any(Number),
+    });
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it("waits once for a known reset after a primary limit failure", async () => {
+    const { clock, scheduler } = makeScheduler();
+    const resetAt = clock.now() + 20_000;
+    const task = vi.fn()
+      .mockImplementationOnce(async () => {
+        scheduler.observe({ resource: "core", remaining: 0, resetAt });
+        throw transportFailure("gh: API rate limit exceeded (HTTP 403)", 403);
+      })
+      .mockResolvedValueOnce("ok");
+
+    await expect(scheduler.schedule("core", task)).resolves.toBe("ok");
+    expect(clock.sleep).toHaveBeenCalledWith(20_000);
+  });
+
+  it("rethrows non-rate-limit failures untouched", async () => {
+    const { scheduler } = makeScheduler();
+    const failure = transportFailure("gh: Not Found (HTTP 404)", 404);
+
+    await expect(scheduler.schedule("core", async () => { throw failure; })).rejects.toBe(failure);
+  });
+});
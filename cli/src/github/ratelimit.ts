@@ -0,0 +1,112 @@
+import { transportFailure, type RateLimitInfo, type TransportFailure } from "./transport.js";
+
+export interface SchedulerOptions {
+  maxWaitMs: number;      // longest a request may be held for a reset before failing
+  maxRetries: number;     // secondary-limit retries per request
+  baseDelayMs: number;    // first secondary-limit backoff; doubles per attempt
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+// Primary limits reset up to an hour out; waiting that long takes --rate-limit-wait 3600
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  maxWaitMs: 60 * 1000,
+  maxRetries: 4,
+  baseDelayMs: 1000,
+};
+
+/**
+ * Gates GitHub requests on the known rate-limit budget. Primary limits are
+ * tracked per resource bucket ("core", "graphql", ...) from response
+ * headers; secondary limits pause every bucket until their backoff expires.
+ */
+export interface RateLimitScheduler {
+  observe(info: RateLimitInfo): void;
+  schedule<T>(resource: string, task: () => Promise<T>): Promise<T>;
+}
+
+/** The rate-limit bucket a gh argument vector draws from. */
+export function rateLimitResource(args: string[]): string {
+  if (args[0] === "api" && args.includes("graphql")) return "graphql";
+  // gh issue/pr list are GraphQL-backed on both transports
+  if ((args[0] === "issue" || args[0] === "pr") && args[1] === "list") return "graphql";
+  return "core";
+}
+
+export function isSecondaryRateLimit(failure: TransportFailure): boolean {
+  const stderr = failure.stderr ?? failure.message ?? "";
+  if (/secondary rate limit|abuse detection/i.test(stderr)) return true;
+  return (failure.status === 403 || failure.status === 429) &&
+    failure.retryAfter !== undefined &&
+    !isPrimaryRateLimit(failure);
+}
+
+export function isPrimaryRateLimit(failure: TransportFailure): boolean {
+  return /API rate limit exceeded/i.test(failure.stderr ?? failure.message ?? "");
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function createRateLimitScheduler(options: SchedulerOptions): RateLimitScheduler {
+  const now = options.now ?? Date.now;
+  const sleep = options.sleep ?? defaultSleep;
+  const buckets = new Map<string, { remaining: number; resetAt: number }>();
+  let secondaryUntil = 0;
+
+  /** Wait out an exhausted budget, or fail when the wait exceeds maxWaitMs. */
+  async function holdForBudget(resource: string): Promise<void> {
+    const bucket = buckets.get(resource);
+    const primaryUntil = bucket && bucket.remaining <= 0 ? bucket.resetAt : 0;
+    const until = Math.max(primaryUntil, secondaryUntil);
+    const wait = until - now();
+    if (wait <= 0) return;
+    if (wait > options.maxWaitMs) {
+      const failure = transportFailure("API rate limit exceeded", 403);
+      failure.resetAt = until;
+      throw failure;
+    }
+    await sleep(wait);
+    // The window has rolled over; the next response refreshes the real budget
+    if (bucket && bucket.resetAt <= now()) buckets.delete(resource);
+  }
+
+  return {
+    observe(info) {
+      buckets.set(info.resource, { remaining: info.remaining, resetAt: info.resetAt });
+    },
+
+    async schedule(resource, task) {
+      for (let attempt = 0; ; attempt++) {
+        await holdForBudget(resource);
+        try {
+          return await task();
+        } catch (err) {
+          const failure = err as TransportFailure;
+
+          if (isSecondaryRateLimit(failure) && attempt < options.maxRetries) {
+            const delay = failure.retryAfter !== undefined
+              ? failure.retryAfter * 1000
+              : options.baseDelayMs * 2 ** attempt;
+            secondaryUntil = Math.max(secondaryUntil, now() + delay);
+            continue;
+          }
+
+          if (isPrimaryRateLimit(failure)) {
+            const bucket = buckets.get(resource);
+            if (bucket && bucket.resetAt > now()) {
+              bucket.remaining = 0;
+              // Hold once for the reset, then let the request through again
+              if (attempt === 0 && bucket.resetAt - now() <= options.maxWaitMs) continue;
+            }
+            failure.resetAt ??= bucket?.resetAt;
+          } else if (isSecondaryRateLimit(failure)) {
+            failure.resetAt ??= secondaryUntil;
+          }
+          throw failure;
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { transportFailure, type GhTransport } from "./transport.js";
+import { fixtureFileName, recordingTransport, replayTransport } from "./replay.js";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "hivemoot-replay-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+function fakeTransport(run: GhTransport["run"]): GhTransport {
+  return { name: "gh", run: vi.fn(run) };
+}
+
+describe("recordingTransport()", () => {
+  it("passes responses through and writes a fixture per argument vector", async () => {
+    const inner = fakeTransport(async (args) => `out:${args.join(" ")}`);
+    const recorder = recordingTransport(inner, dir);
+
+    await expect(recorder.run(["api", "user"], {})).resolves.toBe("out:api user");
+    await recorder.run(["api", "user"], {});
+
+    const fixture = JSON.parse(await readFile(join(dir, fixtureFileName(["api", "user"])), "utf-8"));
+    expect(fixture).toEqual({
+      args: ["api", "user"],
+      responses: [{ stdout: "out:api user" }, { stdout: "out:api user" }],
+    });
+  });
+
+  it("records failures and rethrows them", async () => {
+    const failure = transportFailure("gh: Not Found (HTTP 404)", 404);
+    const recorder = recordingTransport(fakeTransport(async () => { throw failure; }), dir);
+
+    await expect(recorder.run(["api", "nope"], {})).rejects.toBe(failure);
+
+    const fixture = JSON.parse(await readFile(join(dir, fixtureFileName(["api", "nope"])), "utf-8"));
+    expect(fixture.responses).toEqual([{
+      error: { message: "gh: Not Found (HTTP 404)", stderr: "gh: Not Found (HTTP 404)", status: 404 },
+    }]);
+  });
+
+  it("appends to fixtures left by an earlier run", async () => {
+    await recordingTransport(fakeTransport(async () => "first"), dir).run(["api", "user"], {});
+    await recordingTransport(fakeTransport(async () => "second"), dir).run(["api", "user"], {});
+
+    const fixture = JSON.parse(await readFile(join(dir, fixtureFileName(["api", "user"])), "utf-8"));
+    expect(fixture.responses).toEqual([{ stdout: "first" }, { stdout: "second" }]);
+  });
+
+  it("leaves no temp files behind", async () => {
+    const recorder = recordingTransport(fakeTransport(async () => "ok"), dir);
+    await Promise.all([recorder.run(["a"], {}), recorder.run(["b"], {}), recorder.run(["a"], {})]);
+
+    const files = await readdir(dir);
+    expect(files.every((f) => f.endsWith(".json"))).toBe(true);
+    expect(files).toHaveLength(2);
+  });
+
+  it("reports a failed fixture write as a CliError and keeps recording", async () => {
+    const blocked = join(dir, "blocked");
+    await writeFile(blocked, "not a directory");
+    const recorder = recordingTransport(fakeTransport(async (args) => `out:${args.join(" ")}`), join(blocked, "fixtures"));
+
+    await expect(recorder.run(["api", "user"], {})).rejects.toMatchObject({
+      name: "CliError",
+      code: "FIXTURE_WRITE_FAILED",
+      message: expect.stringContaining("Cannot record fixture"),
+    });
+
+    await rm(blocked);
+    await expect(recorder.run(["api", "repos/o/r"], {})).resolves.toBe("out:api repos/o/r");
+    expect(await readdir(join(blocked, "fixtures"))).toEqual([fixtureFileName(["api", "repos/o/r"])]);
+  });
+});
+
+describe("replayTransport()", () => {
+  it("replays responses in order and repeats the last one", async () => {
+    let n = 0;
+    const recorder = recordingTransport(fakeTransport(async () => `poll-${++n}`), dir);
+    await recorder.run(["api", "notifications"], {});
+    await recorder.run(["api", "notifications"], {});
+
+    const replay = replayTransport(dir);
+    expect(await replay.run(["api", "notifications"], {})).toBe("poll-1");
+    expect(await replay.run(["api", "notifications"], {})).toBe("poll-2");
+    expect(await replay.run(["api", "notifications"], {})).toBe("poll-2");
+  });
+
+  it("replays recorded failures with their classification fields", async () => {
+    const failure = Object.assign(transportFailure("gh: API rate limit exceeded (HTTP 403)", 403), { resetAt: 123 });
+    await recordingTransport(fakeTransport(async () => { throw failure; }), dir)
+      .run(["api", "user"], {})
+      .catch(() => {});
+
+    await expect(replayTransport(dir).run(["api", "user"], {})).rejects.toMatchObject({
+      message: "gh: API rate limit exceeded (HTTP 403)",
+      stderr: "gh: API rate limit exceeded (HTTP 403)",
+      status: 403,
+      resetAt: 123,
+    });
+  });
+
+  it("fails clearly when a request was never recorded", async () => {
+    await expect(replayTransport(dir).run(["api", "user"], {})).rejects.toMatchObject({
+      stderr: expect.stringContaining("no recorded response for: gh api user"),
+    });
+  });
+});
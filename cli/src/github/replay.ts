@@ -0,0 +1,134 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { CliError } from "../config/types.js";
+import { transportFailure, type GhTransport, type TransportFailure } from "./transport.js";
+
+/** A recorded failure — enough of the TransportFailure shape for `gh()` to classify it again. */
+export interface RecordedFailure {
+  message: string;
+  stderr?: string;
+  status?: number;
+  code?: string | number;
+  killed?: boolean;
+  retryAfter?: number;
+  resetAt?: number;
+}
+
+export type RecordedResponse = { stdout: string } | { error: RecordedFailure };
+
+/**
+ * One fixture file per distinct argument vector. Repeated calls (e.g. watch
+ * polls) append to `responses` and are replayed in order.
+ */
+export interface Fixture {
+  args: string[];
+  responses: RecordedResponse[];
+}
+
+export function fixtureFileName(args: string[]): string {
+  const digest = createHash("sha256").update(JSON.stringify(args)).digest("hex").slice(0, 16);
+  return `${args[0] ?? "gh"}-${digest}.json`;
+}
+
+async function readFixture(path: string): Promise<Fixture | undefined> {
+  try {
+    return JSON.parse(await readFile(path, "utf-8")) as Fixture;
+  } catch {
+    return undefined;
+  }
+}
+
+function toRecordedFailure(err: unknown): RecordedFailure {
+  const failure = err as TransportFailure;
+  const recorded: RecordedFailure = { message: failure?.message ?? String(err) };
+  if (failure?.stderr !== undefined) recorded.stderr = failure.stderr;
+  if (failure?.status !== undefined) recorded.status = failure.status;
+  if (failure?.code !== undefined) recorded.code = failure.code;
+  if (failure?.killed) recorded.killed = true;
+  if (failure?.retryAfter !== undefined) recorded.retryAfter = failure.retryAfter;
+  if (failure?.resetAt !== undefined) recorded.resetAt = failure.resetAt;
+  return recorded;
+}
+
+/** Wrap a transport so every request/response pair is written to `dir`. */
+export function recordingTransport(inner: GhTransport, dir: string): GhTransport {
+  const fixtures = new Map<string, Fixture>();
+  let writes: Promise<void> = Promise.resolve();
+
+  const write = async (args: string[], response: RecordedResponse): Promise<void> => {
+    const name = fixtureFileName(args);
+    const path = join(dir, name);
+    let fixture = fixtures.get(name);
+    if (!fixture) {
+      // Append to fixtures left by an earlier command (e.g. buzz, then ack)
+      fixture = (await readFixture(path)) ?? { args, responses: [] };
+      fixtures.set(name, fixture);
+    }
+    fixture.responses.push(response);
+    try {
+      await mkdir(dir, { recursive: true });
+      const tmpPath = `${path}.${process.pid}.tmp`;
+      await writeFile(tmpPath, JSON.stringify(fixture, null, 2) + "\n", "utf-8");
+      await rename(tmpPath, path);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      throw new CliError(`Cannot record fixture ${path}: ${reason}`, "FIXTURE_WRITE_FAILED", 1);
+    }
+  };
+
+  const record = (args: string[], response: RecordedResponse): Promise<void> => {
+    // Writes are serialized, but one failed write must not fail every later one
+    const next = writes.catch(() => {}).then(() => write(args, response));
+    writes = next;
+    return next;
+  };
+
+  return {
+    name: inner.name,
+    async run(args, options) {
+      let stdout: string;
+      try {
+        stdout = await inner.run(args, options);
+      } catch (err) {
+        await record(args, { error: toRecordedFailure(err) });
+        throw err;
+      }
+      await record(args, { stdout });
+      return stdout;
+    },
+  };
+}
+
+/**
+ * Serve responses recorded by `recordingTransport` without touching the
+ * network. Responses for a request are returned in recorded order; once
+ * exhausted, the last one repeats.
+ */
+export function replayTransport(dir: string): GhTransport {
+  const cursors = new Map<string, { fixture: Fixture; next: number }>();
+
+  return {
+    name: "replay",
+    async run(args) {
+      const name = fixtureFileName(args);
+      let entry = cursors.get(name);
+      if (!entry) {
+        const fixture = await readFixture(join(dir, name));
+        if (!fixture || fixture.responses.length === 0) {
+          throw transportFailure(`no recorded response for: gh ${args.join(" ")} (expected ${join(dir, name)})`);
+        }
+        entry = { fixture, next: 0 };
+        cursors.set(name, entry);
+      }
+
+      const index = Math.min(entry.next, entry.fixture.responses.length - 1);
+      entry.next++;
+      const response = entry.fixture.responses[index];
+      if ("stdout" in response) return response.stdout;
+
+      const { message, ...rest } = response.error;
+      throw Object.assign(new Error(message), rest);
+    },
+  };
+}
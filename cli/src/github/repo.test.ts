@@ -3,9 +3,10 @@ import { CliError } from "../config/types.js";
 
 vi.mock("./client.js", () => ({
   gh: vi.fn(),
+  getGhHost: vi.fn(() => "github.com"),
 }));
 
-import { gh } from "./client.js";
+import { getGhHost, gh } from "./client.js";
 import { resolveRepo } from "./repo.js";
 
 const mockGh = gh as unknown as ReturnType<typeof vi.fn>;
@@ -45,6 +46,22 @@ describe("resolveRepo()", () => {
       await expect(resolveRepo("owner/re po")).rejects.toThrow(CliError);
     });
 
+    it("accepts HOST/OWNER/REPO for the configured host", async () => {
+      vi.mocked(getGhHost).mockReturnValue("github.example.com");
+
+      const result = await resolveRepo("github.example.com/hivemoot/cli");
+
+      expect(result).toEqual({ owner: "hivemoot", repo: "cli" });
+      vi.mocked(getGhHost).mockReturnValue("github.com");
+    });
+
+    it("rejects HOST/OWNER/REPO for a different host", async () => {
+      await expect(resolveRepo("github.example.com/hivemoot/cli")).rejects.toMatchObject({
+        code: "GH_ERROR",
+        message: expect.stringContaining("github.com/OWNER/REPO"),
+      });
+    });
+
     it("allows dots, hyphens, underscores in names", async () => {
       const result = await resolveRepo("my-org/my_repo.js");
       expect(result).toEqual({ owner: "my-org", repo: "my_repo.js" });
@@ -83,7 +100,7 @@ describe("resolveRepo()", () => {
 
       await expect(resolveRepo()).rejects.toThrow(CliError);
       await expect(resolveRepo()).rejects.toMatchObject({
-        code: "GH_ERROR",
+        code: "MALFORMED_RESPONSE",
         message: expect.stringContaining("Failed to parse"),
       });
     });
@@ -1,14 +1,18 @@
 import { CliError, type RepoRef } from "../config/types.js";
-import { gh } from "./client.js";
+import { getGhHost, gh } from "./client.js";
 
 const GITHUB_NAME_RE = /^[a-zA-Z0-9._-]+$/;
 
 export async function resolveRepo(repoFlag?: string): Promise<RepoRef> {
   if (repoFlag) {
-    const parts = repoFlag.split("/");
+    let parts = repoFlag.split("/");
+    // Accept gh's HOST/OWNER/REPO form when HOST is the configured host
+    if (parts.length === 3 && parts[0].toLowerCase() === getGhHost().toLowerCase()) {
+      parts = parts.slice(1);
+    }
     if (parts.length !== 2 || !parts[0] || !parts[1]) {
       throw new CliError(
-        `Invalid repo format: "${repoFlag}". Expected OWNER/REPO`,
+        `Invalid repo format: "${repoFlag}". Expected OWNER/REPO or ${getGhHost()}/OWNER/REPO`,
         "GH_ERROR",
         1,
       );
@@ -31,7 +35,7 @@ export async function resolveRepo(repoFlag?: string): Promise<RepoRef> {
     } catch {
       throw new CliError(
         "Failed to parse repo info from gh CLI. Use --repo OWNER/REPO",
-        "GH_ERROR",
+        "MALFORMED_RESPONSE",
         1,
       );
     }
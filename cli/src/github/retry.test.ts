@@ -0,0 +1,163 @@
+import { describe, it, expect, vi } from "vitest";
+import { transportFailure } from "./transport.js";
+import {
+  createRetryPolicy,
+  isTransientFailure,
+  isWriteRequest,
+  type RetryOptions,
+} from "./retry.js";
+
+const READ = ["api", "repos/o/r/issues"];
+const WRITE = ["api", "notifications/threads/1", "--method", "PATCH"];
+
+function makePolicy(overrides: Partial<RetryOptions> = {}) {
+  const sleep = vi.fn(async (_ms: number) => {});
+  const onRetry = vi.fn();
+  const policy = createRetryPolicy({
+    maxRetries: 3,
+    maxWriteRetries: 1,
+    budget: 10,
+    baseDelayMs: 1000,
+    maxDelayMs: 5000,
+    random: () => 0.5,
+    sleep,
+    onRetry,
+    ...overrides,
+  });
+  return { policy, sleep, onRetry };
+}
+
+function badGateway() {
+  return transportFailure("gh: Bad Gateway (HTTP 502)", 502);
+}
+
+describe("isWriteRequest()", () => {
+  it("treats GETs and GraphQL queries as reads", () => {
+    expect(isWriteRequest(["api", "user"])).toBe(false);
+    expect(isWriteRequest(["api", "graphql", "-f", "query=query { viewer { login } }"])).toBe(false);
+    expect(isWriteRequest(["issue", "list", "-R", "o/r"])).toBe(false);
+  });
+
+  it("treats explicit methods, field payloads, and mutations as writes", () => {
+    expect(isWriteRequest(WRITE)).toBe(true);
+    expect(isWriteRequest(["api", "-X", "DELETE", "repos/o/r/labels/x"])).toBe(true);
+    expect(isWriteRequest(["api", "repos/o/r/issues/1/comments", "-f", "body=hi"])).toBe(true);
+    expect(isWriteRequest(["api", "graphql", "-f", "query=mutation { addReaction }"])).toBe(true);
+    expect(isWriteRequest(["issue", "comment", "1"])).toBe(true);
+  });
+});
+
+describe("isTransientFailure()", () => {
+  it("recognizes 5xx, timeouts, and GraphQL 'something went wrong'", () => {
+    expect(isTransientFailure(badGateway())).toBe(true);
+    expect(isTransientFailure(Object.assign(new Error("Command failed: gh api user"), { killed: true }))).toBe(true);
+    expect(isTransientFailure(transportFailure("GraphQL: Something went wrong while executing your query."))).toBe(true);
+    expect(isTransientFailure(transportFailure("HTTP 504: Gateway Timeout (https://api.github.com/user)"))).toBe(true);
+  });
+
+  it("leaves client errors and rate limits alone", () => {
+    expect(isTransientFailure(transportFailure("gh: Not Found (HTTP 404)", 404))).toBe(false);
+    expect(isTransientFailure(transportFailure("API rate limit exceeded", 403))).toBe(false);
+  });
+});
+
+describe("createRetryPolicy()", () => {
+  it("retries reads with jittered exponential backoff", async () => {
+    const { policy, sleep, onRetry } = makePolicy();
+    const task = vi.fn()
+      .mockRejectedValueOnce(badGateway())
+      .mockRejectedValueOnce(badGateway())
+      .mockResolvedValueOnce("ok");
+
+    await expect(policy.run(READ, task)).resolves.toBe("ok");
+
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([500, 1000]);
+    expect(onRetry).toHaveBeenCalledWith({ args: READ, attempt: 1, delayMs: 500, reason: "HTTP 502" });
+    expect(policy.stats()).toEqual({ retries: 2, budgetExhausted: false });
+  });
+
+  it("caps the backoff at maxDelayMs", async () => {
+    const { policy, sleep } = makePolicy({ random: () => 1, maxRetries: 5 });
+    const task = vi.fn().mockRejectedValue(badGateway());
+
+    await expect(policy.run(READ, task)).rejects.toThrow("Bad Gateway");
+
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([1000, 2000, 4000, 5000, 5000]);
+  });
+
+  it("honors Retry-After", async () => {
+    const { policy, sleep } = makePolicy();
+    const failure = Object.assign(transportFailure("gh: Service Unavailable (HTTP 503)", 503), { retryAfter: 3 });
+    const task = vi.fn().mockRejectedValueOnce(failure).mockResolvedValueOnce("ok");
+
+    await policy.run(READ, task);
+
+    expect(sleep).toHaveBeenCalledWith(3000);
+  });
+
+  it("caps Retry-After at maxDelayMs", async () => {
+    const { policy, sleep } = makePolicy();
+    const failure = Object.assign(transportFailure("gh: Service Unavailable (HTTP 503)", 503), { retryAfter: 86_400 });
+    const task = vi.fn().mockRejectedValueOnce(failure).mockResolvedValueOnce("ok");
+
+    await policy.run(READ, task);
+
+    expect(sleep).toHaveBeenCalledWith(5000);
+  });
+
+  it("gives up after maxRetries and rethrows the last failure", async () => {
+    const { policy } = makePolicy();
+    const failure = badGateway();
+    const task = vi.fn().mockRejectedValue(failure);
+
+    await expect(policy.run(READ, task)).rejects.toBe(failure);
+    expect(task).toHaveBeenCalledTimes(4);
+  });
+
+  it("does not retry permanent failures", async () => {
+    const { policy } = makePolicy();
+    const task = vi.fn().mockRejectedValue(transportFailure("gh: Not Found (HTTP 404)", 404));
+
+    await expect(policy.run(READ, task)).rejects.toThrow("Not Found");
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it("retries writes only when GitHub never processed them", async () => {
+    const { policy } = makePolicy();
+    const timedOut = vi.fn().mockRejectedValue(transportFailure("gh: Gateway Timeout (HTTP 504)", 504));
+    const rejected = vi.fn().mockRejectedValueOnce(badGateway()).mockResolvedValueOnce("");
+
+    await expect(policy.run(WRITE, timedOut)).rejects.toThrow("Gateway Timeout");
+    await expect(policy.run(WRITE, rejected)).resolves.toBe("");
+
+    expect(timedOut).toHaveBeenCalledTimes(1);
+    expect(rejected).toHaveBeenCalledTimes(2);
+  });
+
+  it("limits writes to maxWriteRetries", async () => {
+    const { policy } = makePolicy();
+    const task = vi.fn().mockRejectedValue(badGateway());
+
+    await expect(policy.run(WRITE, task)).rejects.toThrow();
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it("does not retry writes when retries are off", async () => {
+    const { policy } = makePolicy({ maxRetries: 0 });
+    const task = vi.fn().mockRejectedValue(badGateway());
+
+    await expect(policy.run(WRITE, task)).rejects.toThrow();
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops retrying once the run's budget is spent", async () => {
+    const { policy } = makePolicy({ budget: 2 });
+    const task = vi.fn().mockRejectedValue(badGateway());
+
+    await expect(policy.run(READ, task)).rejects.toThrow();
+    await expect(policy.run(READ, task)).rejects.toThrow();
+
+    expect(task).toHaveBeenCalledTimes(4);
+    expect(policy.stats()).toEqual({ retries: 2, budgetExhausted: true });
+  });
+});
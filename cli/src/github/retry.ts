@@ -0,0 +1,140 @@
+import type { TransportFailure } from "./transport.js";
+
+export interface RetryOptions {
+  maxRetries: number;       // retries per idempotent read; 0 also turns off write retries
+  maxWriteRetries: number;  // retries per write, only for failures GitHub never processed; capped at maxRetries
+  budget: number;           // retries allowed across the whole run
+  baseDelayMs: number;      // backoff cap for the first retry; doubles per attempt
+  maxDelayMs: number;       // longest wait before a retry, Retry-After included
+  random?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+  onRetry?: (event: RetryEvent) => void;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  maxWriteRetries: 1,
+  budget: 20,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+};
+
+export interface RetryEvent {
+  args: string[];
+  attempt: number;   // 1 for the first retry
+  delayMs: number;
+  reason: string;
+}
+
+export interface RetryStats {
+  retries: number;
+  budgetExhausted: boolean;
+}
+
+/**
+ * Retries transient GitHub failures (timeouts, 5xx, "something went wrong")
+ * with jittered exponential backoff. Writes are only retried when the
+ * failure shows GitHub never acted on them, so a mutation can't land twice.
+ */
+export interface RetryPolicy {
+  run<T>(args: string[], task: () => Promise<T>): Promise<T>;
+  stats(): RetryStats;
+}
+
+const TRANSIENT_MESSAGE_RE =
+  /HTTP 5\d\d|error connecting to|something went wrong|timed? ?out|timeout|connection reset|ECONNRESET|ETIMEDOUT|EAI_AGAIN|unexpected EOF|bad gateway|service unavailable|gateway time-?out/i;
+
+// Statuses and errors that mean the request was turned away before GitHub
+// processed it — the only failures a write may be retried on
+const UNPROCESSED_STATUSES = new Set([502, 503]);
+const UNPROCESSED_MESSAGE_RE = /HTTP 50[23]\b|ECONNREFUSED|EAI_AGAIN|bad gateway|service unavailable/i;
+
+function failureMessage(failure: TransportFailure): string {
+  return failure.stderr || failure.message || "";
+}
+
+/** Whether a gh argument vector changes state on GitHub. */
+export function isWriteRequest(args: string[]): boolean {
+  if (args[0] !== "api") return !["list", "view", "status"].includes(args[1] ?? "");
+
+  let method: string | undefined;
+  let hasFields = false;
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--method" || arg === "-X") method = args[++i]?.toUpperCase();
+    else if (arg === "-f" || arg === "-F" || arg === "--field" || arg === "--raw-field") {
+      const field = args[++i] ?? "";
+      hasFields = true;
+      if (field.startsWith("query=") && /^\s*mutation\b/.test(field.slice("query=".length))) return true;
+    }
+  }
+  // GraphQL queries are POSTed but only read
+  if (args.includes("graphql")) return false;
+  // gh api switches to POST when fields are given
+  return (method ?? (hasFields ? "POST" : "GET")) !== "GET";
+}
+
+export function isTransientFailure(failure: TransportFailure): boolean {
+  if (failure.status !== undefined && failure.status >= 500) return true;
+  // The gh subprocess was killed by its own timeout
+  if (failure.killed) return true;
+  if (failure.code === "ECONNRESET" || failure.code === "ETIMEDOUT" || failure.code === "EAI_AGAIN") return true;
+  return TRANSIENT_MESSAGE_RE.test(failureMessage(failure));
+}
+
+function isUnprocessedFailure(failure: TransportFailure): boolean {
+  if (failure.status !== undefined) return UNPROCESSED_STATUSES.has(failure.status);
+  return failure.code === "ECONNREFUSED" || UNPROCESSED_MESSAGE_RE.test(failureMessage(failure));
+}
+
+/** A short reason for logs, e.g. "HTTP 502" or "timeout". */
+function describeFailure(failure: TransportFailure): string {
+  if (failure.status !== undefined) return `HTTP ${failure.status}`;
+  if (failure.killed) return "timeout";
+  return failureMessage(failure).split("\n")[0].slice(0, 120) || "transient error";
+}
+
+function defaultSleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function createRetryPolicy(options: RetryOptions): RetryPolicy {
+  const random = options.random ?? Math.random;
+  const sleep = options.sleep ?? defaultSleep;
+  let retries = 0;
+  let budgetExhausted = false;
+
+  return {
+    async run(args, task) {
+      const write = isWriteRequest(args);
+      const maxRetries = write ? Math.min(options.maxWriteRetries, options.maxRetries) : options.maxRetries;
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return await task();
+        } catch (err) {
+          const failure = err as TransportFailure;
+          const retryable = write ? isUnprocessedFailure(failure) : isTransientFailure(failure);
+          if (!retryable || attempt >= maxRetries) throw err;
+          if (retries >= options.budget) {
+            budgetExhausted = true;
+            throw err;
+          }
+          retries++;
+
+          // Full jitter keeps concurrent requests from retrying in lockstep;
+          // Retry-After is honored, but never past maxDelayMs
+          const cap = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+          const delayMs = failure.retryAfter !== undefined
+            ? Math.min(failure.retryAfter * 1000, options.maxDelayMs)
+            : Math.round(random() * cap);
+          options.onRetry?.({ args, attempt: attempt + 1, delayMs, reason: describeFailure(failure) });
+          await sleep(delayMs);
+        }
+      }
+    },
+
+    stats() {
+      return { retries, budgetExhausted };
+    },
+  };
+}
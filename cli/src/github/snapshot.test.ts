@@ -0,0 +1,345 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("./client.js", () => ({
+  gh: vi.fn(),
+  getGhHost: vi.fn(() => "github.com"),
+}));
+
+import { gh } from "./client.js";
+import { fetchRepoSnapshot, snapshotPageSizes, syncRepoSnapshot } from "./snapshot.js";
+import type { SnapshotStore, StoredSnapshot } from "./store.js";
+
+const mockedGh = vi.mocked(gh);
+const repo = { owner: "hivemoot", repo: "colony" };
+
+function issueNode(number: number, overrides: Record<string, unknown> = {}) {
+  return {
+    number,
+    title: `Issue ${number}`,
+    state: "OPEN",
+    url: `https://github.com/hivemoot/colony/issues/${number}`,
+    createdAt: "2025-01-01T00:00:00Z",
+    updatedAt: "2025-01-02T00:00:00Z",
+    author: { login: "queen" },
+    labels: { nodes: [{ name: "hivemoot:voting" }] },
+    assignees: { nodes: [] },
+    comments: {
+      pageInfo: { hasPreviousPage: false, startCursor: null },
+      nodes: [{
+        id: `c${number}`,
+        body: "hello",
+        createdAt: "2025-01-01T01:00:00Z",
+        author: { login: "worker" },
+        reactions: { pageInfo: { hasNextPage: false, endCursor: null }, nodes: [] },
+      }],
+    },
+    ...overrides,
+  };
+}
+
+function prNode(number: number, overrides: Record<string, unknown> = {}) {
+  return {
+    number,
+    title: `PR ${number}`,
+    state: "OPEN",
+    url: `https://github.com/hivemoot/colony/pull/${number}`,
+    createdAt: "2025-01-01T00:00:00Z",
+    updatedAt: "2025-01-02T00:00:00Z",
+    isDraft: false,
+    mergeable: "MERGEABLE",
+    reviewDecision: null,
+    author: { login: "worker" },
+    labels: { nodes: [] },
+    comments: { nodes: [] },
+    reviews: { nodes: [{ state: "APPROVED", submittedAt: "2025-01-02T00:00:00Z", author: { login: "queen" } }] },
+    closingIssuesReferences: { nodes: [{ number: 1 }] },
+    reviewRequests: {
+      nodes: [
+        { requestedReviewer: { login: "scout" } },
+        { requestedReviewer: { combinedSlug: "hivemoot/reviewers" } },
+        { requestedReviewer: null },
+      ],
+    },
+    commits: {
+      nodes: [{
+        commit: {
+          committedDate: "2025-01-01T12:00:00Z",
+          statusCheckRollup: { contexts: { nodes: [{ __typename: "StatusContext", context: "ci", state: "SUCCESS" }] } },
+        },
+      }],
+    },
+    ...overrides,
+  };
+}
+
+function page(
+  issues: { nodes: unknown[]; hasNextPage?: boolean; endCursor?: string } | undefined,
+  prs: { nodes: unknown[]; hasNextPage?: boolean; endCursor?: string } | undefined,
+): string {
+  const connection = (c: NonNullable<typeof issues>) => ({
+    pageInfo: { hasNextPage: c.hasNextPage ?? false, endCursor: c.endCursor ?? null },
+    nodes: c.nodes,
+  });
+  return JSON.stringify({
+    data: {
+      repository: {
+        ...(issues && { issues: connection(issues) }),
+        ...(prs && { pullRequests: connection(prs) }),
+      },
+    },
+  });
+}
+
+function queryOf(call: number): string {
+  const args = mockedGh.mock.calls[call][0];
+  return args.find((a) => a.startsWith("query="))!;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("snapshotPageSizes()", () => {
+  it("fits a full PR page and as many issues as the node budget allows", () => {
+    const sizes = snapshotPageSizes(200, 200);
+    expect(sizes.prs).toBe(100);
+    expect(sizes.issues).toBeGreaterThan(0);
+    expect(sizes.issues).toBeLessThan(100);
+  });
+
+  it("gives issues more room once PRs are exhausted", () => {
+    expect(snapshotPageSizes(200, 0).issues).toBeGreaterThan(snapshotPageSizes(200, 100).issues);
+  });
+
+  it("never asks for more than remain", () => {
+    expect(snapshotPageSizes(3, 2)).toEqual({ issues: 3, prs: 2 });
+  });
+});
+
+describe("fetchRepoSnapshot()", () => {
+  it("fetches issues and PRs in a single query", async () => {
+    mockedGh.mockResolvedValue(page({ nodes: [issueNode(1)] }, { nodes: [prNode(2)] }));
+
+    const snapshot = await fetchRepoSnapshot(repo, 50);
+
+    expect(mockedGh).toHaveBeenCalledTimes(1);
+    expect(queryOf(0)).toContain("issues(first: $issuePageSize");
+    expect(queryOf(0)).toContain("pullRequests(first: $prPageSize");
+    expect(snapshot.issues).toEqual([{
+      number: 1,
+      title: "Issue 1",
+      labels: [{ name: "hivemoot:voting" }],
+      assignees: [],
+      author: { login: "queen" },
+      comments: [{ createdAt: "2025-01-01T01:00:00Z", author: { login: "worker" } }],
+      createdAt: "2025-01-01T00:00:00Z",
+      updatedAt: "2025-01-02T00:00:00Z",
+      url: "https://github.com/hivemoot/colony/issues/1",
+    }]);
+  });
+
+  it("maps PRs to the shape gh pr list produces, plus latest commit and review requests", async () => {
+    mockedGh.mockResolvedValue(page({ nodes: [] }, { nodes: [prNode(2)] }));
+
+    const { prs } = await fetchRepoSnapshot(repo, 50);
+
+    expect(prs[0]).toMatchObject({
+      number: 2,
+      reviewDecision: "",
+      reviews: [{ state: "APPROVED", submittedAt: "2025-01-02T00:00:00Z", author: { login: "queen" } }],
+      closingIssuesReferences: [{ number: 1 }],
+      statusCheckRollup: [{ __typename: "StatusContext", context: "ci", state: "SUCCESS" }],
+      commits: [{ committedDate: "2025-01-01T12:00:00Z" }],
+      reviewRequests: [{ login: "scout" }, { login: "hivemoot/reviewers" }],
+    });
+  });
+
+  it("keeps each issue's comment window for vote resolution", async () => {
+    mockedGh.mockResolvedValue(page({ nodes: [issueNode(1)] }, { nodes: [] }));
+
+    const { voteComments } = await fetchRepoSnapshot(repo, 50);
+
+    expect(voteComments.get(1)?.nodes[0]).toMatchObject({ id: "c1", body: "hello" });
+  });
+
+  it("keeps paging only the connection that has more", async () => {
+    mockedGh
+      .mockResolvedValueOnce(page(
+        { nodes: [issueNode(1)], hasNextPage: true, endCursor: "issues-1" },
+        { nodes: [prNode(2)] },
+      ))
+      .mockResolvedValueOnce(page({ nodes: [issueNode(3)] }, undefined));
+
+    const snapshot = await fetchRepoSnapshot(repo, 50);
+
+    expect(snapshot.issues.map((i) => i.number)).toEqual([1, 3]);
+    expect(snapshot.prs.map((p) => p.number)).toEqual([2]);
+    expect(queryOf(1)).not.toContain("pullRequests");
+    expect(mockedGh.mock.calls[1][0]).toContain("issueCursor=issues-1");
+  });
+
+  it("stops at the limit", async () => {
+    mockedGh.mockResolvedValue(page(
+      { nodes: [issueNode(1), issueNode(2)], hasNextPage: true, endCursor: "more" },
+      { nodes: [prNode(3), prNode(4)], hasNextPage: true, endCursor: "more" },
+    ));
+
+    const snapshot = await fetchRepoSnapshot(repo, 2);
+
+    expect(mockedGh).toHaveBeenCalledTimes(1);
+    expect(mockedGh.mock.calls[0][0]).toContain("issuePageSize=2");
+    expect(snapshot.issues).toHaveLength(2);
+    expect(snapshot.prs).toHaveLength(2);
+  });
+
+  it("throws REPO_ACCESS_DENIED when the repository does not resolve", async () => {
+    mockedGh.mockResolvedValue(JSON.stringify({ data: { repository: null } }));
+
+    await expect(fetchRepoSnapshot(repo)).rejects.toMatchObject({
+      code: "REPO_ACCESS_DENIED",
+      message: expect.stringContaining("hivemoot/colony"),
+    });
+  });
+});
+
+describe("syncRepoSnapshot()", () => {
+  const now = new Date("2025-01-10T12:00:00Z");
+  const key = "github.com/hivemoot/colony";
+
+  function memoryStore(initial?: StoredSnapshot) {
+    let saved = initial;
+    const store: SnapshotStore = {
+      load: vi.fn(async () => saved),
+      save: vi.fn(async (_key: string, snapshot: StoredSnapshot) => {
+        saved = snapshot;
+      }),
+    };
+    return { store, saved: () => saved };
+  }
+
+  // Full snapshot fetched an hour ago, last changed at 10:00
+  async function syncedStore() {
+    mockedGh.mockResolvedValueOnce(page(
+      { nodes: [issueNode(1, { updatedAt: "2025-01-10T10:00:00Z" }), issueNode(2)] },
+      { nodes: [prNode(3)] },
+    ));
+    const memory = memoryStore();
+    await syncRepoSnapshot(repo, memory.store, new Date("2025-01-10T11:00:00Z"));
+    mockedGh.mockReset();
+    return memory;
+  }
+
+  function statusPage(nodes: unknown[]): string {
+    return JSON.stringify({
+      data: { repository: { pullRequests: { pageInfo: { hasNextPage: false, endCursor: null }, nodes } } },
+    });
+  }
+
+  it("fetches every open item when nothing is stored", async () => {
+    mockedGh.mockResolvedValueOnce(page(
+      { nodes: [issueNode(1, { updatedAt: "2025-01-03T00:00:00Z" })] },
+      { nodes: [prNode(2)] },
+    ));
+    const { store, saved } = memoryStore();
+
+    const snapshot = await syncRepoSnapshot(repo, store, now);
+
+    expect(snapshot.complete).toBe(true);
+    expect(queryOf(0)).toContain("states: OPEN");
+    expect(store.load).toHaveBeenCalledWith(key);
+    expect(saved()).toMatchObject({
+      version: 1,
+      syncedAt: "2025-01-03T00:00:00Z",
+      fullSyncAt: now.toISOString(),
+      issues: [{ number: 1 }],
+      prs: [{ number: 2 }],
+    });
+  });
+
+  it("only fetches items updated since the last sync", async () => {
+    const { store, saved } = await syncedStore();
+    mockedGh
+      .mockResolvedValueOnce(page(
+        {
+          nodes: [
+            issueNode(4, { createdAt: "2025-01-10T10:30:00Z", updatedAt: "2025-01-10T10:30:00Z" }),
+            issueNode(1, { updatedAt: "2025-01-09T00:00:00Z" }),
+          ],
+          hasNextPage: true,
+          endCursor: "older",
+        },
+        { nodes: [] },
+      ))
+      .mockResolvedValueOnce(statusPage([]));
+
+    const snapshot = await syncRepoSnapshot(repo, store, now);
+
+    expect(queryOf(0)).toContain("states: [OPEN, CLOSED]");
+    expect(queryOf(0)).toContain("orderBy: {field: UPDATED_AT, direction: DESC}");
+    expect(mockedGh).toHaveBeenCalledTimes(2);
+    expect(snapshot.issues.map((i) => i.number)).toEqual([4, 1, 2]);
+    expect(snapshot.complete).toBe(true);
+    expect(saved()?.syncedAt).toBe("2025-01-10T10:30:00Z");
+    expect(saved()?.fullSyncAt).toBe("2025-01-10T11:00:00.000Z");
+  });
+
+  it("prunes items closed or merged since the last sync", async () => {
+    const { store, saved } = await syncedStore();
+    mockedGh.mockResolvedValueOnce(page(
+      { nodes: [issueNode(2, { state: "CLOSED", updatedAt: "2025-01-10T11:30:00Z" })] },
+      { nodes: [prNode(3, { state: "MERGED", updatedAt: "2025-01-10T11:30:00Z" })] },
+    ));
+
+    const snapshot = await syncRepoSnapshot(repo, store, now);
+
+    expect(snapshot.issues.map((i) => i.number)).toEqual([1]);
+    expect(snapshot.prs).toEqual([]);
+    expect(saved()?.prs).toEqual([]);
+    // No open PRs left, so no status refresh
+    expect(mockedGh).toHaveBeenCalledTimes(1);
+  });
+
+  it("prefetches vote comments only for refreshed issues", async () => {
+    const { store } = await syncedStore();
+    mockedGh
+      .mockResolvedValueOnce(page({ nodes: [issueNode(2, { updatedAt: "2025-01-10T11:30:00Z" })] }, { nodes: [] }))
+      .mockResolvedValueOnce(statusPage([]));
+
+    const { voteComments } = await syncRepoSnapshot(repo, store, now);
+
+    expect([...voteComments.keys()]).toEqual([2]);
+  });
+
+  it("refreshes CI status and mergeability on stored PRs", async () => {
+    const { store } = await syncedStore();
+    mockedGh
+      .mockResolvedValueOnce(page({ nodes: [] }, { nodes: [] }))
+      .mockResolvedValueOnce(statusPage([{
+        number: 3,
+        mergeable: "CONFLICTING",
+        commits: {
+          nodes: [{
+            commit: { statusCheckRollup: { contexts: { nodes: [{ __typename: "CheckRun", name: "ci", status: "COMPLETED", conclusion: "FAILURE" }] } } },
+          }],
+        },
+      }]));
+
+    const { prs } = await syncRepoSnapshot(repo, store, now);
+
+    expect(prs[0]).toMatchObject({
+      number: 3,
+      mergeable: "CONFLICTING",
+      statusCheckRollup: [{ __typename: "CheckRun", name: "ci", status: "COMPLETED", conclusion: "FAILURE" }],
+    });
+  });
+
+  it("falls back to a full fetch once the stored snapshot is a day old", async () => {
+    const { store } = await syncedStore();
+    mockedGh.mockResolvedValueOnce(page({ nodes: [issueNode(5)] }, { nodes: [] }));
+
+    const snapshot = await syncRepoSnapshot(repo, store, new Date("2025-01-11T12:00:00Z"));
+
+    expect(queryOf(0)).toContain("states: OPEN");
+    expect(snapshot.issues.map((i) => i.number)).toEqual([5]);
+  });
+});
@@ -0,0 +1,469 @@
+import type { GitHubIssue, GitHubPR, RepoRef, StatusCheck } from "../config/types.js";
+import { CliError } from "../config/types.js";
+import { getGhHost, gh } from "./client.js";
+import type { SnapshotStore } from "./store.js";
+import type { GraphQLComment, IssueCommentsConnection } from "./votes.js";
+
+/**
+ * Everything `buzz` needs from the repo, fetched in one paginated GraphQL
+ * traversal instead of `gh issue list` + `gh pr list` + a commits query +
+ * one vote query per voting issue.
+ */
+export interface RepoSnapshot {
+  issues: GitHubIssue[];
+  prs: GitHubPR[];
+  /** Latest comments (with reactions) per issue, for resolving votes. */
+  voteComments: Map<number, IssueCommentsConnection>;
+  /** True when every open item is present, as with a synced local store. */
+  complete?: boolean;
+}
+
+const MAX_PAGE_SIZE = 100;
+const COMMENTS_WINDOW = 100;
+// Votes beyond the first 50 reactions are resolved by per-issue pagination
+const REACTIONS_WINDOW = 50;
+
+// GitHub rejects queries whose worst-case node count exceeds 500,000; keep
+// headroom. Costs mirror the first/last arguments in the selections below.
+const NODE_BUDGET = 400_000;
+const ISSUE_NODE_COST = 1 + 100 + 100 + COMMENTS_WINDOW * (1 + REACTIONS_WINDOW);
+const PR_NODE_COST = 1 + 100 + 100 + 100 + 100 + 100 + 1 * (1 + 100);
+
+// Refetch everything now and then: deleted or transferred items never show
+// up as closed in an incremental sync
+const FULL_RESYNC_MS = 24 * 60 * 60 * 1000;
+const STORE_VERSION = 1;
+
+const ISSUE_SELECTION = `
+        number
+        title
+        state
+        url
+        createdAt
+        updatedAt
+        author { login }
+        labels(first: 100) { nodes { name } }
+        assignees(first: 100) { nodes { login } }
+        comments(last: ${COMMENTS_WINDOW}) {
+          pageInfo { hasPreviousPage startCursor }
+          nodes {
+            id
+            body
+            createdAt
+            author { login }
+            reactions(first: ${REACTIONS_WINDOW}) {
+              pageInfo { hasNextPage endCursor }
+              nodes { content createdAt user { login } }
+            }
+          }
+        }`;
+
+const PR_SELECTION = `
+        number
+        title
+        state
+        url
+        createdAt
+        updatedAt
+        isDraft
+        mergeable
+        reviewDecision
+        author { login }
+        labels(first: 100) { nodes { name } }
+        comments(first: 100) { nodes { createdAt author { login } } }
+        reviews(first: 100) { nodes { state submittedAt author { login } } }
+        closingIssuesReferences(first: 100) { nodes { number } }
+        reviewRequests(first: 100) {
+          nodes {
+            requestedReviewer {
+              ... on User { login }
+              ... on Bot { login }
+              ... on Team { combinedSlug }
+            }
+          }
+        }
+        commits(last: 1) {
+          nodes {
+            commit {
+              committedDate
+              statusCheckRollup {
+                contexts(first: 100) {
+                  nodes {
+                    __typename
+                    ... on CheckRun { name status conclusion }
+                    ... on StatusContext { context state }
+                  }
+                }
+              }
+            }
+          }
+        }`;
+
+// CI results and mergeability change without bumping a PR's updatedAt
+const PR_STATUS_QUERY = `
+    query($owner: String!, $name: String!, $cursor: String) {
+      repository(owner: $owner, name: $name) {
+        pullRequests(first: 100, after: $cursor, states: OPEN) {
+          pageInfo { hasNextPage endCursor }
+          nodes {
+            number
+            mergeable
+            commits(last: 1) {
+              nodes {
+                commit {
+                  statusCheckRollup {
+                    contexts(first: 100) {
+                      nodes {
+                        __typename
+                        ... on CheckRun { name status conclusion }
+                        ... on StatusContext { context state }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }`;
+
+interface PageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+interface Connection<T> {
+  nodes: T[];
+}
+
+interface IssueNode {
+  number: number;
+  title: string;
+  state: string;
+  url: string;
+  createdAt: string;
+  updatedAt: string;
+  author: { login: string } | null;
+  labels: Connection<{ name: string }>;
+  assignees: Connection<{ login: string }>;
+  comments: {
+    pageInfo?: IssueCommentsConnection["pageInfo"];
+    nodes: Array<GraphQLComment & { author: { login: string } | null }>;
+  };
+}
+
+interface PRNode {
+  number: number;
+  title: string;
+  state: string;
+  url: string;
+  createdAt: string;
+  updatedAt: string;
+  isDraft: boolean;
+  mergeable: string;
+  reviewDecision: string | null;
+  author: { login: string } | null;
+  labels: Connection<{ name: string }>;
+  comments: Connection<{ createdAt: string; author: { login: string } | null }>;
+  reviews: Connection<{ state: string; submittedAt?: string; author: { login: string } | null }>;
+  closingIssuesReferences: Connection<{ number: number }>;
+  reviewRequests: Connection<{ requestedReviewer: { login?: string; combinedSlug?: string } | null }>;
+  commits: Connection<{
+    commit: {
+      committedDate: string;
+      statusCheckRollup: { contexts: Connection<StatusCheck> } | null;
+    };
+  }>;
+}
+
+interface SnapshotPage {
+  issues?: { pageInfo: PageInfo; nodes: IssueNode[] };
+  pullRequests?: { pageInfo: PageInfo; nodes: PRNode[] };
+}
+
+interface PageRequest {
+  size: number;
+  cursor: string | null;
+}
+
+interface Traversal {
+  limit: number;
+  /** Incremental sync: include closed items, newest update first, and stop below this updatedAt. */
+  since?: string;
+}
+
+/**
+ * Page sizes for the next query. PRs are cheap and go first; issues, which
+ * carry comment reactions, get whatever remains of the node budget.
+ */
+export function snapshotPageSizes(issuesLeft: number, prsLeft: number): { issues: number; prs: number } {
+  const prs = Math.min(prsLeft, MAX_PAGE_SIZE);
+  const issueBudget = Math.floor((NODE_BUDGET - prs * PR_NODE_COST) / ISSUE_NODE_COST);
+  return { issues: Math.min(issuesLeft, MAX_PAGE_SIZE, issueBudget), prs };
+}
+
+function snapshotQuery(issues: PageRequest | undefined, prs: PageRequest | undefined, incremental: boolean): string {
+  const order = incremental ? "UPDATED_AT" : "CREATED_AT";
+  const params: string[] = ["$owner: String!", "$name: String!"];
+  const connections: string[] = [];
+  if (issues) {
+    params.push("$issuePageSize: Int!", "$issueCursor: String");
+    connections.push(`
+      issues(first: $issuePageSize, after: $issueCursor, states: ${incremental ? "[OPEN, CLOSED]" : "OPEN"}, orderBy: {field: ${order}, direction: DESC}) {
+        pageInfo { hasNextPage endCursor }
+        nodes {${ISSUE_SELECTION}
+        }
+      }`);
+  }
+  if (prs) {
+    params.push("$prPageSize: Int!", "$prCursor: String");
+    connections.push(`
+      pullRequests(first: $prPageSize, after: $prCursor, states: ${incremental ? "[OPEN, CLOSED, MERGED]" : "OPEN"}, orderBy: {field: ${order}, direction: DESC}) {
+        pageInfo { hasNextPage endCursor }
+        nodes {${PR_SELECTION}
+        }
+      }`);
+  }
+  return `
+    query(${params.join(", ")}) {
+      repository(owner: $owner, name: $name) {${connections.join("")}
+      }
+    }`;
+}
+
+function cursorArgs(name: string, cursor: string | null): string[] {
+  // gh sends null when the variable is absent, which GraphQL accepts for String?
+  return cursor ? ["-F", `${name}=${cursor}`] : ["-f", `${name}=`];
+}
+
+async function fetchSnapshotPage(
+  repo: RepoRef,
+  issues: PageRequest | undefined,
+  prs: PageRequest | undefined,
+  incremental: boolean,
+): Promise<SnapshotPage> {
+  const args = [
+    "api", "graphql",
+    "-F", `owner=${repo.owner}`,
+    "-F", `name=${repo.repo}`,
+    "-f", `query=${snapshotQuery(issues, prs, incremental)}`,
+  ];
+  if (issues) args.push("-F", `issuePageSize=${issues.size}`, ...cursorArgs("issueCursor", issues.cursor));
+  if (prs) args.push("-F", `prPageSize=${prs.size}`, ...cursorArgs("prCursor", prs.cursor));
+
+  const json = await gh(args);
+  let repository: SnapshotPage | null | undefined;
+  try {
+    repository = JSON.parse(json)?.data?.repository;
+  } catch {
+    throw new CliError("Failed to parse repository snapshot response", "MALFORMED_RESPONSE", 1);
+  }
+  if (!repository) {
+    throw new CliError(`Could not resolve repository ${repo.owner}/${repo.repo}`, "REPO_ACCESS_DENIED", 1);
+  }
+  return repository;
+}
+
+function toIssue(node: IssueNode): GitHubIssue {
+  return {
+    number: node.number,
+    title: node.title,
+    labels: node.labels.nodes,
+    assignees: node.assignees.nodes,
+    author: node.author,
+    comments: node.comments.nodes.map((c) => ({ createdAt: c.createdAt, author: c.author })),
+    createdAt: node.createdAt,
+    updatedAt: node.updatedAt,
+    url: node.url,
+  };
+}
+
+function toPR(node: PRNode): GitHubPR {
+  const latest = node.commits.nodes[0]?.commit;
+  return {
+    number: node.number,
+    title: node.title,
+    state: node.state,
+    author: node.author,
+    labels: node.labels.nodes,
+    comments: node.comments.nodes,
+    reviews: node.reviews.nodes,
+    createdAt: node.createdAt,
+    updatedAt: node.updatedAt,
+    url: node.url,
+    isDraft: node.isDraft,
+    // gh reports a missing review decision as an empty string
+    reviewDecision: node.reviewDecision ?? "",
+    mergeable: node.mergeable,
+    statusCheckRollup: latest?.statusCheckRollup?.contexts.nodes ?? [],
+    closingIssuesReferences: node.closingIssuesReferences.nodes,
+    commits: latest ? [{ committedDate: latest.committedDate }] : [],
+    reviewRequests: node.reviewRequests.nodes.flatMap(({ requestedReviewer: r }) => {
+      const login = r?.login ?? r?.combinedSlug;
+      return login ? [{ login }] : [];
+    }),
+  };
+}
+
+/**
+ * Page the issue and PR connections side by side, in the same queries,
+ * until each is exhausted or has yielded `limit` items.
+ */
+async function traverse(repo: RepoRef, traversal: Traversal): Promise<{ issues: IssueNode[]; prs: PRNode[] }> {
+  const { limit, since } = traversal;
+  const issues: IssueNode[] = [];
+  const prs: PRNode[] = [];
+  let issueCursor: string | null = null;
+  let prCursor: string | null = null;
+  let issuesDone = limit <= 0;
+  let prsDone = limit <= 0;
+
+  // In an incremental sync, results are newest-update first: keep the
+  // changed items and stop at the first one the last sync already saw
+  const takeChanged = <T extends { updatedAt: string }>(nodes: T[], into: T[]): boolean => {
+    for (const node of nodes) {
+      if (since !== undefined && node.updatedAt < since) return true;
+      into.push(node);
+    }
+    return false;
+  };
+
+  while (!issuesDone || !prsDone) {
+    const sizes = snapshotPageSizes(
+      issuesDone ? 0 : Math.min(limit - issues.length, MAX_PAGE_SIZE),
+      prsDone ? 0 : Math.min(limit - prs.length, MAX_PAGE_SIZE),
+    );
+    const page = await fetchSnapshotPage(
+      repo,
+      issuesDone ? undefined : { size: sizes.issues, cursor: issueCursor },
+      prsDone ? undefined : { size: sizes.prs, cursor: prCursor },
+      since !== undefined,
+    );
+
+    if (!issuesDone) {
+      const nodes = page.issues?.nodes ?? [];
+      const reachedSeen = takeChanged(nodes, issues);
+      issueCursor = page.issues?.pageInfo.endCursor ?? null;
+      issuesDone = reachedSeen || !page.issues?.pageInfo.hasNextPage || nodes.length === 0 ||
+        issues.length >= limit;
+    }
+
+    if (!prsDone) {
+      const nodes = page.pullRequests?.nodes ?? [];
+      const reachedSeen = takeChanged(nodes, prs);
+      prCursor = page.pullRequests?.pageInfo.endCursor ?? null;
+      prsDone = reachedSeen || !page.pullRequests?.pageInfo.hasNextPage || nodes.length === 0 ||
+        prs.length >= limit;
+    }
+  }
+
+  return { issues, prs };
+}
+
+/**
+ * Fetch up to `limit` open issues and `limit` open PRs (newest first),
+ * paging both connections in the same queries until each is exhausted.
+ */
+export async function fetchRepoSnapshot(repo: RepoRef, limit = 200): Promise<RepoSnapshot> {
+  const { issues, prs } = await traverse(repo, { limit });
+  return {
+    issues: issues.map(toIssue),
+    prs: prs.map(toPR),
+    voteComments: new Map(issues.map((node) => [node.number, node.comments])),
+  };
+}
+
+/** Overwrite CI results and mergeability on open PRs with their current values. */
+async function refreshPRStatus(repo: RepoRef, prs: Map<number, GitHubPR>): Promise<void> {
+  let cursor: string | null = null;
+  while (true) {
+    const json = await gh([
+      "api", "graphql",
+      "-F", `owner=${repo.owner}`,
+      "-F", `name=${repo.repo}`,
+      "-f", `query=${PR_STATUS_QUERY}`,
+      ...cursorArgs("cursor", cursor),
+    ]);
+    const connection = JSON.parse(json)?.data?.repository?.pullRequests as {
+      pageInfo: PageInfo;
+      nodes: Array<Pick<PRNode, "number" | "mergeable" | "commits">>;
+    } | undefined;
+    for (const node of connection?.nodes ?? []) {
+      const pr = prs.get(node.number);
+      if (!pr) continue;
+      pr.mergeable = node.mergeable;
+      pr.statusCheckRollup = node.commits.nodes[0]?.commit.statusCheckRollup?.contexts.nodes ?? [];
+    }
+    if (!connection?.pageInfo.hasNextPage || !connection.pageInfo.endCursor) return;
+    cursor = connection.pageInfo.endCursor;
+  }
+}
+
+const byNewest = (a: { createdAt: string }, b: { createdAt: string }): number =>
+  b.createdAt.localeCompare(a.createdAt);
+
+function newestUpdate(items: Array<{ updatedAt: string }>, floor = ""): string {
+  return items.reduce((max, item) => (item.updatedAt > max ? item.updatedAt : max), floor);
+}
+
+/**
+ * Bring the local snapshot of `repo` up to date and return every open issue
+ * and PR. Only items updated since the last sync are fetched; closed ones
+ * are pruned. Votes are only prefetched for refreshed issues — reactions
+ * don't bump updatedAt, so stored comment windows would go stale.
+ */
+export async function syncRepoSnapshot(
+  repo: RepoRef,
+  store: SnapshotStore,
+  now: Date = new Date(),
+): Promise<RepoSnapshot> {
+  const key = `${getGhHost()}/${repo.owner}/${repo.repo}`;
+  const stored = await store.load(key);
+
+  if (!stored || stored.version !== STORE_VERSION || now.getTime() - Date.parse(stored.fullSyncAt) > FULL_RESYNC_MS) {
+    const snapshot = await fetchRepoSnapshot(repo, Infinity);
+    await store.save(key, {
+      version: STORE_VERSION,
+      syncedAt: newestUpdate([...snapshot.issues, ...snapshot.prs]),
+      fullSyncAt: now.toISOString(),
+      issues: snapshot.issues,
+      prs: snapshot.prs,
+    });
+    return { ...snapshot, complete: true };
+  }
+
+  const changed = await traverse(repo, { limit: Infinity, since: stored.syncedAt });
+  const issues = new Map(stored.issues.map((issue) => [issue.number, issue]));
+  const prs = new Map(stored.prs.map((pr) => [pr.number, pr]));
+  const voteComments = new Map<number, IssueCommentsConnection>();
+
+  for (const node of changed.issues) {
+    if (node.state === "OPEN") {
+      issues.set(node.number, toIssue(node));
+      voteComments.set(node.number, node.comments);
+    } else {
+      issues.delete(node.number);
+    }
+  }
+  for (const node of changed.prs) {
+    if (node.state === "OPEN") prs.set(node.number, toPR(node));
+    else prs.delete(node.number);
+  }
+  if (prs.size > 0) await refreshPRStatus(repo, prs);
+
+  const snapshot: RepoSnapshot = {
+    issues: [...issues.values()].sort(byNewest),
+    prs: [...prs.values()].sort(byNewest),
+    voteComments,
+    complete: true,
+  };
+  await store.save(key, {
+    version: STORE_VERSION,
+    syncedAt: newestUpdate([...changed.issues, ...changed.prs], stored.syncedAt),
+    fullSyncAt: stored.fullSyncAt,
+    issues: snapshot.issues,
+    prs: snapshot.prs,
+  });
+  return snapshot;
+}
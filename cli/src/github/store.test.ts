@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, mkdtemp, readdir, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createSnapshotStore, type StoredSnapshot } from "./store.js";
+
+let dir: string;
+
+const stored: StoredSnapshot = {
+  version: 1,
+  syncedAt: "2025-01-02T00:00:00Z",
+  fullSyncAt: "2025-01-01T00:00:00Z",
+  issues: [{
+    number: 1,
+    title: "Issue 1",
+    labels: [],
+    assignees: [],
+    author: { login: "queen" },
+    comments: [],
+    createdAt: "2025-01-01T00:00:00Z",
+    updatedAt: "2025-01-02T00:00:00Z",
+    url: "https://github.com/hivemoot/colony/issues/1",
+  }],
+  prs: [],
+};
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "hivemoot-store-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("createSnapshotStore()", () => {
+  it("round-trips a snapshot", async () => {
+    const store = createSnapshotStore(dir);
+    await store.save("github.com/hivemoot/colony", stored);
+
+    expect(await store.load("github.com/hivemoot/colony")).toEqual(stored);
+  });
+
+  it("keeps one file per host and repo", async () => {
+    const store = createSnapshotStore(dir);
+    await store.save("github.com/hivemoot/colony", stored);
+
+    expect(await store.load("ghe.example.com/hivemoot/colony")).toBeUndefined();
+    expect(await readdir(join(dir, "snapshots", "github.com", "hivemoot"))).toEqual(["colony.json"]);
+  });
+
+  it("treats a missing snapshot as empty", async () => {
+    const store = createSnapshotStore(join(dir, "does-not-exist"));
+
+    expect(await store.load("github.com/hivemoot/colony")).toBeUndefined();
+  });
+
+  it("treats a corrupted snapshot as empty", async () => {
+    await mkdir(join(dir, "snapshots", "github.com", "hivemoot"), { recursive: true });
+    await writeFile(join(dir, "snapshots", "github.com", "hivemoot", "colony.json"), "{not json", "utf-8");
+    const store = createSnapshotStore(dir);
+
+    expect(await store.load("github.com/hivemoot/colony")).toBeUndefined();
+  });
+
+  it("ignores write failures", async () => {
+    const file = join(dir, "file");
+    await writeFile(file, "", "utf-8");
+    const store = createSnapshotStore(file);
+
+    await expect(store.save("github.com/hivemoot/colony", stored)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,57 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import type { GitHubIssue, GitHubPR } from "../config/types.js";
+
+export interface StoredSnapshot {
+  version: number;
+  syncedAt: string;     // newest updatedAt seen — the next incremental sync starts here
+  fullSyncAt: string;   // when every open item was last fetched from scratch
+  issues: GitHubIssue[];
+  prs: GitHubPR[];
+}
+
+/**
+ * On-disk copy of a repo's open issues and PRs, one JSON file per
+ * `host/owner/repo` key, so buzz only has to fetch what changed.
+ */
+export interface SnapshotStore {
+  load(key: string): Promise<StoredSnapshot | undefined>;
+  save(key: string, snapshot: StoredSnapshot): Promise<void>;
+}
+
+export function createSnapshotStore(dir: string): SnapshotStore {
+  const snapshotPath = (key: string): string => join(dir, "snapshots", ...key.split("/")) + ".json";
+
+  return {
+    async load(key) {
+      try {
+        const parsed = JSON.parse(await readFile(snapshotPath(key), "utf-8")) as Partial<StoredSnapshot>;
+        if (
+          typeof parsed.syncedAt !== "string" ||
+          typeof parsed.fullSyncAt !== "string" ||
+          !Array.isArray(parsed.issues) ||
+          !Array.isArray(parsed.prs)
+        ) {
+          return undefined;
+        }
+        return parsed as StoredSnapshot;
+      } catch {
+        // Missing or corrupted snapshot — the caller does a full sync
+        return undefined;
+      }
+    },
+
+    async save(key, snapshot) {
+      // Best-effort: losing the snapshot only costs a full sync next run
+      try {
+        const path = snapshotPath(key);
+        await mkdir(dirname(path), { recursive: true });
+        const tmpPath = `${path}.${process.pid}.tmp`;
+        await writeFile(tmpPath, JSON.stringify(snapshot), "utf-8");
+        await rename(tmpPath, path);
+      } catch {
+        // ignore
+      }
+    },
+  };
+}
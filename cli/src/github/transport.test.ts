@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("child_process", () => {
+  const { promisify } = require("util");
+  const mockFn = vi.fn();
+  mockFn[promisify.custom] = vi.fn();
+  return { execFile: mockFn };
+});
+
+import { execFile } from "child_process";
+import { promisify } from "util";
+import type { ResponseCache } from "./cache.js";
+import { ghCliTransport, parseIncludedResponse } from "./transport.js";
+
+const execFilePromisified = promisify(execFile) as unknown as ReturnType<typeof vi.fn>;
+
+function fakeCache(entry?: { etag?: string; body: string }): ResponseCache & { stored: unknown[] } {
+  const stored: unknown[] = [];
+  let hits = 0;
+  let misses = 0;
+  return {
+    stored,
+    lookup: vi.fn().mockResolvedValue(entry),
+    store: vi.fn(async (_key, _token, value) => { stored.push(value); }),
+    recordHit: () => { hits++; },
+    recordMiss: () => { misses++; },
+    stats: () => ({ hits, misses }),
+  };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("parseIncludedResponse()", () => {
+  it("splits status, headers, and body", () => {
+    const parsed = parseIncludedResponse('HTTP/2.0 200 OK\nEtag: "abc"\nContent-Type: application/json\n\n{"a":1}');
+
+    expect(parsed?.status).toBe(200);
+    expect(parsed?.headers.get("etag")).toBe('"abc"');
+    expect(parsed?.body).toBe('{"a":1}');
+  });
+
+  it("returns undefined for output without a status line", () => {
+    expect(parseIncludedResponse('{"a":1}')).toBeUndefined();
+  });
+});
+
+describe("ghCliTransport", () => {
+  it("runs gh unchanged when no cache is set", async () => {
+    execFilePromisified.mockResolvedValue({ stdout: "ok", stderr: "" });
+
+    await ghCliTransport.run(["api", "user"], {});
+
+    expect(execFilePromisified.mock.calls[0][1]).toEqual(["api", "user"]);
+  });
+
+  it("passes an enterprise host to gh via GH_HOST", async () => {
+    execFilePromisified.mockResolvedValue({ stdout: "ok", stderr: "" });
+
+    await ghCliTransport.run(["api", "user"], { host: "ghe.example.com" });
+
+    expect(execFilePromisified.mock.calls[0][2].env.GH_HOST).toBe("ghe.example.com");
+  });
+
+  it("stores validators from a full response", async () => {
+    const cache = fakeCache();
+    execFilePromisified.mockResolvedValue({ stdout: 'HTTP/2.0 200 OK\nETag: "v1"\n\n{"login":"alice"}', stderr: "" });
+
+    const out = await ghCliTransport.run(["api", "user"], { cache });
+
+    expect(out).toBe('{"login":"alice"}');
+    expect(execFilePromisified.mock.calls[0][1]).toEqual(["api", "-i", "user"]);
+    expect(cache.stored).toEqual([{ etag: '"v1"', lastModified: undefined, body: '{"login":"alice"}' }]);
+    expect(cache.stats()).toEqual({ hits: 0, misses: 1 });
+  });
+
+  it("serves the cached body on 304", async () => {
+    const cache = fakeCache({ etag: '"v1"', body: '{"login":"alice"}' });
+    execFilePromisified.mockRejectedValue(
+      Object.assign(new Error("exit 1"), { code: 1, stdout: 'HTTP/2.0 304 Not Modified\nETag: "v1"\n\n', stderr: "" }),
+    );
+
+    const out = await ghCliTransport.run(["api", "user"], { cache });
+
+    expect(out).toBe('{"login":"alice"}');
+    expect(execFilePromisified.mock.calls[0][1]).toEqual(["api", "-i", "-H", 'If-None-Match: "v1"', "user"]);
+    expect(cache.stats()).toEqual({ hits: 1, misses: 0 });
+  });
+
+  it("does not cache graphql or flagged calls", async () => {
+    const cache = fakeCache();
+    execFilePromisified.mockResolvedValue({ stdout: "{}", stderr: "" });
+
+    await ghCliTransport.run(["api", "graphql", "-f", "query=q"], { cache });
+    await ghCliTransport.run(["api", "--method", "PATCH", "/notifications/threads/1"], { cache });
+
+    expect(cache.lookup).not.toHaveBeenCalled();
+  });
+
+  it("reports every rate-limit bucket when a gh call is rate limited", async () => {
+    const reset = Math.floor(Date.now() / 1000) + 600;
+    const failure = Object.assign(new Error("Command failed"), {
+      stderr: "gh: API rate limit exceeded for user ID 1. (HTTP 403)",
+    });
+    execFilePromisified
+      .mockRejectedValueOnce(failure)
+      .mockResolvedValueOnce({
+        stdout: JSON.stringify({ resources: { core: { remaining: 5, reset }, graphql: { remaining: 0, reset } } }),
+        stderr: "",
+      });
+    const onRateLimit = vi.fn();
+
+    await expect(ghCliTransport.run(["pr", "list", "--json", "number"], { onRateLimit })).rejects.toBe(failure);
+
+    expect(execFilePromisified.mock.calls[1][1]).toEqual(["api", "rate_limit"]);
+    expect(onRateLimit).toHaveBeenCalledWith({ resource: "core", remaining: 5, resetAt: reset * 1000 });
+    expect(onRateLimit).toHaveBeenCalledWith({ resource: "graphql", remaining: 0, resetAt: reset * 1000 });
+  });
+
+  it("keeps the original failure when the rate_limit lookup fails", async () => {
+    const failure = Object.assign(new Error("Command failed"), { stderr: "API rate limit exceeded" });
+    execFilePromisified.mockRejectedValueOnce(failure).mockRejectedValueOnce(new Error("offline"));
+    const onRateLimit = vi.fn();
+
+    await expect(ghCliTransport.run(["api", "graphql", "-f", "query={viewer{login}}"], { onRateLimit })).rejects.toBe(failure);
+    expect(onRateLimit).not.toHaveBeenCalled();
+  });
+
+  it("does not look up the rate limit for other failures", async () => {
+    execFilePromisified.mockRejectedValueOnce(Object.assign(new Error("Command failed"), { stderr: "HTTP 404: Not Found" }));
+
+    await expect(ghCliTransport.run(["api", "repos/o/r"], { onRateLimit: vi.fn() })).rejects.toThrow();
+    expect(execFilePromisified).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,190 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import { conditionalHeaders, type ResponseCache } from "./cache.js";
+
+const execFileAsync = promisify(execFile);
+
+export type TransportName = "gh" | "http";
+
+export const TRANSPORT_NAMES: readonly TransportName[] = ["gh", "http"];
+
+export const DEFAULT_HOST = "github.com";
+
+/** Rate-limit budget as reported by GitHub's `x-ratelimit-*` headers. */
+export interface RateLimitInfo {
+  resource: string;   // "core" | "graphql" | "search" | ...
+  remaining: number;
+  resetAt: number;    // epoch ms
+}
+
+export interface TransportOptions {
+  token?: string;
+  host?: string;      // GitHub Enterprise Server hostname; defaults to github.com
+  cache?: ResponseCache;
+  onRateLimit?: (info: RateLimitInfo) => void;
+}
+
+/**
+ * Error shape thrown by transports. `stderr` carries the gh-style message
+ * and `status` the HTTP status when one is known, so `gh()` can classify
+ * failures the same way regardless of backend.
+ */
+export interface TransportFailure extends Error {
+  stderr?: string;
+  status?: number;
+  code?: string | number;
+  killed?: boolean;     // the gh subprocess hit its timeout
+  retryAfter?: number;  // seconds, from a Retry-After header
+  resetAt?: number;     // epoch ms when the exhausted rate limit resets
+}
+
+/**
+ * A backend that executes a gh-style argument vector (e.g.
+ * `["api", "graphql", "-f", "query=..."]`) and returns its stdout.
+ */
+export interface GhTransport {
+  readonly name: string;
+  run(args: string[], options: TransportOptions): Promise<string>;
+}
+
+export function transportFailure(message: string, status?: number): TransportFailure {
+  return Object.assign(new Error(message), { stderr: message, status });
+}
+
+async function execGh(args: string[], token?: string, host?: string): Promise<string> {
+  const opts: { timeout: number; env?: NodeJS.ProcessEnv } = {
+    timeout: 30_000,
+  };
+  if (token || host) {
+    opts.env = { ...process.env };
+    if (token) opts.env.GH_TOKEN = token;
+    if (host) opts.env.GH_HOST = host;
+  }
+  const { stdout } = await execFileAsync("gh", args, opts);
+  return stdout;
+}
+
+/** The endpoint of a plain `gh api <endpoint>` GET, or undefined when not cacheable. */
+function cacheableEndpoint(args: string[]): string | undefined {
+  if (args.length !== 2 || args[0] !== "api") return undefined;
+  const endpoint = args[1];
+  if (endpoint.startsWith("-") || endpoint === "graphql") return undefined;
+  return endpoint;
+}
+
+interface IncludedResponse {
+  status: number;
+  headers: Map<string, string>;
+  body: string;
+}
+
+/** Split `gh api -i` output into status line, headers, and body. */
+export function parseIncludedResponse(output: string): IncludedResponse | undefined {
+  const match = output.match(/^HTTP\/[\d.]+ (\d{3})[^\n]*\r?\n/);
+  if (!match) return undefined;
+  const rest = output.slice(match[0].length);
+  const split = rest.search(/\r?\n\r?\n/);
+  const headerBlock = split === -1 ? rest : rest.slice(0, split);
+  const body = split === -1 ? "" : rest.slice(split).replace(/^\r?\n\r?\n/, "");
+  const headers = new Map<string, string>();
+  for (const line of headerBlock.split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon > 0) headers.set(line.slice(0, colon).trim().toLowerCase(), line.slice(colon + 1).trim());
+  }
+  return { status: Number(match[1]), headers, body };
+}
+
+const RATE_LIMIT_RE = /rate.?limit/i;
+
+interface RateLimitResponse {
+  resources?: Record<string, { remaining: number; reset: number }>;
+}
+
+/**
+ * Report every bucket from `gh api rate_limit`, which does not count against
+ * the limit. gh hides response headers, so this is how a rate-limited call
+ * learns when its budget resets.
+ */
+async function reportRateLimits(
+  onRateLimit: (info: RateLimitInfo) => void,
+  token?: string,
+  host?: string,
+): Promise<void> {
+  let response: RateLimitResponse;
+  try {
+    response = JSON.parse(await execGh(["api", "rate_limit"], token, host)) as RateLimitResponse;
+  } catch {
+    // The original failure is what the caller needs to see
+    return;
+  }
+  for (const [resource, { remaining, reset }] of Object.entries(response.resources ?? {})) {
+    onRateLimit({ resource, remaining, resetAt: reset * 1000 });
+  }
+}
+
+/** One gh call; plain REST GETs go through the response cache when one is set. */
+async function runGh(args: string[], { token, host, cache, onRateLimit }: TransportOptions): Promise<string> {
+  const endpoint = cache ? cacheableEndpoint(args) : undefined;
+  if (!cache || !endpoint) {
+    return execGh(args, token, host);
+  }
+
+  const key = host ? `GET ${host} ${endpoint}` : `GET ${endpoint}`;
+  const cached = await cache.lookup(key, token);
+  const headerArgs = cached
+    ? Object.entries(conditionalHeaders(cached)).flatMap(([name, value]) => ["-H", `${name}: ${value}`])
+    : [];
+
+  let output: string;
+  try {
+    output = await execGh(["api", "-i", ...headerArgs, endpoint], token, host);
+  } catch (err) {
+    // gh exits non-zero on 304 but still prints the response head
+    const stdout = (err as { stdout?: string }).stdout;
+    if (cached && stdout && parseIncludedResponse(stdout)?.status === 304) {
+      cache.recordHit();
+      return cached.body;
+    }
+    throw err;
+  }
+
+  const response = parseIncludedResponse(output);
+  if (!response) return output;
+  const remaining = response.headers.get("x-ratelimit-remaining");
+  const reset = response.headers.get("x-ratelimit-reset");
+  if (remaining !== undefined && reset !== undefined) {
+    onRateLimit?.({
+      resource: response.headers.get("x-ratelimit-resource") ?? "core",
+      remaining: Number(remaining),
+      resetAt: Number(reset) * 1000,
+    });
+  }
+  cache.recordMiss();
+  await cache.store(key, token, {
+    etag: response.headers.get("etag"),
+    lastModified: response.headers.get("last-modified"),
+    body: response.body,
+  });
+  return response.body;
+}
+
+/**
+ * Runs the `gh` CLI as a subprocess. Plain REST GETs become conditional
+ * requests (`gh api -i -H If-None-Match: ...`) when a response cache is set.
+ * A rate-limited call of any kind reports the current budgets before it
+ * fails, so the scheduler can hold later requests and give a reset time.
+ */
+export const ghCliTransport: GhTransport = {
+  name: "gh",
+  async run(args, options) {
+    try {
+      return await runGh(args, options);
+    } catch (err) {
+      const failure = err as TransportFailure;
+      if (options.onRateLimit && RATE_LIMIT_RE.test(failure.stderr ?? failure.message ?? "")) {
+        await reportRateLimits(options.onRateLimit, options.token, options.host);
+      }
+      throw err;
+    }
+  },
+};
@@ -3,9 +3,10 @@ import { CliError } from "../config/types.js";
 
 vi.mock("./client.js", () => ({
   gh: vi.fn(),
+  getGhLogin: vi.fn(),
 }));
 
-import { gh } from "./client.js";
+import { getGhLogin, gh } from "./client.js";
 import { fetchCurrentUser } from "./user.js";
 
 const mockGh = gh as unknown as ReturnType<typeof vi.fn>;
@@ -16,16 +17,25 @@ describe("fetchCurrentUser()", () => {
   });
 
   it("returns the login on success", async () => {
-    mockGh.mockResolvedValue("alice");
+    mockGh.mockResolvedValue(JSON.stringify({ login: "alice", id: 1 }));
 
     const result = await fetchCurrentUser();
 
     expect(result).toBe("alice");
-    expect(mockGh).toHaveBeenCalledWith(["api", "user", "--jq", ".login"]);
+    expect(mockGh).toHaveBeenCalledWith(["api", "user"]);
+  });
+
+  it("returns the bot login when authenticated as a GitHub App", async () => {
+    vi.mocked(getGhLogin).mockResolvedValueOnce("hivemoot-worker[bot]");
+
+    const result = await fetchCurrentUser();
+
+    expect(result).toBe("hivemoot-worker[bot]");
+    expect(mockGh).not.toHaveBeenCalled();
   });
 
   it("throws GH_NOT_AUTHENTICATED when login is empty", async () => {
-    mockGh.mockResolvedValue("");
+    mockGh.mockResolvedValue(JSON.stringify({ login: "" }));
 
     await expect(fetchCurrentUser()).rejects.toThrow(CliError);
     await expect(fetchCurrentUser()).rejects.toMatchObject({
@@ -35,6 +45,14 @@ describe("fetchCurrentUser()", () => {
     });
   });
 
+  it("throws GH_NOT_AUTHENTICATED when the response is not JSON", async () => {
+    mockGh.mockResolvedValue("");
+
+    await expect(fetchCurrentUser()).rejects.toMatchObject({
+      code: "GH_NOT_AUTHENTICATED",
+    });
+  });
+
   it("propagates CliError from gh client", async () => {
     mockGh.mockRejectedValue(
       new CliError("gh CLI not found. Install: https://cli.github.com", "GH_NOT_FOUND", 2),
@@ -1,12 +1,24 @@
-import { gh } from "./client.js";
+import { getGhLogin, gh } from "./client.js";
 import { CliError } from "../config/types.js";
 
 /**
  * Return the login of the currently authenticated GitHub user.
+ * For GitHub App installations this is the app's bot login, since
+ * `api user` is not available to installation tokens; a credentials
+ * profile may also pin the login outright.
  */
 export async function fetchCurrentUser(): Promise<string> {
-  const login = await gh(["api", "user", "--jq", ".login"]);
-  if (!login) {
+  const known = await getGhLogin();
+  if (known) return known;
+
+  const raw = await gh(["api", "user"]);
+  let login: unknown;
+  try {
+    login = (JSON.parse(raw) as { login?: unknown }).login;
+  } catch {
+    login = undefined;
+  }
+  if (typeof login !== "string" || !login) {
     throw new CliError(
       "Could not determine GitHub username. Pass --github-token <token>, set GITHUB_TOKEN, or run: gh auth login",
       "GH_NOT_AUTHENTICATED",
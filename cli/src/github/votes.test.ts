@@ -14,49 +14,69 @@ beforeEach(() => {
   vi.clearAllMocks();
 });
 
-function makeGraphQLResponse(issueComments: Array<{
+type TestComment = {
   id?: string;
   body: string;
   createdAt: string;
   reactions: Array<{ content: string; createdAt: string; userLogin: string | null }>;
-}>, options?: {
+};
+
+type ConnectionOptions = {
   hasPreviousPage?: boolean;
   startCursor?: string | null;
   reactionHasNextPage?: boolean;
   reactionEndCursor?: string | null;
-}) {
-  return JSON.stringify({
-    data: {
-      repository: {
-        issue: {
-          comments: {
-            pageInfo: {
-              hasPreviousPage: options?.hasPreviousPage ?? false,
-              startCursor: options?.startCursor ?? null,
-            },
-            nodes: issueComments.map((c) => ({
-              id: c.id ?? "comment-id",
-              body: c.body,
-              createdAt: c.createdAt,
-              reactions: {
-                pageInfo: {
-                  hasNextPage: options?.reactionHasNextPage ?? false,
-                  endCursor: options?.reactionEndCursor ?? null,
-                },
-                nodes: c.reactions.map((r) => ({
-                  content: r.content,
-                  createdAt: r.createdAt,
-                  user: r.userLogin ? { login: r.userLogin } : null,
-                })),
-              },
-            })),
-          },
+};
+
+function makeCommentsConnection(issueComments: TestComment[], options?: ConnectionOptions) {
+  return {
+    pageInfo: {
+      hasPreviousPage: options?.hasPreviousPage ?? false,
+      startCursor: options?.startCursor ?? null,
+    },
+    nodes: issueComments.map((c) => ({
+      id: c.id ?? "comment-id",
+      body: c.body,
+      createdAt: c.createdAt,
+      reactions: {
+        pageInfo: {
+          hasNextPage: options?.reactionHasNextPage ?? false,
+          endCursor: options?.reactionEndCursor ?? null,
         },
+        nodes: c.reactions.map((r) => ({
+          content: r.content,
+          createdAt: r.createdAt,
+          user: r.userLogin ? { login: r.userLogin } : null,
+        })),
       },
-    },
+    })),
+  };
+}
+
+/** Batched response covering several issues, aliased i0, i1, ... */
+function makeBatchResponse(connections: Array<ReturnType<typeof makeCommentsConnection> | null>) {
+  const repository: Record<string, unknown> = {};
+  connections.forEach((comments, i) => {
+    repository[`i${i}`] = comments ? { comments } : null;
   });
+  return JSON.stringify({ data: { repository } });
+}
+
+/** Batched response for a single issue — what most single-issue tests see first. */
+function makeGraphQLResponse(issueComments: TestComment[], options?: ConnectionOptions) {
+  return makeBatchResponse([makeCommentsConnection(issueComments, options)]);
 }
 
+/** Per-issue comments page, used when an outlier paginates on its own. */
+function makeIssueResponse(issueComments: TestComment[], options?: ConnectionOptions) {
+  return JSON.stringify({
+    data: { repository: { issue: { comments: makeCommentsConnection(issueComments, options) } } },
+  });
+}
+
+const votingBody = (issueNumber: number) =>
+  `<!-- hivemoot-metadata: {"version":1,"type":"voting","cycle":1,"createdAt":"2024-01-15T10:00:00.000Z","issueNumber":${issueNumber}} -->`;
+
 function makeReactionsNodeResponse(reactions: Array<{ content: string; createdAt: string; userLogin: string | null }>, options?: {
   hasNextPage?: boolean;
   endCursor?: string | null;
@@ -200,49 +220,76 @@ describe("fetchVotes()", () => {
     expect(result.get(42)?.reaction).toBe("👍");
   });
 
-  it("fetches votes for multiple issues in parallel", async () => {
-    mockedGh
-      .mockResolvedValueOnce(
-        makeGraphQLResponse([
-          {
-            body: '<!-- hivemoot-metadata: {"version":1,"type":"voting","cycle":1,"createdAt":"2024-01-15T10:00:00.000Z","issueNumber":1} -->',
-            createdAt: "2024-01-15T10:00:00Z",
-            reactions: [
-              { content: "THUMBS_UP", createdAt: "2024-01-16T12:00:00Z", userLogin: "scout" },
-            ],
-          },
-        ]),
-      )
-      .mockResolvedValueOnce(
-        makeGraphQLResponse([
-          {
-            body: '<!-- hivemoot-metadata: {"version":1,"type":"voting","cycle":1,"createdAt":"2024-01-15T10:00:00.000Z","issueNumber":2} -->',
-            createdAt: "2024-01-15T10:00:00Z",
-            reactions: [
-              { content: "EYES", createdAt: "2024-01-17T12:00:00Z", userLogin: "scout" },
-            ],
-          },
-        ]),
-      );
+  it("fetches votes for multiple issues in one aliased query", async () => {
+    mockedGh.mockResolvedValueOnce(
+      makeBatchResponse([
+        makeCommentsConnection([{
+          body: votingBody(1),
+          createdAt: "2024-01-15T10:00:00Z",
+          reactions: [{ content: "THUMBS_UP", createdAt: "2024-01-16T12:00:00Z", userLogin: "scout" }],
+        }]),
+        makeCommentsConnection([{
+          body: votingBody(2),
+          createdAt: "2024-01-15T10:00:00Z",
+          reactions: [{ content: "EYES", createdAt: "2024-01-17T12:00:00Z", userLogin: "scout" }],
+        }]),
+      ]),
+    );
 
     const result = await fetchVotes(repo, [1, 2], "scout");
     expect(result.size).toBe(2);
     expect(result.get(1)?.reaction).toBe("👍");
     expect(result.get(2)?.reaction).toBe("👀");
+    expect(mockedGh).toHaveBeenCalledTimes(1);
+
+    const args = mockedGh.mock.calls[0][0];
+    const query = args[args.indexOf("-f") + 1];
+    expect(query).toContain("i0: issue(number: $n0)");
+    expect(query).toContain("i1: issue(number: $n1)");
+    expect(args).toContain("n0=1");
+    expect(args).toContain("n1=2");
   });
 
-  it("handles individual issue query failures gracefully", async () => {
+  it("splits many issues into batches of 20", async () => {
+    mockedGh.mockImplementation(async (args: string[]) => {
+      const count = args.filter((a) => /^n\d+=/.test(a)).length;
+      return makeBatchResponse(Array.from({ length: count }, () => makeCommentsConnection([])));
+    });
+
+    const numbers = Array.from({ length: 45 }, (_, i) => i + 1);
+    await fetchVotes(repo, numbers, "scout");
+
+    const sizes = mockedGh.mock.calls.map(([args]) => args.filter((a) => /^n\d+=/.test(a)).length);
+    expect(sizes).toEqual([20, 20, 5]);
+  });
+
+  it("runs at most 3 queries at once", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    mockedGh.mockImplementation(async (args: string[]) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      inFlight--;
+      const count = args.filter((a) => /^n\d+=/.test(a)).length;
+      return makeBatchResponse(Array.from({ length: count }, () => makeCommentsConnection([])));
+    });
+
+    await fetchVotes(repo, Array.from({ length: 200 }, (_, i) => i + 1), "scout");
+
+    expect(mockedGh).toHaveBeenCalledTimes(10);
+    expect(maxInFlight).toBe(3);
+  });
+
+  it("falls back to per-issue queries when a batch fails", async () => {
     mockedGh
+      .mockRejectedValueOnce(new Error("GraphQL: Could not resolve to an Issue with the number of 2."))
       .mockResolvedValueOnce(
-        makeGraphQLResponse([
-          {
-            body: '<!-- hivemoot-metadata: {"version":1,"type":"voting","cycle":1,"createdAt":"2024-01-15T10:00:00.000Z","issueNumber":1} -->',
-            createdAt: "2024-01-15T10:00:00Z",
-            reactions: [
-              { content: "THUMBS_UP", createdAt: "2024-01-16T12:00:00Z", userLogin: "scout" },
-            ],
-          },
-        ]),
+        makeIssueResponse([{
+          body: votingBody(1),
+          createdAt: "2024-01-15T10:00:00Z",
+          reactions: [{ content: "THUMBS_UP", createdAt: "2024-01-16T12:00:00Z", userLogin: "scout" }],
+        }]),
       )
       .mockRejectedValueOnce(new Error("GraphQL error"));
 
@@ -250,6 +297,7 @@ describe("fetchVotes()", () => {
     expect(result.size).toBe(1);
     expect(result.get(1)?.reaction).toBe("👍");
     expect(result.has(2)).toBe(false);
+    expect(mockedGh).toHaveBeenCalledTimes(3);
   });
 
   it("handles non-voting metadata types", async () => {
@@ -285,12 +333,11 @@ describe("fetchVotes()", () => {
   });
 
   it("handles null issue in GraphQL response", async () => {
-    mockedGh.mockResolvedValue(JSON.stringify({
-      data: { repository: { issue: null } },
-    }));
+    mockedGh.mockResolvedValue(makeBatchResponse([null]));
 
     const result = await fetchVotes(repo, [42], "scout");
     expect(result.size).toBe(0);
+    expect(mockedGh).toHaveBeenCalledTimes(1);
   });
 
   it("paginates comments to find voting comment beyond latest 100 comments", async () => {
@@ -309,7 +356,7 @@ describe("fetchVotes()", () => {
         ),
       )
       .mockResolvedValueOnce(
-        makeGraphQLResponse([
+        makeIssueResponse([
           {
             id: "older-vote-comment",
             body: '<!-- hivemoot-metadata: {"version":1,"type":"voting","cycle":1,"createdAt":"2024-01-15T10:00:00.000Z","issueNumber":42} -->',
@@ -324,6 +371,8 @@ describe("fetchVotes()", () => {
     const result = await fetchVotes(repo, [42], "scout");
     expect(result.get(42)?.reaction).toBe("👍");
     expect(mockedGh).toHaveBeenCalledTimes(2);
+    // The outlier continues from the batched page's cursor
+    expect(mockedGh.mock.calls[1][0]).toContain("commentsCursor=older-comments-cursor");
   });
 
   it("paginates reactions when vote is not in first 100 reactions", async () => {
@@ -357,3 +406,28 @@ describe("fetchVotes()", () => {
     expect(mockedGh).toHaveBeenCalledTimes(2);
   });
 });
+
+describe("fetchVotes() with prefetched comments", () => {
+  it("resolves prefetched issues without querying", async () => {
+    const prefetched = new Map([[42, makeCommentsConnection([{
+      body: votingBody(42),
+      createdAt: "2024-01-15T10:00:00Z",
+      reactions: [{ content: "HEART", createdAt: "2024-01-16T12:00:00Z", userLogin: "scout" }],
+    }])]]);
+
+    const result = await fetchVotes(repo, [42], "scout", prefetched);
+
+    expect(result.get(42)?.reaction).toBe("❤️");
+    expect(mockedGh).not.toHaveBeenCalled();
+  });
+
+  it("batches only the issues missing from the prefetched map", async () => {
+    mockedGh.mockResolvedValueOnce(makeBatchResponse([makeCommentsConnection([])]));
+    const prefetched = new Map([[1, makeCommentsConnection([])]]);
+
+    await fetchVotes(repo, [1, 2], "scout", prefetched);
+
+    expect(mockedGh).toHaveBeenCalledTimes(1);
+    expect(mockedGh.mock.calls[0][0]).toContain("n0=2");
+  });
+});
@@ -1,5 +1,6 @@
 import type { RepoRef } from "../config/types.js";
 import { gh } from "./client.js";
+import { sameLogin } from "./login.js";
 
 export interface VoteInfo {
   reaction: string;  // emoji: "👍" | "👎" | "😕" | "👀" | "🎉" | "❤️" | "🚀"
@@ -10,6 +11,11 @@ export type VoteMap = Map<number, VoteInfo>;
 
 const METADATA_RE = /<!--\s*hivemoot-metadata:\s*(\{[\s\S]*?\})\s*-->/;
 
+// Issues per aliased query: 20 × 100 comments × 100 reactions stays well
+// under GraphQL's 500,000-node limit
+const VOTE_BATCH_SIZE = 20;
+const MAX_CONCURRENT_QUERIES = 3;
+
 const REACTION_EMOJI: Record<string, string> = {
   THUMBS_UP: "👍",
   THUMBS_DOWN: "👎",
@@ -21,7 +27,7 @@ const REACTION_EMOJI: Record<string, string> = {
   LAUGH: "😄",
 };
 
-interface GraphQLComment {
+export interface GraphQLComment {
   id: string;
   body: string;
   createdAt: string;
@@ -38,7 +44,8 @@ interface GraphQLComment {
   };
 }
 
-interface IssueCommentsConnection {
+/** A window of an issue's latest comments with their reactions. */
+export interface IssueCommentsConnection {
   pageInfo?: {
     hasPreviousPage?: boolean;
     startCursor?: string | null;
@@ -56,6 +63,12 @@ interface IssueCommentsResponse {
   };
 }
 
+interface BatchedCommentsResponse {
+  data: {
+    repository: Record<string, { comments: IssueCommentsConnection } | null>;
+  };
+}
+
 interface CommentReactionsResponse {
   data: {
     node: {
@@ -74,11 +87,7 @@ interface CommentReactionsResponse {
   };
 }
 
-const ISSUE_COMMENTS_QUERY = `
-query ($owner: String!, $repo: String!, $number: Int!, $commentsCursor: String) {
-  repository(owner: $owner, name: $repo) {
-    issue(number: $number) {
-      comments(last: 100, before: $commentsCursor) {
+const COMMENTS_CONNECTION_FIELDS = `
         pageInfo {
           hasPreviousPage
           startCursor
@@ -98,12 +107,35 @@ query ($owner: String!, $repo: String!, $number: Int!, $commentsCursor: String)
               user { login }
             }
           }
-        }
+        }`;
+
+const ISSUE_COMMENTS_QUERY = `
+query ($owner: String!, $repo: String!, $number: Int!, $commentsCursor: String) {
+  repository(owner: $owner, name: $repo) {
+    issue(number: $number) {
+      comments(last: 100, before: $commentsCursor) {${COMMENTS_CONNECTION_FIELDS}
       }
     }
   }
 }`;
 
+/** One query for the latest comments of many issues, aliased i0, i1, ... */
+function batchedCommentsQuery(count: number): string {
+  const params = Array.from({ length: count }, (_, i) => `$n${i}: Int!`).join(", ");
+  const issues = Array.from({ length: count }, (_, i) => `    i${i}: issue(number: $n${i}) { ...LatestComments }`);
+  return `
+query ($owner: String!, $repo: String!, ${params}) {
+  repository(owner: $owner, name: $repo) {
+${issues.join("\n")}
+  }
+}
+
+fragment LatestComments on Issue {
+  comments(last: 100) {${COMMENTS_CONNECTION_FIELDS}
+  }
+}`;
+}
+
 const COMMENT_REACTIONS_QUERY = `
 query ($commentId: ID!, $reactionsCursor: String) {
   node(id: $commentId) {
@@ -149,7 +181,7 @@ function extractUserVote(
   currentUser: string,
 ): VoteInfo | undefined {
   for (const reaction of reactions) {
-    if (reaction.user?.login === currentUser) {
+    if (sameLogin(reaction.user?.login, currentUser)) {
       const emoji = REACTION_EMOJI[reaction.content] ?? reaction.content;
       return { reaction: emoji, createdAt: reaction.createdAt };
     }
@@ -157,6 +189,50 @@ function extractUserVote(
   return undefined;
 }
 
+/** Like Promise.allSettled over `items`, running at most `limit` tasks at once. */
+async function mapSettled<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: "fulfilled", value: await fn(items[index]) };
+      } catch (reason) {
+        results[index] = { status: "rejected", reason };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/** Latest comments page per issue, in order; undefined where the issue doesn't resolve. */
+async function fetchLatestCommentsBatch(
+  repo: RepoRef,
+  issueNumbers: number[],
+): Promise<Array<IssueCommentsConnection | undefined>> {
+  const args = [
+    "api",
+    "graphql",
+    "-f",
+    `query=${batchedCommentsQuery(issueNumbers.length)}`,
+    "-F",
+    `owner=${repo.owner}`,
+    "-F",
+    `repo=${repo.repo}`,
+  ];
+  issueNumbers.forEach((num, i) => args.push("-F", `n${i}=${num}`));
+
+  const raw = await gh(args);
+  const response: BatchedCommentsResponse = JSON.parse(raw);
+  return issueNumbers.map((_, i) => response.data?.repository?.[`i${i}`]?.comments);
+}
+
 async function fetchIssueCommentsPage(
   repo: RepoRef,
   issueNumber: number,
@@ -216,16 +292,18 @@ async function fetchAdditionalReactions(
   return undefined;
 }
 
+/**
+ * Find the user's vote on the issue's latest voting comment, starting from
+ * `firstPage` when the batched query already fetched the latest comments.
+ */
 async function fetchVoteForIssue(
   repo: RepoRef,
   issueNumber: number,
   currentUser: string,
+  firstPage?: IssueCommentsConnection,
 ): Promise<VoteInfo | undefined> {
-  let commentsCursor: string | null = null;
-  while (true) {
-    const commentsConnection = await fetchIssueCommentsPage(repo, issueNumber, commentsCursor);
-    if (!commentsConnection) return undefined;
-
+  let commentsConnection = firstPage ?? (await fetchIssueCommentsPage(repo, issueNumber, null));
+  while (commentsConnection) {
     const votingComment = findLatestVotingComment(commentsConnection.nodes);
     if (votingComment) {
       const vote = extractUserVote(votingComment.reactions.nodes, currentUser);
@@ -242,13 +320,17 @@ async function fetchVoteForIssue(
     }
 
     if (!commentsConnection.pageInfo?.hasPreviousPage) return undefined;
-    commentsCursor = commentsConnection.pageInfo.startCursor ?? null;
+    const commentsCursor = commentsConnection.pageInfo.startCursor ?? null;
     if (!commentsCursor) return undefined;
+    commentsConnection = await fetchIssueCommentsPage(repo, issueNumber, commentsCursor);
   }
+  return undefined;
 }
 
 /**
  * Fetch the current user's vote reactions on voting-phase issues.
+ * Issues are queried in aliased batches with bounded concurrency, except
+ * those whose latest comments were `prefetched` (e.g. by the buzz snapshot).
  * Returns a map from issue number to vote info.
  * Returns empty map when inputs are empty — avoids unnecessary API calls.
  */
@@ -256,13 +338,40 @@ export async function fetchVotes(
   repo: RepoRef,
   issueNumbers: number[],
   currentUser: string,
+  prefetched?: Map<number, IssueCommentsConnection>,
 ): Promise<VoteMap> {
   const map: VoteMap = new Map();
   if (issueNumbers.length === 0 || !currentUser) return map;
 
-  const results = await Promise.allSettled(
-    issueNumbers.map((num) => fetchVoteForIssue(repo, num, currentUser)),
+  // Latest comments for many issues per query; null marks an issue that
+  // resolved to nothing, a missing entry one whose batch failed
+  const firstPages = new Map<number, IssueCommentsConnection | null>();
+  const toQuery: number[] = [];
+  for (const num of issueNumbers) {
+    const page = prefetched?.get(num);
+    if (page) firstPages.set(num, page);
+    else toQuery.push(num);
+  }
+  const batches: number[][] = [];
+  for (let i = 0; i < toQuery.length; i += VOTE_BATCH_SIZE) {
+    batches.push(toQuery.slice(i, i + VOTE_BATCH_SIZE));
+  }
+  const batchResults = await mapSettled(batches, MAX_CONCURRENT_QUERIES, (batch) =>
+    fetchLatestCommentsBatch(repo, batch),
   );
+  batches.forEach((batch, i) => {
+    const result = batchResults[i];
+    if (result.status !== "fulfilled") return;
+    batch.forEach((num, j) => firstPages.set(num, result.value[j] ?? null));
+  });
+
+  // Most issues resolve from their batched page; only outliers (older voting
+  // comments, long reaction lists, failed batches) paginate on their own
+  const results = await mapSettled(issueNumbers, MAX_CONCURRENT_QUERIES, async (num) => {
+    const firstPage = firstPages.get(num);
+    if (firstPage === null) return undefined;
+    return fetchVoteForIssue(repo, num, currentUser, firstPage);
+  });
 
   for (let i = 0; i < issueNumbers.length; i++) {
     const result = results[i];
@@ -1,17 +1,58 @@
 import { createRequire } from "node:module";
-import { Command, InvalidArgumentError } from "commander";
+import { dirname, join } from "node:path";
+import { Command, InvalidArgumentError, Option } from "commander";
 import { buzzCommand } from "./commands/buzz.js";
 import { rolesCommand } from "./commands/roles.js";
 import { roleCommand } from "./commands/role.js";
 import { initCommand } from "./commands/init.js";
+import { PRESETS } from "./config/presets.js";
 import { watchCommand } from "./commands/watch.js";
 import { ackCommand } from "./commands/ack.js";
-import { CliError } from "./config/types.js";
-import { setGhToken } from "./github/client.js";
+import { doctorCommand } from "./commands/doctor.js";
+import { configMigrateCommand, configValidateCommand } from "./commands/config.js";
+import { schemaCommand } from "./commands/schema.js";
+import { CliError, type RepoRef } from "./config/types.js";
+import {
+  configureRateLimits,
+  configureRetries,
+  getGhHost,
+  recordGhTraffic,
+  replayGhTraffic,
+  setGhAppAuth,
+  setGhHost,
+  setGhLogin,
+  setGhToken,
+  setGhTransport,
+  setResponseCache,
+  setSnapshotStore,
+} from "./github/client.js";
+import { createResponseCache, defaultCacheDir } from "./github/cache.js";
+import { createSnapshotStore } from "./github/store.js";
+import { createInstallationTokenProvider, readAppPrivateKey, type AppCredentials } from "./github/app.js";
+import { defaultCredentialsPath, loadAgentCredentials } from "./config/credentials.js";
+import { detectRepoFromGit } from "./github/http.js";
+import { resolveRepo } from "./github/repo.js";
+import { TRANSPORT_NAMES, type TransportName } from "./github/transport.js";
 
 const require = createRequire(import.meta.url);
 const { version } = require("../package.json") as { version: string };
 
+function parseSeconds(value: string): number {
+  const n = parseInt(value, 10);
+  if (isNaN(n) || n < 0) {
+    throw new InvalidArgumentError("Must be a non-negative integer.");
+  }
+  return n;
+}
+
+function parseHostname(value: string): string {
+  const host = value.replace(/^https?:\/\//, "").replace(/\/+$/, "").toLowerCase();
+  if (!/^[a-z0-9.-]+(:\d+)?$/.test(host)) {
+    throw new InvalidArgumentError("Must be a hostname such as github.example.com.");
+  }
+  return host;
+}
+
 function parseLimit(value: string): number {
   const n = parseInt(value, 10);
   if (isNaN(n) || n <= 0) {
@@ -20,29 +61,147 @@ function parseLimit(value: string): number {
   return n;
 }
 
+/**
+ * The repo whose app installation to use. Must not go through `gh()`: the
+ * request would itself wait on the installation token being minted.
+ */
+async function installationRepo(repoFlag: string | undefined): Promise<RepoRef> {
+  if (repoFlag) return resolveRepo(repoFlag);
+  try {
+    const { owner, name } = await detectRepoFromGit(getGhHost());
+    return { owner, repo: name };
+  } catch {
+    throw new CliError(
+      "Cannot find the GitHub App installation outside a git repository. Use --repo OWNER/REPO or --app-installation-id",
+      "NOT_GIT_REPO",
+      2,
+    );
+  }
+}
+
+function useGhApp(credentials: AppCredentials, repoFlag: string | undefined, cacheDir: string | undefined): void {
+  setGhAppAuth(createInstallationTokenProvider(credentials, {
+    host: getGhHost(),
+    resolveRepo: () => installationRepo(repoFlag),
+    cacheDir: cacheDir && join(cacheDir, "app-tokens"),
+  }));
+}
+
 const program = new Command();
 
 program
   .name("hivemoot")
   .description("CLI for Hivemoot agents — role instructions and repo work summaries")
   .version(version)
-  .option("--github-token <token>", "GitHub personal access token (or set GITHUB_TOKEN env var)");
+  .option("--github-token <token>", "GitHub personal access token (or set GITHUB_TOKEN env var)")
+  .addOption(
+    new Option("--app-id <id>", "Authenticate as a GitHub App with this app ID")
+      .env("HIVEMOOT_APP_ID")
+      .conflicts("githubToken"),
+  )
+  .addOption(
+    new Option("--app-private-key <path>", "GitHub App private key: path to a .pem file, or the PEM itself")
+      .env("HIVEMOOT_APP_PRIVATE_KEY"),
+  )
+  .addOption(
+    new Option("--app-installation-id <id>", "GitHub App installation ID (default: look up from the target repo)")
+      .env("HIVEMOOT_APP_INSTALLATION_ID"),
+  )
+  .addOption(
+    new Option("--as <agent>", "Act as a named agent from the credentials file")
+      .env("HIVEMOOT_AGENT")
+      .conflicts(["githubToken", "appId"]),
+  )
+  .addOption(
+    new Option("--credentials-file <path>", "Agent credentials file (default: $XDG_CONFIG_HOME/hivemoot/credentials.yml)")
+      .env("HIVEMOOT_CREDENTIALS"),
+  )
+  .addOption(
+    new Option("--hostname <host>", "GitHub host, e.g. a GitHub Enterprise Server hostname (default: github.com)")
+      .argParser(parseHostname)
+      .env("GH_HOST"),
+  )
+  .addOption(
+    new Option("--transport <name>", "GitHub backend: gh (CLI subprocess) or http (native, needs a token)")
+      .choices(TRANSPORT_NAMES)
+      .default("gh")
+      .env("HIVEMOOT_TRANSPORT"),
+  )
+  .option("--no-cache", "Disable the on-disk response cache, local repo snapshots and GitHub App token reuse")
+  .option("--cache-dir <path>", "Cache and snapshot directory (default: $XDG_CACHE_HOME/hivemoot)")
+  .option("--rate-limit-wait <seconds>", "Max seconds to hold requests for a rate-limit reset; longer waits fail with the reset time. An exhausted primary limit resets up to an hour out, so use 3600 to always wait for it (0 = fail fast)", parseSeconds, 60)
+  .option(
+    "--retries <n>",
+    "Retries per read after a transient GitHub failure. Writes retry once, and only when GitHub never received them (0 = no retries for reads or writes)",
+    parseSeconds,
+    3,
+  )
+  .option("--retry-budget <n>", "Max retries across the whole run, reads and writes together (0 = no retries)", parseSeconds, 20)
+  .addOption(new Option("--record <dir>", "Record all GitHub requests and responses as fixtures in <dir>").conflicts("replay"))
+  .option("--replay <dir>", "Serve GitHub responses from fixtures recorded with --record (offline)");
 
-program.hook("preAction", () => {
-  const token = (program.opts().githubToken ?? process.env.GITHUB_TOKEN) as string | undefined;
+program.hook("preAction", async (_program, actionCommand) => {
+  const opts = program.opts();
+  const token = (opts.githubToken ?? process.env.GITHUB_TOKEN) as string | undefined;
   if (token) {
     setGhToken(token);
   }
+  if (opts.hostname) {
+    setGhHost(opts.hostname as string);
+  }
+  const repoFlag = actionCommand.opts().repo as string | undefined;
+  const cacheDir = opts.cache ? (opts.cacheDir as string | undefined) ?? defaultCacheDir() : undefined;
+  if (opts.as) {
+    const path = (opts.credentialsFile as string | undefined) ?? defaultCredentialsPath();
+    const agent = await loadAgentCredentials(path, opts.as as string);
+    setGhLogin(agent.login);
+    if (agent.token) {
+      setGhToken(agent.token);
+    } else if (agent.app && !opts.replay) {
+      useGhApp({ ...agent.app, privateKey: await readAppPrivateKey(agent.app.privateKey, dirname(path)) }, repoFlag, cacheDir);
+    }
+  }
+  // Replayed runs never authenticate; fixtures already hold the responses
+  if (opts.appId && !opts.replay) {
+    if (!opts.appPrivateKey) {
+      throw new CliError("--app-id requires --app-private-key (or HIVEMOOT_APP_PRIVATE_KEY)", "GH_NOT_AUTHENTICATED", 2);
+    }
+    useGhApp({
+      appId: opts.appId as string,
+      privateKey: await readAppPrivateKey(opts.appPrivateKey as string),
+      installationId: opts.appInstallationId as string | undefined,
+    }, repoFlag, cacheDir);
+  }
+  setGhTransport(opts.transport as TransportName);
+  configureRateLimits({ maxWaitMs: (opts.rateLimitWait as number) * 1000 });
+  configureRetries({ maxRetries: opts.retries as number, budget: opts.retryBudget as number });
+  // Replayed runs must not read or write the live response cache
+  if (cacheDir && !opts.replay) {
+    setResponseCache(createResponseCache(cacheDir));
+    // Recorded fixtures must capture the full snapshot queries, not a
+    // sync that depends on what happens to be on disk
+    if (!opts.record) setSnapshotStore(createSnapshotStore(cacheDir));
+  }
+  if (opts.record) {
+    recordGhTraffic(opts.record as string);
+  }
+  if (opts.replay) {
+    replayGhTraffic(opts.replay as string);
+  }
 });
 
 program
   .command("buzz")
-  .description("Get role instructions and repo work summary (omit --role for summary only)")
-  .option("--role <role>", "Role to assume (e.g. engineer, tech_lead)")
+  .description("Get role instructions and repo work summary (summary only without a role)")
+  .option("--role <role>", "Role to assume (e.g. engineer, tech_lead); defaults to your role in team.members")
   .option("--json", "Output as JSON")
   .option("--limit <n>", "Max items per section", parseLimit)
-  .option("--fetch-limit <n>", "Max issues/PRs to fetch from GitHub (default: 200)", parseLimit)
+  .option("--fetch-limit <n>", "Max issues/PRs to fetch from GitHub when not using the local snapshot (default: 200)", parseLimit)
   .option("--repo <owner/repo>", "Target repository (default: detect from git)")
+  .option("--config <path>", "Read team config from a local file instead of the repo")
+  .addOption(
+    new Option("--config-ref <ref>", "Read team config from this branch, tag or SHA of the repo").conflicts("config"),
+  )
   .action(buzzCommand);
 
 program
@@ -50,6 +209,10 @@ program
   .description("List available roles from team config")
   .option("--json", "Output as JSON")
   .option("--repo <owner/repo>", "Target repository (default: detect from git)")
+  .option("--config <path>", "Read team config from a local file instead of the repo")
+  .addOption(
+    new Option("--config-ref <ref>", "Read team config from this branch, tag or SHA of the repo").conflicts("config"),
+  )
   .action(rolesCommand);
 
 program
@@ -58,11 +221,51 @@ program
   .argument("<role>", "Role to resolve (e.g. engineer, tech_lead)")
   .option("--json", "Output as JSON")
   .option("--repo <owner/repo>", "Target repository (default: detect from git)")
+  .option("--config <path>", "Read team config from a local file instead of the repo")
+  .addOption(
+    new Option("--config-ref <ref>", "Read team config from this branch, tag or SHA of the repo").conflicts("config"),
+  )
   .action(roleCommand);
 
+program
+  .command("doctor")
+  .description("Check gh, token scopes, repo access, config, labels, and rate limits")
+  .option("--json", "Output as JSON")
+  .option("--repo <owner/repo>", "Target repository (default: detect from git)")
+  .action(doctorCommand);
+
+const config = program
+  .command("config")
+  .description("Work with a local .github/hivemoot.yml");
+
+config
+  .command("validate")
+  .description("Check a local config file and report every problem with its line and column")
+  .argument("[path]", "Config file to check (default: .github/hivemoot.yml)")
+  .option("--json", "Output as JSON")
+  .action(configValidateCommand);
+
+config
+  .command("migrate")
+  .description("Upgrade a local config file to the current version, keeping comments, and print the diff")
+  .argument("[path]", "Config file to migrate (default: .github/hivemoot.yml)")
+  .option("--dry-run", "Print the diff without writing the file")
+  .action(configMigrateCommand);
+
+program
+  .command("schema")
+  .description("Print a JSON Schema for .github/hivemoot.yml (for editors and YAML language servers)")
+  .action(schemaCommand);
+
 program
   .command("init")
-  .description("Print a sample .github/hivemoot.yml template")
+  .description("Print a starter .github/hivemoot.yml, or write one with --interactive or --preset")
+  .argument("[path]", "Config file to write (default: .github/hivemoot.yml)")
+  .option("--interactive", "Ask for the team name, roles, governance settings and labels, then write the file")
+  .addOption(
+    new Option("--preset <name>", "Write the file from a role preset without prompting").choices(Object.keys(PRESETS)),
+  )
+  .option("--force", "Overwrite an existing config file")
   .action(initCommand);
 
 program
@@ -92,7 +295,7 @@ try {
     // Check if parent command requested --json output
     const isJson = process.argv.includes("--json");
     if (isJson) {
-      console.log(JSON.stringify({ error: { code: err.code, message: err.message } }, null, 2));
+      console.log(JSON.stringify({ error: err.toJSON() }, null, 2));
     } else {
       console.error(`Error: ${err.message}`);
     }
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { formatBuzz, formatStatus, formatRole, formatRoles } from "./formatter.js";
+import { formatBuzz, formatConfigMigration, formatConfigValidation, formatDoctor, formatStatus, formatRole, formatRoles } from "./formatter.js";
 import type { RepoSummary, RoleConfig, TeamConfig } from "../config/types.js";
 
 const summary: RepoSummary = {
@@ -48,6 +48,17 @@ describe("formatBuzz()", () => {
     expect(output).toContain("You are a senior engineer.");
   });
 
+  it("renders template variables in instructions and onboarding", () => {
+    const templated = { ...role, instructions: "You are the {{role}} on {{repo}}." };
+    const output = formatBuzz("engineer", templated, summary, undefined, "Hello {{user}}.", {
+      repo: "hivemoot/colony",
+      role: "engineer",
+      user: "alice",
+    });
+    expect(output).toContain("You are the engineer on hivemoot/colony.");
+    expect(output).toContain("Hello alice.");
+  });
+
   it("includes repo and logged-in user in header", () => {
     const output = formatBuzz("engineer", role, summary);
     expect(output).toContain("hivemoot/colony");
@@ -189,6 +200,24 @@ describe("formatStatus()", () => {
     expect(output).toContain("assigned:");
   });
 
+  it("marks implement items that reached the PR limit", () => {
+    const limited: RepoSummary = {
+      ...summary,
+      implement: [{ number: 70, title: "Build feature", tags: [], author: "bob", comments: 0, age: "1 day", competingPRs: 3, prLimitReached: true }],
+    };
+    const output = formatStatus(limited);
+    expect(output).toContain("pr-limit-reached");
+  });
+
+  it("marks stale PRs", () => {
+    const stale: RepoSummary = {
+      ...summary,
+      reviewPRs: [{ ...summary.reviewPRs[0], stale: true }],
+    };
+    expect(formatStatus(stale)).toContain("stale");
+    expect(formatStatus(summary)).not.toContain("stale");
+  });
+
   it("renders UNCLASSIFIED section when present", () => {
     const withUnclassified: RepoSummary = {
       ...summary,
@@ -590,6 +619,16 @@ describe("formatRole()", () => {
     expect(onboardingIdx).toBeLessThan(roleIdx);
   });
 
+  it("renders template variables in instructions and onboarding", () => {
+    const templated = { ...role, instructions: "Stale after {{governance.pr.staleDays}} days." };
+    const output = formatRole("engineer", templated, "hivemoot/colony", "Team {{team.name}}", {
+      "governance.pr.staleDays": 3,
+      "team.name": "colony",
+    });
+    expect(output).toContain("Stale after 3 days.");
+    expect(output).toContain("Team colony");
+  });
+
   it("omits onboarding section when not provided", () => {
     const output = formatRole("engineer", role, "hivemoot/colony");
     expect(output).not.toContain("ONBOARDING:");
@@ -611,4 +650,129 @@ describe("formatRoles()", () => {
     const output = formatRoles(teamConfig, "hivemoot/colony");
     expect(output).toContain("colony");
   });
+
+  it("lists the members holding each role", () => {
+    const output = formatRoles(
+      { ...teamConfig, members: { alice: ["engineer"], bob: ["engineer", "tech_lead"] } },
+      "hivemoot/colony",
+    );
+    expect(output).toContain("members: alice, bob");
+    expect(output).toContain("members: bob");
+  });
+
+  it("omits the members line for roles nobody holds", () => {
+    const output = formatRoles({ ...teamConfig, members: { alice: ["engineer"] } }, "hivemoot/colony");
+    expect(output.match(/members:/g)).toHaveLength(1);
+  });
+});
+
+describe("formatDoctor()", () => {
+  it("lists each check with hints for warnings and failures", () => {
+    const output = formatDoctor({
+      repo: "hivemoot/colony",
+      ok: false,
+      checks: [
+        { name: "gh", status: "pass", detail: "gh version 2.60.0", hint: "unused" },
+        { name: "labels", status: "warn", detail: "missing 1 of 11 governance labels", hint: "Install the bot" },
+        { name: "config", status: "fail", detail: "No .github/hivemoot.yml found", hint: "Run hivemoot init" },
+      ],
+    });
+
+    expect(output).toContain("DOCTOR — hivemoot/colony");
+    expect(output).toContain("gh      gh version 2.60.0");
+    expect(output).toContain("→ Install the bot");
+    expect(output).toContain("→ Run hivemoot init");
+    expect(output).not.toContain("unused");
+    expect(output).toContain("1 check failed.");
+  });
+
+  it("summarizes warnings when nothing failed", () => {
+    const output = formatDoctor({
+      ok: true,
+      checks: [{ name: "labels", status: "warn", detail: "missing labels" }],
+    });
+
+    expect(output).toContain("No failures, 1 warning.");
+  });
+});
+
+describe("formatConfigValidation()", () => {
+  it("confirms a valid file", () => {
+    const output = formatConfigValidation({ path: ".github/hivemoot.yml", valid: true, issues: [] });
+
+    expect(output).toContain(".github/hivemoot.yml is valid.");
+  });
+
+  it("lists each problem with its aligned location", () => {
+    const output = formatConfigValidation({
+      path: ".github/hivemoot.yml",
+      valid: false,
+      issues: [
+        { path: "governance.pr.staleDays", message: "governance.pr.staleDays must be a positive integer (got 0)", line: 3, column: 5 },
+        { path: "team.roles.engineer.description", message: 'role "engineer" is missing a description', line: 12, column: 7 },
+      ],
+    });
+
+    expect(output).toContain("3:5   governance.pr.staleDays must be a positive integer (got 0)");
+    expect(output).toContain('12:7  role "engineer" is missing a description');
+    expect(output).toContain("2 problems found.");
+  });
+});
+
+describe("formatConfigMigration()", () => {
+  const before = ["# header", "a: 1", "b: 2", "c: 3", "d: 4", "e: 5", "f: 6", "g: 7", "h: 8", "i: 9", "j: 10", "old: 11", ""].join("\n");
+  const after = before.replace("a: 1", "version: 1\na: 1").replace("old: 11", "new: 11");
+
+  it("prints a unified diff with one hunk per distant change", () => {
+    const output = formatConfigMigration({
+      path: "hivemoot.yml",
+      before,
+      after,
+      changes: ["version: 1 added", "old → new"],
+      skipped: [],
+      written: true,
+    });
+
+    expect(output).toContain("--- hivemoot.yml\n+++ hivemoot.yml");
+    expect(output).toContain("@@ -1,4 +1,5 @@\n # header\n+version: 1\n a: 1\n b: 2\n c: 3");
+    expect(output).toContain("@@ -9,5 +10,5 @@\n h: 8\n i: 9\n j: 10\n-old: 11\n+new: 11\n ");
+    expect(output).toContain("old → new");
+    expect(output).toContain("Updated hivemoot.yml.");
+  });
+
+  it("notes a dry run and lists skipped keys", () => {
+    const output = formatConfigMigration({
+      path: "hivemoot.yml",
+      before,
+      after,
+      changes: ["version: 1 added"],
+      skipped: ["governance.pr.staleAfterDays: governance.pr.staleDays is already set"],
+      written: false,
+    });
+
+    expect(output).toContain("governance.pr.staleAfterDays: governance.pr.staleDays is already set");
+    expect(output).toContain("Dry run — hivemoot.yml was not changed.");
+  });
+
+  it("says when there is nothing to migrate", () => {
+    const output = formatConfigMigration({ path: "hivemoot.yml", before, after: before, changes: [], skipped: [], written: false });
+
+    expect(output).toContain("hivemoot.yml is already on the current config version.");
+    expect(output).not.toContain("@@");
+  });
+
+  it("does not call a config current when changes were skipped", () => {
+    const output = formatConfigMigration({
+      path: "hivemoot.yml",
+      before,
+      after: before,
+      changes: [],
+      skipped: ["version: add version: 1 to the flow mapping by hand"],
+      written: false,
+    });
+
+    expect(output).not.toContain("already on the current config version");
+    expect(output).toContain("hivemoot.yml needs changes that could not be made automatically:");
+    expect(output).toContain("version: add version: 1 to the flow mapping by hand");
+  });
 });
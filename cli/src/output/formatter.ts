@@ -1,5 +1,8 @@
 import chalk from "chalk";
-import type { NotificationRef, RepoSummary, RoleConfig, SummaryItem, TeamConfig } from "../config/types.js";
+import type { CheckStatus, ConfigMigrationReport, ConfigValidationReport, DoctorReport, NotificationRef, RepoSummary, RoleConfig, SummaryItem, TeamConfig } from "../config/types.js";
+import { roleMembers } from "../config/team.js";
+import { renderTemplate, type TemplateVars } from "../config/template.js";
+import { sameLogin } from "../github/login.js";
 
 const DIVIDER_WIDTH = 50;
 
@@ -22,7 +25,7 @@ function kv(key: string, value: string | number): string {
 }
 
 function formatMeta(item: SummaryItem, sectionType: SectionType, currentUser: string): string {
-  const isYou = item.author === currentUser;
+  const isYou = sameLogin(item.author, currentUser);
   const authorVal = isYou ? chalk.green(`${item.author} (you)`) : chalk.dim(item.author);
   const parts: string[] = [`by: ${authorVal}`];
 
@@ -65,6 +68,9 @@ function formatMeta(item: SummaryItem, sectionType: SectionType, currentUser: st
     if (item.competingPRs !== undefined) {
       parts.push(kv("competing", item.competingPRs));
     }
+    if (item.prLimitReached) {
+      parts.push(chalk.yellow("pr-limit-reached"));
+    }
   } else {
     // PR sections: reviewPRs, draftPRs, addressFeedback, driveImplementation
     if (item.status !== undefined) {
@@ -93,6 +99,9 @@ function formatMeta(item: SummaryItem, sectionType: SectionType, currentUser: st
     if (item.updated) parts.push(kv("updated", item.updated));
     parts.push(kv("comments", item.comments));
     parts.push(kv("created", item.age));
+    if (item.stale) {
+      parts.push(chalk.yellow("stale"));
+    }
   }
 
   if (item.unread && item.unreadReason) {
@@ -107,7 +116,7 @@ function formatMeta(item: SummaryItem, sectionType: SectionType, currentUser: st
 }
 
 function formatItem(item: SummaryItem, currentUser: string, sectionType: SectionType): string {
-  const isYou = item.author === currentUser;
+  const isYou = sameLogin(item.author, currentUser);
   const prefix = isYou ? chalk.green("★") : " ";
   const num = chalk.cyan(`#${item.number}`);
   const unreadDot = item.unread ? " " + chalk.yellow("●") : "";
@@ -199,18 +208,19 @@ export function formatBuzz(
   summary: RepoSummary,
   limit?: number,
   onboarding?: string,
+  vars: TemplateVars = {},
 ): string {
   const lines: string[] = [];
 
   if (onboarding) {
-    lines.push(chalk.bold("ONBOARDING:"), onboarding.trimEnd(), "");
+    lines.push(chalk.bold("ONBOARDING:"), renderTemplate(onboarding, vars).trimEnd(), "");
   }
 
   lines.push(
     chalk.bold(`ROLE: ${roleName}`) + ` — ${role.description}`,
     "",
     chalk.bold("INSTRUCTIONS:"),
-    role.instructions.trimEnd(),
+    renderTemplate(role.instructions, vars).trimEnd(),
     "",
     summary.currentUser
       ? `You are working on ${chalk.bold(`${summary.repo.owner}/${summary.repo.repo}`)}, logged in as ${chalk.green(summary.currentUser)}`
@@ -234,11 +244,17 @@ export function formatStatus(summary: RepoSummary, limit?: number): string {
   return lines.join("\n");
 }
 
-export function formatRole(roleName: string, role: RoleConfig, repoFullName: string, onboarding?: string): string {
+export function formatRole(
+  roleName: string,
+  role: RoleConfig,
+  repoFullName: string,
+  onboarding?: string,
+  vars: TemplateVars = {},
+): string {
   const lines: string[] = [];
 
   if (onboarding) {
-    lines.push(chalk.bold("ONBOARDING:"), onboarding.trimEnd(), "");
+    lines.push(chalk.bold("ONBOARDING:"), renderTemplate(onboarding, vars).trimEnd(), "");
   }
 
   lines.push(
@@ -248,7 +264,7 @@ export function formatRole(roleName: string, role: RoleConfig, repoFullName: str
     `Description: ${role.description}`,
     "",
     "Instructions:",
-    role.instructions.trimEnd(),
+    renderTemplate(role.instructions, vars).trimEnd(),
   );
 
   return lines.join("\n");
@@ -268,7 +284,142 @@ export function formatRoles(teamConfig: TeamConfig, repoFullName: string): strin
     const role = teamConfig.roles[slug];
     const padded = slug.padEnd(maxLen + 2);
     lines.push(`  ${chalk.cyan(padded)}${role.description}`);
+    const members = roleMembers(teamConfig, slug);
+    if (members.length > 0) {
+      lines.push(`  ${" ".repeat(maxLen + 2)}${chalk.dim(`members: ${members.join(", ")}`)}`);
+    }
   }
 
   return lines.join("\n");
 }
+
+const CHECK_MARKS: Record<CheckStatus, string> = {
+  pass: chalk.green("✓"),
+  warn: chalk.yellow("!"),
+  fail: chalk.red("✗"),
+  skip: chalk.dim("-"),
+};
+
+export function formatDoctor(report: DoctorReport): string {
+  const lines = [chalk.bold(`DOCTOR${report.repo ? ` — ${report.repo}` : ""}`), ""];
+
+  const maxLen = Math.max(...report.checks.map((c) => c.name.length));
+  for (const check of report.checks) {
+    lines.push(`  ${CHECK_MARKS[check.status]} ${check.name.padEnd(maxLen + 2)}${check.detail}`);
+    if (check.hint && check.status !== "pass") {
+      lines.push(`    ${" ".repeat(maxLen + 2)}${chalk.dim(`→ ${check.hint}`)}`);
+    }
+  }
+
+  const failures = report.checks.filter((c) => c.status === "fail").length;
+  const warnings = report.checks.filter((c) => c.status === "warn").length;
+  const plural = (n: number, word: string): string => `${n} ${word}${n === 1 ? "" : "s"}`;
+  if (failures > 0) lines.push("", chalk.red(`${plural(failures, "check")} failed.`));
+  else if (warnings > 0) lines.push("", chalk.yellow(`No failures, ${plural(warnings, "warning")}.`));
+  else lines.push("", chalk.green("All checks passed."));
+  return lines.join("\n");
+}
+
+export function formatConfigValidation(report: ConfigValidationReport): string {
+  if (report.valid) return `${CHECK_MARKS.pass} ${report.path} is valid.`;
+
+  const lines = [chalk.bold(report.path), ""];
+  const locations = report.issues.map((issue) => (issue.line ? `${issue.line}:${issue.column}` : ""));
+  const maxLen = Math.max(...locations.map((l) => l.length));
+  report.issues.forEach((issue, i) => {
+    lines.push(`  ${CHECK_MARKS.fail} ${chalk.dim(locations[i].padEnd(maxLen + 2))}${issue.message}`);
+  });
+
+  const count = report.issues.length;
+  lines.push("", chalk.red(`${count} problem${count === 1 ? "" : "s"} found.`));
+  return lines.join("\n");
+}
+
+const DIFF_CONTEXT = 3;
+
+/** Line-by-line edit script between two texts (longest common subsequence). */
+function diffLines(before: string[], after: string[]): Array<{ op: " " | "-" | "+"; line: string }> {
+  const common = before.map(() => new Array<number>(after.length + 1).fill(0));
+  common.push(new Array<number>(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      common[i][j] = before[i] === after[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const script: Array<{ op: " " | "-" | "+"; line: string }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      script.push({ op: " ", line: before[i++] });
+      j++;
+    } else if (i < before.length && (j === after.length || common[i + 1][j] >= common[i][j + 1])) {
+      script.push({ op: "-", line: before[i++] });
+    } else {
+      script.push({ op: "+", line: after[j++] });
+    }
+  }
+  return script;
+}
+
+/** A unified diff of `before` → `after`, with a few lines of context around each change. */
+function formatDiff(path: string, before: string, after: string): string[] {
+  const script = diffLines(before.split("\n"), after.split("\n"));
+  const lines = [chalk.bold(`--- ${path}`), chalk.bold(`+++ ${path}`)];
+
+  let k = 0;
+  while (k < script.length) {
+    if (script[k].op === " ") {
+      k++;
+      continue;
+    }
+    // One hunk covers changes separated by at most 2 × context unchanged lines
+    const start = Math.max(0, k - DIFF_CONTEXT);
+    let end = k;
+    for (;;) {
+      while (end < script.length && script[end].op !== " ") end++;
+      let gap = end;
+      while (gap < script.length && script[gap].op === " ") gap++;
+      if (gap === script.length || gap - end > 2 * DIFF_CONTEXT) break;
+      end = gap;
+    }
+    const stop = Math.min(script.length, end + DIFF_CONTEXT);
+
+    const hunk = script.slice(start, stop);
+    const oldStart = script.slice(0, start).filter((s) => s.op !== "+").length + 1;
+    const newStart = script.slice(0, start).filter((s) => s.op !== "-").length + 1;
+    const oldCount = hunk.filter((s) => s.op !== "+").length;
+    const newCount = hunk.filter((s) => s.op !== "-").length;
+    lines.push(chalk.cyan(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`));
+    for (const { op, line } of hunk) {
+      const text = `${op}${line}`;
+      lines.push(op === "-" ? chalk.red(text) : op === "+" ? chalk.green(text) : text);
+    }
+    k = stop;
+  }
+  return lines;
+}
+
+export function formatConfigMigration(report: ConfigMigrationReport): string {
+  const lines: string[] = [];
+  if (report.changes.length === 0 && report.skipped.length === 0) {
+    lines.push(`${CHECK_MARKS.pass} ${report.path} is already on the current config version.`);
+  } else if (report.changes.length === 0) {
+    lines.push(`${CHECK_MARKS.warn} ${report.path} needs changes that could not be made automatically:`);
+  } else {
+    lines.push(...formatDiff(report.path, report.before, report.after), "");
+    for (const change of report.changes) lines.push(`  ${CHECK_MARKS.pass} ${change}`);
+  }
+  for (const reason of report.skipped) lines.push(`  ${CHECK_MARKS.warn} ${reason}`);
+
+  if (report.changes.length > 0) {
+    lines.push(
+      "",
+      report.written
+        ? `Updated ${report.path}.`
+        : chalk.dim(`Dry run — ${report.path} was not changed.`),
+    );
+  }
+  return lines.join("\n");
+}
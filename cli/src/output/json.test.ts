@@ -48,6 +48,16 @@ describe("jsonBuzz()", () => {
     expect(result.onboarding).toBe("Welcome to the project.");
   });
 
+  it("renders template variables in instructions and onboarding", () => {
+    const templated = { ...role, instructions: "You are {{user}}." };
+    const result = JSON.parse(jsonBuzz("engineer", templated, summary, "Welcome to {{repo}}.", {
+      user: "alice",
+      repo: "hivemoot/colony",
+    }));
+    expect(result.role.instructions).toBe("You are alice.");
+    expect(result.onboarding).toBe("Welcome to hivemoot/colony.");
+  });
+
   it("omits onboarding key when not provided", () => {
     const result = JSON.parse(jsonBuzz("engineer", role, summary));
     expect(result).not.toHaveProperty("onboarding");
@@ -234,6 +244,26 @@ describe("jsonRoles()", () => {
     expect(result.roles[0].description).toBe("Implements features");
     expect(result.roles[1].name).toBe("tech_lead");
   });
+
+  it("shows whether each role came from the org defaults or the repo", () => {
+    const result = JSON.parse(jsonRoles({
+      roles: {
+        engineer: { ...teamConfig.roles.engineer, source: "org" },
+        tech_lead: teamConfig.roles.tech_lead,
+      },
+    }));
+    expect(result.roles.map((r: { source: string }) => r.source)).toEqual(["org", "repo"]);
+  });
+
+  it("lists each role's members when team.members is set", () => {
+    const result = JSON.parse(jsonRoles({ ...teamConfig, members: { alice: ["tech_lead"] } }));
+    expect(result.roles.map((r: { members: string[] }) => r.members)).toEqual([[], ["alice"]]);
+  });
+
+  it("omits members when team.members is not set", () => {
+    const result = JSON.parse(jsonRoles(teamConfig));
+    expect(result.roles[0]).not.toHaveProperty("members");
+  });
 });
 
 describe("jsonRole()", () => {
@@ -248,6 +278,11 @@ describe("jsonRole()", () => {
     });
   });
 
+  it("renders template variables in instructions", () => {
+    const result = JSON.parse(jsonRole("engineer", { ...role, instructions: "Role: {{role}}" }, undefined, { role: "engineer" }));
+    expect(result.role.instructions).toBe("Role: engineer");
+  });
+
   it("includes onboarding when provided", () => {
     const result = JSON.parse(jsonRole("engineer", role, "Read CONTRIBUTING.md first."));
     expect(result.onboarding).toBe("Read CONTRIBUTING.md first.");
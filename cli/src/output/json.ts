@@ -1,18 +1,21 @@
-import type { RepoSummary, RoleConfig, TeamConfig } from "../config/types.js";
+import type { ConfigValidationReport, DoctorReport, RepoSummary, RoleConfig, TeamConfig } from "../config/types.js";
+import { roleMembers } from "../config/team.js";
+import { renderTemplate, type TemplateVars } from "../config/template.js";
 
 export function jsonBuzz(
   roleName: string,
   role: RoleConfig,
   summary: RepoSummary,
   onboarding?: string,
+  vars: TemplateVars = {},
 ): string {
   return JSON.stringify(
     {
-      ...(onboarding !== undefined && { onboarding }),
+      ...(onboarding !== undefined && { onboarding: renderTemplate(onboarding, vars) }),
       role: {
         name: roleName,
         description: role.description,
-        instructions: role.instructions,
+        instructions: renderTemplate(role.instructions, vars),
       },
       summary: {
         notifications: summary.notifications,
@@ -63,22 +66,32 @@ export function jsonRoles(teamConfig: TeamConfig): string {
   const roles = Object.entries(teamConfig.roles).map(([slug, role]) => ({
     name: slug,
     description: role.description,
+    source: role.source ?? "repo",
+    ...(teamConfig.members && { members: roleMembers(teamConfig, slug) }),
   }));
 
   return JSON.stringify({ roles }, null, 2);
 }
 
-export function jsonRole(roleName: string, role: RoleConfig, onboarding?: string): string {
+export function jsonRole(roleName: string, role: RoleConfig, onboarding?: string, vars: TemplateVars = {}): string {
   return JSON.stringify(
     {
-      ...(onboarding !== undefined && { onboarding }),
+      ...(onboarding !== undefined && { onboarding: renderTemplate(onboarding, vars) }),
       role: {
         name: roleName,
         description: role.description,
-        instructions: role.instructions,
+        instructions: renderTemplate(role.instructions, vars),
       },
     },
     null,
     2,
   );
 }
+
+export function jsonDoctor(report: DoctorReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+export function jsonConfigValidation(report: ConfigValidationReport): string {
+  return JSON.stringify(report, null, 2);
+}
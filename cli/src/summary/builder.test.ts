@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest";
 import { buildSummary } from "./builder.js";
-import type { GitHubIssue, GitHubPR, RepoRef } from "../config/types.js";
+import { DEFAULT_GOVERNANCE } from "../config/defaults.js";
+import { DEFAULT_GOVERNANCE_LABELS, type GitHubIssue, type GitHubPR, type RepoRef } from "../config/types.js";
 
 const repo: RepoRef = { owner: "hivemoot", repo: "colony" };
 const now = new Date("2025-06-15T12:00:00Z");
@@ -500,6 +501,119 @@ describe("buildSummary()", () => {
     expect(summary.implement[1].competingPRs).toBe(1);
   });
 
+  it("flags implement items that reached governance.pr.maxPRsPerIssue", () => {
+    const issue1 = makeIssue({ number: 45, title: "Dashboard" });
+    const issue2 = makeIssue({ number: 46, title: "Notifications" });
+    const pr1 = makePR({
+      number: 100,
+      author: { login: "testuser" },
+      labels: [{ name: "implementation" }],
+      closingIssuesReferences: [{ number: 45 }],
+    });
+    const pr2 = makePR({
+      number: 101,
+      labels: [{ name: "implementation" }],
+      closingIssuesReferences: [{ number: 45 }, { number: 46 }],
+    });
+    const governance = { ...DEFAULT_GOVERNANCE, pr: { staleDays: 3, maxPRsPerIssue: 2 } };
+
+    const summary = buildSummary(repo, [issue1, issue2], [pr1, pr2], "testuser", now, new Map(), new Map(), governance);
+    expect(summary.implement[0].prLimitReached).toBe(true);
+    expect(summary.implement[1].prLimitReached).toBeUndefined();
+  });
+
+  it("marks PRs without activity for governance.pr.staleDays as stale", () => {
+    const quiet = makePR({ number: 100, createdAt: "2025-06-01T12:00:00Z", commits: [{ committedDate: "2025-06-10T12:00:00Z" }] });
+    const revived = makePR({
+      number: 101,
+      createdAt: "2025-06-01T12:00:00Z",
+      comments: [{ createdAt: "2025-06-14T12:00:00Z", author: { login: "carol" } }],
+    });
+    const recent = makePR({ number: 102 });
+
+    const summary = buildSummary(repo, [], [quiet, revived, recent], "testuser", now);
+    expect(summary.reviewPRs.map((item) => [item.number, item.stale])).toEqual([
+      [100, true],
+      [101, undefined],
+      [102, undefined],
+    ]);
+
+    const governance = { ...DEFAULT_GOVERNANCE, pr: { staleDays: 1, maxPRsPerIssue: 3 } };
+    const strict = buildSummary(repo, [], [revived], "testuser", now, new Map(), new Map(), governance);
+    expect(strict.reviewPRs[0].stale).toBe(true);
+  });
+
+  it("uses the default PR limit of 3 when governance is omitted", () => {
+    const issue = makeIssue({ number: 45, title: "Dashboard" });
+    const prs = [100, 101].map((number) =>
+      makePR({ number, labels: [{ name: "implementation" }], closingIssuesReferences: [{ number: 45 }] }),
+    );
+
+    const summary = buildSummary(repo, [issue], prs, "testuser", now);
+    expect(summary.implement[0].prLimitReached).toBeUndefined();
+  });
+
+  // ── Label mapping ────────────────────────────────────────────────
+
+  describe("with a label mapping", () => {
+    const labels = {
+      ...DEFAULT_GOVERNANCE_LABELS,
+      VOTING: ["status/voting"],
+      READY_TO_IMPLEMENT: ["status/ready"],
+      IMPLEMENTATION: ["kind/implementation"],
+      MERGE_READY: ["state/approved"],
+    };
+    const summarize = (issues: GitHubIssue[], prs: GitHubPR[]) =>
+      buildSummary(repo, issues, prs, "testuser", now, new Map(), new Map(), DEFAULT_GOVERNANCE, labels);
+
+    it("classifies issues by the mapped labels", () => {
+      const summary = summarize(
+        [
+          makeIssue({ number: 1, labels: [{ name: "status/voting" }] }),
+          makeIssue({ number: 2, labels: [{ name: "status/ready" }] }),
+          makeIssue({ number: 3, labels: [{ name: "phase:voting" }] }),
+        ],
+        [],
+      );
+      expect(summary.voteOn.map((item) => item.number)).toEqual([1]);
+      expect(summary.implement.map((item) => item.number)).toEqual([2]);
+      expect(summary.unclassified.map((item) => item.number)).toEqual([3]);
+    });
+
+    it("counts competing PRs by the mapped implementation label", () => {
+      const issue = makeIssue({ number: 45, labels: [{ name: "status/ready" }] });
+      const prs = [
+        makePR({ number: 100, labels: [{ name: "kind/implementation" }], closingIssuesReferences: [{ number: 45 }] }),
+        makePR({ number: 101, labels: [{ name: "implementation" }], closingIssuesReferences: [{ number: 45 }] }),
+      ];
+
+      expect(summarize([issue], prs).implement[0].competingPRs).toBe(1);
+    });
+
+    it("reports a PR with the mapped merge-ready label as approved", () => {
+      const summary = summarize([], [makePR({ labels: [{ name: "state/approved" }] })]);
+      expect(summary.reviewPRs[0].status).toBe("approved");
+    });
+
+    it("skips the vote and discuss keyword fallback", () => {
+      const summary = summarize(
+        [
+          makeIssue({ number: 1, labels: [{ name: "vote-later" }] }),
+          makeIssue({ number: 2, labels: [{ name: "discuss" }] }),
+        ],
+        [],
+      );
+      expect(summary.voteOn).toEqual([]);
+      expect(summary.discuss).toEqual([]);
+      expect(summary.unclassified.map((item) => item.number)).toEqual([1, 2]);
+    });
+  });
+
+  it("leaves approval to the review decision when no merge-ready label is mapped", () => {
+    const summary = buildSummary(repo, [], [makePR({ labels: [{ name: "hivemoot:merge-ready" }] })], "testuser", now);
+    expect(summary.reviewPRs[0].status).toBe("pending");
+  });
+
   // ── Structured PR fields ──────────────────────────────────────────
 
   it("populates compact check/merge/review fields on review PRs", () => {
@@ -550,6 +664,30 @@ describe("buildSummary()", () => {
     expect(summary.discuss).toHaveLength(0);
   });
 
+  it("recognises a GitHub App bot's own items whichever login spelling GitHub reports", () => {
+    const issue = makeIssue({
+      number: 52,
+      labels: [{ name: "discuss" }],
+      author: { login: "my-app" },
+    });
+    const commented = makeIssue({
+      number: 53,
+      comments: [{ createdAt: "2025-06-14T12:00:00Z", author: { login: "my-app" } }],
+    });
+    const ownPR = makePR({ number: 60, author: { login: "app/my-app" } });
+    const reviewed = makePR({
+      number: 61,
+      reviews: [{ state: "APPROVED", author: { login: "my-app" }, submittedAt: "2025-06-14T00:00:00Z" }],
+    });
+
+    const summary = buildSummary(repo, [issue, commented], [ownPR, reviewed], "my-app[bot]", now);
+
+    expect(summary.driveDiscussion.map((item) => item.number)).toEqual([52]);
+    expect(summary.driveImplementation.map((item) => item.number)).toEqual([60]);
+    expect(summary.implement.find((item) => item.number === 53)?.yourComment).toBe("commented");
+    expect(summary.reviewPRs.find((item) => item.number === 61)?.yourReview).toBe("approved");
+  });
+
   it("keeps non-authored discuss issues in discuss", () => {
     const issue = makeIssue({
       number: 52,
@@ -1,13 +1,18 @@
-import type {
-  GitHubIssue,
-  GitHubPR,
-  NotificationRef,
-  RepoRef,
-  RepoSummary,
-  SummaryItem,
+import {
+  DEFAULT_GOVERNANCE_LABELS,
+  type GovernanceConfig,
+  type GovernanceLabels,
+  type GitHubIssue,
+  type GitHubPR,
+  type NotificationRef,
+  type RepoRef,
+  type RepoSummary,
+  type SummaryItem,
 } from "../config/types.js";
+import { DEFAULT_GOVERNANCE } from "../config/defaults.js";
 import type { VoteMap } from "../github/votes.js";
 import type { NotificationMap } from "../github/notifications.js";
+import { sameLogin } from "../github/login.js";
 import {
   hasLabel,
   hasCIFailure,
@@ -19,9 +24,13 @@ import {
   reviewContext,
   latestCommitAge,
   latestCommentAge,
+  lastActivityAt,
+  daysSince,
   commentContext,
   hasGovernanceLabel,
   hasGovernanceLabelName,
+  hasLabelMapping,
+  isMappedLabel,
 } from "./utils.js";
 
 /** Map verbose check labels to compact values for structured output. */
@@ -45,6 +54,7 @@ function classifyIssue(
   issue: GitHubIssue,
   currentUser: string,
   now: Date,
+  labels: GovernanceLabels,
 ): { bucket: "voteOn" | "discuss" | "implement" | "needsHuman" | "unclassified"; item: SummaryItem } {
   const age = timeAgo(issue.createdAt, now);
   const assigned =
@@ -78,30 +88,32 @@ function classifyIssue(
   }
 
   // Issues needing human attention are excluded from all actionable buckets
-  if (hasGovernanceLabel(issue.labels, "NEEDS_HUMAN")) {
+  if (hasGovernanceLabel(issue.labels, "NEEDS_HUMAN", labels)) {
     return {
       bucket: "needsHuman",
       item: { ...base, assigned },
     };
   }
 
-  // Bot governance labels (canonical + legacy aliases)
-  if (hasGovernanceLabel(issue.labels, "VOTING") || hasGovernanceLabel(issue.labels, "EXTENDED_VOTING")) {
+  // Bot governance labels, as mapped by hivemoot.yml
+  if (hasGovernanceLabel(issue.labels, "VOTING", labels) || hasGovernanceLabel(issue.labels, "EXTENDED_VOTING", labels)) {
     return { bucket: "voteOn", item: base };
   }
-  if (hasGovernanceLabel(issue.labels, "DISCUSSION")) {
+  if (hasGovernanceLabel(issue.labels, "DISCUSSION", labels)) {
     return { bucket: "discuss", item: base };
   }
-  if (hasGovernanceLabel(issue.labels, "READY_TO_IMPLEMENT")) {
+  if (hasGovernanceLabel(issue.labels, "READY_TO_IMPLEMENT", labels)) {
     return { bucket: "implement", item: { ...base, assigned } };
   }
 
-  // Keyword fallback (repos without the bot)
-  if (hasLabel(issue.labels, "vote")) {
-    return { bucket: "voteOn", item: base };
-  }
-  if (hasLabel(issue.labels, "discuss")) {
-    return { bucket: "discuss", item: base };
+  // Keyword fallback (repos without the bot or a labels: mapping)
+  if (!hasLabelMapping(labels)) {
+    if (hasLabel(issue.labels, "vote")) {
+      return { bucket: "voteOn", item: base };
+    }
+    if (hasLabel(issue.labels, "discuss")) {
+      return { bucket: "discuss", item: base };
+    }
   }
 
   return {
@@ -113,6 +125,7 @@ function classifyIssue(
 function classifyPR(
   pr: GitHubPR,
   now: Date,
+  labels: GovernanceLabels,
 ): { bucket: "reviewPRs" | "draftPRs" | "addressFeedback"; item: SummaryItem } {
   const age = timeAgo(pr.createdAt, now);
   const tags = pr.labels.map((l) => l.name);
@@ -145,7 +158,11 @@ function classifyPR(
     };
   }
 
-  const status = pr.reviewDecision === "APPROVED" ? "approved" : "pending";
+  // A repo that maps its merge-ready label marks approval with it
+  const approved =
+    pr.reviewDecision === "APPROVED" ||
+    (isMappedLabel(labels, "MERGE_READY") && hasGovernanceLabel(pr.labels, "MERGE_READY", labels));
+  const status = approved ? "approved" : "pending";
 
   return {
     bucket: "reviewPRs",
@@ -153,11 +170,16 @@ function classifyPR(
   };
 }
 
-function buildCompetitionMap(prs: GitHubPR[], currentUser: string): Map<number, number> {
+/** Implementation PRs per linked issue, optionally leaving out one author's. */
+function buildCompetitionMap(
+  prs: GitHubPR[],
+  labels: GovernanceLabels,
+  excludeAuthor?: string,
+): Map<number, number> {
   const map = new Map<number, number>();
   for (const pr of prs) {
-    if (!hasGovernanceLabel(pr.labels, "IMPLEMENTATION")) continue;
-    if (pr.author?.login === currentUser) continue;
+    if (!hasGovernanceLabel(pr.labels, "IMPLEMENTATION", labels)) continue;
+    if (excludeAuthor !== undefined && sameLogin(pr.author?.login, excludeAuthor)) continue;
     for (const ref of pr.closingIssuesReferences) {
       map.set(ref.number, (map.get(ref.number) ?? 0) + 1);
     }
@@ -173,6 +195,8 @@ export function buildSummary(
   now: Date = new Date(),
   votes: VoteMap = new Map(),
   notifications: NotificationMap = new Map(),
+  governance: GovernanceConfig = DEFAULT_GOVERNANCE,
+  labels: GovernanceLabels = DEFAULT_GOVERNANCE_LABELS,
 ): RepoSummary {
   const needsHuman: SummaryItem[] = [];
   const voteOn: SummaryItem[] = [];
@@ -184,7 +208,7 @@ export function buildSummary(
   const addressFeedback: SummaryItem[] = [];
 
   for (const issue of issues) {
-    const { bucket, item } = classifyIssue(issue, currentUser, now);
+    const { bucket, item } = classifyIssue(issue, currentUser, now, labels);
     if (bucket === "needsHuman") needsHuman.push(item);
     else if (bucket === "voteOn") voteOn.push(item);
     else if (bucket === "discuss") discuss.push(item);
@@ -202,16 +226,21 @@ export function buildSummary(
   }
 
   // Annotate implement items with competing PR counts
-  const competitionMap = currentUser ? buildCompetitionMap(prs, currentUser) : new Map<number, number>();
+  const competitionMap = currentUser ? buildCompetitionMap(prs, labels, currentUser) : new Map<number, number>();
+  const prCounts = buildCompetitionMap(prs, labels);
   for (const item of implement) {
     const count = competitionMap.get(item.number) ?? 0;
     if (count > 0) {
       item.competingPRs = count;
     }
+    // The governance bot turns away PRs beyond the per-issue limit
+    if ((prCounts.get(item.number) ?? 0) >= governance.pr.maxPRsPerIssue) {
+      item.prLimitReached = true;
+    }
   }
 
   for (const pr of prs) {
-    const { bucket, item } = classifyPR(pr, now);
+    const { bucket, item } = classifyPR(pr, now, labels);
     const ctx = reviewContext(pr, currentUser, now);
     if (ctx) {
       item.yourReview = ctx.yourReview;
@@ -220,6 +249,9 @@ export function buildSummary(
     item.lastCommit = latestCommitAge(pr, now);
     item.lastComment = latestCommentAge(pr, now);
     item.updated = timeAgo(pr.updatedAt, now);
+    if (daysSince(lastActivityAt(pr), now) >= governance.pr.staleDays) {
+      item.stale = true;
+    }
     if (bucket === "reviewPRs") reviewPRs.push(item);
     else if (bucket === "draftPRs") draftPRs.push(item);
     else addressFeedback.push(item);
@@ -230,12 +262,12 @@ export function buildSummary(
   const driveImplementation: SummaryItem[] = [];
 
   const filteredDiscuss = discuss.filter((item) => {
-    if (item.author === currentUser) { driveDiscussion.push(item); return false; }
+    if (sameLogin(item.author, currentUser)) { driveDiscussion.push(item); return false; }
     return true;
   });
 
   const filteredVoteOn = voteOn.filter((item) => {
-    if (item.author === currentUser && hasGovernanceLabelName(item.tags, "EXTENDED_VOTING")) {
+    if (sameLogin(item.author, currentUser) && hasGovernanceLabelName(item.tags, "EXTENDED_VOTING", labels)) {
       driveDiscussion.push(item);
       return false;
     }
@@ -243,12 +275,12 @@ export function buildSummary(
   });
 
   const filteredReviewPRs = reviewPRs.filter((item) => {
-    if (item.author === currentUser) { driveImplementation.push(item); return false; }
+    if (sameLogin(item.author, currentUser)) { driveImplementation.push(item); return false; }
     return true;
   });
 
   const filteredAddressFeedback = addressFeedback.filter((item) => {
-    if (item.author === currentUser) { driveImplementation.push(item); return false; }
+    if (sameLogin(item.author, currentUser)) { driveImplementation.push(item); return false; }
     return true;
   });
 
@@ -14,10 +14,13 @@ import {
   reviewContext,
   latestCommitAge,
   latestCommentAge,
+  lastActivityAt,
   commentContext,
   isVotingIssue,
+  hasLabelMapping,
+  isMappedLabel,
 } from "./utils.js";
-import type { GitHubPR } from "../config/types.js";
+import { DEFAULT_GOVERNANCE_LABELS, type GitHubPR } from "../config/types.js";
 
 function makePR(overrides: Partial<GitHubPR> = {}): GitHubPR {
   return {
@@ -133,6 +136,27 @@ describe("hasGovernanceLabel()", () => {
     expect(hasGovernanceLabel([{ name: "phase:discussion" }], "VOTING")).toBe(false);
     expect(hasGovernanceLabel([{ name: "bug" }], "IMPLEMENTATION")).toBe(false);
   });
+
+  it("matches only the mapped names when given a label mapping", () => {
+    const mapping = { ...DEFAULT_GOVERNANCE_LABELS, VOTING: ["Status/Voting"] };
+    expect(hasGovernanceLabel([{ name: "status/voting" }], "VOTING", mapping)).toBe(true);
+    expect(hasGovernanceLabel([{ name: "hivemoot:voting" }], "VOTING", mapping)).toBe(false);
+    expect(hasGovernanceLabel([{ name: "hivemoot:discussion" }], "DISCUSSION", mapping)).toBe(true);
+  });
+});
+
+describe("hasLabelMapping()", () => {
+  it("is false for the default labels", () => {
+    expect(hasLabelMapping(DEFAULT_GOVERNANCE_LABELS)).toBe(false);
+    expect(hasLabelMapping({ ...DEFAULT_GOVERNANCE_LABELS })).toBe(false);
+  });
+
+  it("is true once any key is mapped", () => {
+    const mapping = { ...DEFAULT_GOVERNANCE_LABELS, MERGE_READY: ["state/approved"] };
+    expect(hasLabelMapping(mapping)).toBe(true);
+    expect(isMappedLabel(mapping, "MERGE_READY")).toBe(true);
+    expect(isMappedLabel(mapping, "VOTING")).toBe(false);
+  });
 });
 
 describe("hasGovernanceLabelName()", () => {
@@ -604,6 +628,25 @@ describe("latestCommentAge()", () => {
   });
 });
 
+// ── lastActivityAt ──────────────────────────────────────────────────
+
+describe("lastActivityAt()", () => {
+  it("falls back to the creation time without activity", () => {
+    const pr = makePR({ createdAt: "2025-06-10T00:00:00Z", commits: [], comments: [], reviews: [] });
+    expect(lastActivityAt(pr)).toBe("2025-06-10T00:00:00Z");
+  });
+
+  it("picks the latest commit, comment or review", () => {
+    const pr = makePR({
+      createdAt: "2025-06-10T00:00:00Z",
+      commits: [{ committedDate: "2025-06-11T00:00:00Z" }],
+      comments: [{ createdAt: "2025-06-12T00:00:00Z" }],
+      reviews: [{ state: "COMMENTED", author: { login: "bob" }, submittedAt: "2025-06-13T00:00:00Z" }],
+    });
+    expect(lastActivityAt(pr)).toBe("2025-06-13T00:00:00Z");
+  });
+});
+
 // ── commentContext ──────────────────────────────────────────────────
 
 describe("commentContext()", () => {
@@ -711,4 +754,16 @@ describe("isVotingIssue()", () => {
   it("returns false for phase:discussion", () => {
     expect(isVotingIssue([{ name: "phase:discussion" }])).toBe(false);
   });
+
+  it("uses the mapped voting labels", () => {
+    const mapping = { ...DEFAULT_GOVERNANCE_LABELS, VOTING: ["status/voting"], EXTENDED_VOTING: ["status/runoff"] };
+    expect(isVotingIssue([{ name: "status/voting" }], mapping)).toBe(true);
+    expect(isVotingIssue([{ name: "status/runoff" }], mapping)).toBe(true);
+    expect(isVotingIssue([{ name: "phase:voting" }], mapping)).toBe(false);
+  });
+
+  it("ignores the vote keyword when labels are mapped", () => {
+    const mapping = { ...DEFAULT_GOVERNANCE_LABELS, VOTING: ["status/voting"] };
+    expect(isVotingIssue([{ name: "vote-later" }], mapping)).toBe(false);
+  });
 });
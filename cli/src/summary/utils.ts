@@ -1,35 +1,39 @@
-import type { GitHubPR } from "../config/types.js";
-
-export const GOVERNANCE_LABEL_ALIASES = {
-  DISCUSSION: ["hivemoot:discussion", "phase:discussion"],
-  VOTING: ["hivemoot:voting", "phase:voting"],
-  EXTENDED_VOTING: ["hivemoot:extended-voting", "phase:extended-voting"],
-  READY_TO_IMPLEMENT: ["hivemoot:ready-to-implement", "phase:ready-to-implement"],
-  NEEDS_HUMAN: ["hivemoot:needs-human", "needs:human"],
-  IMPLEMENTATION: ["hivemoot:candidate", "implementation"],
-  REJECTED: ["hivemoot:rejected", "rejected"],
-  INCONCLUSIVE: ["hivemoot:inconclusive", "inconclusive"],
-  STALE: ["hivemoot:stale", "stale"],
-  IMPLEMENTED: ["hivemoot:implemented", "implemented"],
-  MERGE_READY: ["hivemoot:merge-ready", "merge-ready"],
-} as const;
-
-export type GovernanceLabelKey = keyof typeof GOVERNANCE_LABEL_ALIASES;
+import {
+  DEFAULT_GOVERNANCE_LABELS,
+  type GitHubPR,
+  type GovernanceLabelKey,
+  type GovernanceLabels,
+} from "../config/types.js";
+import { sameLogin } from "../github/login.js";
 
 export function hasGovernanceLabel(
   labels: Array<{ name: string }>,
   key: GovernanceLabelKey,
+  mapping: GovernanceLabels = DEFAULT_GOVERNANCE_LABELS,
 ): boolean {
-  const aliases = GOVERNANCE_LABEL_ALIASES[key];
-  return labels.some((label) => aliases.some((alias) => alias === label.name.toLowerCase()));
+  return hasGovernanceLabelName(labels.map((label) => label.name), key, mapping);
+}
+
+/** Whether hivemoot.yml maps `key` to its own label names instead of the defaults. */
+export function isMappedLabel(mapping: GovernanceLabels, key: GovernanceLabelKey): boolean {
+  return mapping[key] !== DEFAULT_GOVERNANCE_LABELS[key];
+}
+
+/**
+ * Whether hivemoot.yml maps any governance label. Repos that do name their
+ * own labels, so keyword matching ("vote", "discuss") is left to those that don't.
+ */
+export function hasLabelMapping(mapping: GovernanceLabels): boolean {
+  return (Object.keys(mapping) as GovernanceLabelKey[]).some((key) => isMappedLabel(mapping, key));
 }
 
 export function hasGovernanceLabelName(
   labelNames: string[],
   key: GovernanceLabelKey,
+  mapping: GovernanceLabels = DEFAULT_GOVERNANCE_LABELS,
 ): boolean {
-  const aliases = GOVERNANCE_LABEL_ALIASES[key];
-  return labelNames.some((name) => aliases.some((alias) => alias === name.toLowerCase()));
+  const aliases = mapping[key].map((alias) => alias.toLowerCase());
+  return labelNames.some((name) => aliases.includes(name.toLowerCase()));
 }
 
 // ── Comment context ──────────────────────────────────────────────
@@ -50,7 +54,7 @@ export function commentContext(
 ): CommentContext | null {
   let latestTime: string | undefined;
   for (const comment of item.comments) {
-    if (comment.author?.login === currentUser) {
+    if (sameLogin(comment.author?.login, currentUser)) {
       if (!latestTime || comment.createdAt > latestTime) {
         latestTime = comment.createdAt;
       }
@@ -64,13 +68,16 @@ export function commentContext(
 
 /**
  * Whether an issue is in a voting phase based on its labels.
- * Matches canonical/legacy voting labels, or the keyword "vote".
+ * Matches the mapped voting labels, or the keyword "vote" when no labels are mapped.
  */
-export function isVotingIssue(labels: Array<{ name: string }>): boolean {
+export function isVotingIssue(
+  labels: Array<{ name: string }>,
+  mapping: GovernanceLabels = DEFAULT_GOVERNANCE_LABELS,
+): boolean {
   return (
-    hasGovernanceLabel(labels, "VOTING") ||
-    hasGovernanceLabel(labels, "EXTENDED_VOTING") ||
-    hasLabel(labels, "vote")
+    hasGovernanceLabel(labels, "VOTING", mapping) ||
+    hasGovernanceLabel(labels, "EXTENDED_VOTING", mapping) ||
+    (!hasLabelMapping(mapping) && hasLabel(labels, "vote"))
   );
 }
 
@@ -199,7 +206,7 @@ export function reviewContext(pr: GitHubPR, currentUser: string, now: Date): Rev
   let latestState: string | undefined;
   let latestTime: string | undefined;
   for (const review of pr.reviews ?? []) {
-    if (review.author?.login === currentUser) {
+    if (sameLogin(review.author?.login, currentUser)) {
       latestState = review.state;
       latestTime = review.submittedAt;
     }
@@ -232,6 +239,17 @@ export function latestCommitAge(pr: GitHubPR, now: Date): string | undefined {
   return timeAgo(latest, now);
 }
 
+/** ISO time of the latest commit, comment or review on a PR, or its creation when there are none. */
+export function lastActivityAt(pr: GitHubPR): string {
+  const times = [
+    pr.createdAt,
+    ...(pr.commits ?? []).map((c) => c.committedDate),
+    ...pr.comments.map((c) => c.createdAt),
+    ...(pr.reviews ?? []).flatMap((r) => (r.submittedAt ? [r.submittedAt] : [])),
+  ];
+  return times.reduce((latest, time) => (time > latest ? time : latest));
+}
+
 /** Relative time of the most recent comment, or undefined if no comments. */
 export function latestCommentAge(item: { comments: Array<{ createdAt: string }> }, now: Date): string | undefined {
   if (item.comments.length === 0) return undefined;